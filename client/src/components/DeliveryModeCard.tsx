@@ -0,0 +1,66 @@
+import { useMutation } from "@tanstack/react-query";
+import { Project, DeliveryMode } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface DeliveryModeCardProps {
+  project: Project;
+}
+
+const MODE_TEXT: Record<DeliveryMode, string> = {
+  individual: "Each supporter's email is sent to the recipient on its own.",
+  digest: "Supporters sign, and the recipient gets one digest a day with the new signatures.",
+};
+
+// Moderator tool to switch a project between individual emails and a daily digest
+export default function DeliveryModeCard({ project }: DeliveryModeCardProps) {
+  const { toast } = useToast();
+
+  const modeMutation = useMutation({
+    mutationFn: async (deliveryMode: DeliveryMode) => {
+      const response = await apiRequest("POST", `/api/projects/${project.id}/delivery-mode`, { deliveryMode });
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activities'] });
+      toast({
+        title: updated.deliveryMode === "digest" ? "Daily Digest On" : "Individual Emails On",
+        description: MODE_TEXT[updated.deliveryMode],
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg overflow-hidden p-4">
+      <h2 className="font-medium text-gray-800 mb-1">Email Delivery</h2>
+      <p className="text-sm text-gray-500 mb-4">{MODE_TEXT[project.deliveryMode]}</p>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          className="flex-1"
+          disabled={modeMutation.isPending || project.deliveryMode === "individual"}
+          onClick={() => modeMutation.mutate("individual")}
+        >
+          Individual
+        </Button>
+        <Button
+          variant="outline"
+          className="flex-1"
+          disabled={modeMutation.isPending || project.deliveryMode === "digest"}
+          onClick={() => modeMutation.mutate("digest")}
+        >
+          Daily Digest
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { DuplicateCandidate } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface DuplicateCandidatesProps {
+  candidates: DuplicateCandidate[];
+  onJoin: (projectId: number) => void;
+  onContinue: () => void;
+}
+
+// Format a distance in metres for display
+const formatDistance = (meters: number) => {
+  return meters < 1000 ? `${meters} m away` : `${(meters / 1000).toFixed(1)} km away`;
+};
+
+export default function DuplicateCandidates({ candidates, onJoin, onContinue }: DuplicateCandidatesProps) {
+  const { toast } = useToast();
+  const [upvotedIds, setUpvotedIds] = useState<number[]>([]);
+  
+  // Upvote an existing project instead of filing a new one
+  const upvoteMutation = useMutation({
+    mutationFn: async (projectId: number) => {
+      const response = await fetch(`/api/projects/${projectId}/upvote`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+      
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to upvote project");
+      }
+      
+      return response.json();
+    },
+    onSuccess: (_data, projectId) => {
+      setUpvotedIds(prev => [...prev, projectId]);
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      toast({
+        title: "Success!",
+        description: "Your upvote has been added to the existing issue.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Upvote failed",
+        description: error.message,
+      });
+    },
+  });
+  
+  return (
+    <div className="border border-yellow-300 bg-yellow-50 rounded-md p-4 space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-gray-800">
+          <i className="fas fa-exclamation-triangle text-yellow-500 mr-2"></i>
+          This issue may already have been reported
+        </h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Supporting an existing campaign keeps upvotes and emails in one place.
+        </p>
+      </div>
+      
+      <ul className="space-y-3">
+        {candidates.map(candidate => (
+          <li key={candidate.id} className="bg-white border border-gray-200 rounded-md p-3">
+            <div className="flex justify-between items-start gap-3">
+              <div>
+                <p className="font-medium text-gray-900">{candidate.title}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {candidate.location} · {formatDistance(candidate.distanceMeters)} · {candidate.upvotes} upvotes
+                </p>
+              </div>
+              {candidate.likely && (
+                <span className="text-xs font-medium text-yellow-800 bg-yellow-100 rounded-full px-2 py-0.5 whitespace-nowrap">
+                  Likely match
+                </span>
+              )}
+            </div>
+            <div className="mt-3 flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={upvoteMutation.isPending || upvotedIds.includes(candidate.id)}
+                onClick={() => upvoteMutation.mutate(candidate.id)}
+              >
+                <i className="fas fa-arrow-up mr-2"></i>
+                {upvotedIds.includes(candidate.id) ? "Upvoted" : "Upvote"}
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                className="bg-primary hover:bg-primary/90 text-white"
+                onClick={() => onJoin(candidate.id)}
+              >
+                Join Campaign
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={onContinue}>
+          None of these match, continue
+        </Button>
+      </div>
+    </div>
+  );
+}
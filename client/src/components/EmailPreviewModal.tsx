@@ -1,15 +1,19 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import { Project, EmailSubmission } from "@/lib/types";
+import { Project, EmailSubmission, EmailPreview, EmailLanguage, GroundingCheck } from "@/lib/types";
+import { EMAIL_LANGUAGES } from "@/lib/languages";
 import { ImageIcon, AlertTriangle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import GroundingWarnings from "@/components/GroundingWarnings";
 
 interface EmailPreviewModalProps {
   project: Project;
@@ -19,6 +23,17 @@ interface EmailPreviewModalProps {
 
 type EmailTone = "professional" | "formal" | "assertive" | "concerned" | "personal";
 
+// A send refused because a daily limit was reached
+class SendLimitError extends Error {}
+
+// How long until a limit resets, from a Retry-After value in seconds
+function retryAfterText(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  if (hours >= 1) return `about ${hours} hour${hours === 1 ? "" : "s"}`;
+  const minutes = Math.max(1, Math.ceil(seconds / 60));
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
 export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPreviewModalProps) {
   const { toast } = useToast();
   const [emailContent, setEmailContent] = useState(project.emailTemplate);
@@ -27,25 +42,78 @@ export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPre
   const [showSuccess, setShowSuccess] = useState(false);
   const [currentTone, setCurrentTone] = useState<EmailTone>("professional");
   const [isChangingTone, setIsChangingTone] = useState(false);
+  // Details the last tone change added, until the email is edited
+  const [grounding, setGrounding] = useState<GroundingCheck>();
+  
+  // Supporters can write in another language, with an English translation
+  // appended for the recipient. `template` is the project's template in it.
+  const [language, setLanguage] = useState<EmailLanguage>(project.language);
+  const [template, setTemplate] = useState(project.emailTemplate);
+  const [appendTranslation, setAppendTranslation] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const canAppendTranslation = language !== "en";
+  
+  const [showPreview, setShowPreview] = useState(false);
+  
+  // Digest-mode projects collect signatures for one daily email
+  const isDigest = project.deliveryMode === "digest";
+  
+  // The server renders the email as it will be sent, photo and map included
+  const customContent = emailContent !== template ? emailContent : undefined;
+  const languageOptions = {
+    language: language !== project.language || appendTranslation ? language : undefined,
+    appendTranslation: canAppendTranslation && appendTranslation ? true : undefined,
+  };
+  const { data: preview, isFetching: isPreviewLoading, isError: isPreviewError } = useQuery<EmailPreview>({
+    queryKey: ['/api/email-preview', project.id, customContent, languageOptions.language, languageOptions.appendTranslation],
+    queryFn: async () => {
+      const response = await fetch("/api/email-preview", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ projectId: project.id, customContent, ...languageOptions }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to render email preview");
+      }
+      return response.json();
+    },
+    enabled: isOpen && showPreview,
+  });
   
   // Send email mutation
   const sendEmailMutation = useMutation({
     mutationFn: async () => {
       const emailData: EmailSubmission = {
         projectId: project.id,
-        customContent: emailContent !== project.emailTemplate ? emailContent : undefined,
-        senderEmail: senderEmail || undefined,
+        customContent,
+        senderEmail: (!isDigest && senderEmail) || undefined,
         senderName: senderName || undefined,
+        ...languageOptions,
       };
       
+      // Signed-in supporters send with their token so their own limit applies
+      const token = localStorage.getItem("authToken");
       const response = await fetch("/api/send-email", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
         body: JSON.stringify(emailData),
       });
       
+      if (response.status === 429) {
+        const error = await response.json();
+        const retryAfter = parseInt(response.headers.get("Retry-After") || "");
+        throw new SendLimitError(
+          isNaN(retryAfter)
+            ? `${error.message}. Please try again later.`
+            : `${error.message}. Please try again in ${retryAfterText(retryAfter)}.`
+        );
+      }
+      
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.message || "Failed to send email");
@@ -53,15 +121,53 @@ export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPre
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       // Show success message and invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/activities'] });
       setShowSuccess(true);
+      
+      // Sent, but without the translation that was asked for
+      if (data.warning) {
+        toast({
+          variant: "default",
+          title: "Sent Without Translation",
+          description: data.warning,
+        });
+      }
     },
   });
   
+  // Switch the email to the project's template in another language
+  const handleLanguageChange = async (value: EmailLanguage) => {
+    if (value === language) return;
+    
+    setIsTranslating(true);
+    try {
+      const response = await fetch(`/api/projects/${project.id}/translations/${value}`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to translate email");
+      }
+      
+      const translation = await response.json();
+      setLanguage(value);
+      setTemplate(translation.emailTemplate);
+      setEmailContent(translation.emailTemplate);
+      setCurrentTone("professional");
+      setGrounding(undefined);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Translation Failed",
+        description: error instanceof Error ? error.message : "Failed to translate email. Please try again.",
+      });
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+  
   // Handle email tone adjustment
   const handleToneChange = async (tone: EmailTone) => {
     if (tone === currentTone) return;
@@ -78,6 +184,7 @@ export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPre
         body: JSON.stringify({
           emailBody: emailContent, // Use current content instead of original template
           tone,
+          language,
         }),
       });
       
@@ -87,6 +194,7 @@ export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPre
       
       const data = await response.json();
       setEmailContent(data.emailBody);
+      setGrounding(data.grounding);
       
       // If there's a warning message but the operation still worked
       if (data.warning) {
@@ -150,7 +258,16 @@ export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPre
               <i className="fas fa-check text-green-600 text-2xl"></i>
             </div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">Thank You!</h3>
-            <p className="text-gray-600 mb-6">Your email has been sent. Your support helps improve our community.</p>
+            <p className="text-gray-600 mb-6">
+              {isDigest
+                ? "Your signature has been added and will reach the city in the next daily digest. Your support helps improve our community."
+                : "Your email is on its way to the city. Your support helps improve our community."}
+            </p>
+            {senderEmail && !isDigest && (
+              <p className="text-sm text-gray-500 mb-6">
+                We sent a confirmation link to {senderEmail}. Confirm it so officials can reply to you directly.
+              </p>
+            )}
             <Button onClick={onClose} className="bg-primary hover:bg-primary/90 text-white">
               Close
             </Button>
@@ -164,7 +281,7 @@ export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPre
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
         <DialogTitle className="text-xl font-semibold text-gray-900 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
-          <span>Send Email to Support This Issue</span>
+          <span>{isDigest ? "Sign to Support This Issue" : "Send Email to Support This Issue"}</span>
           <Button
             variant="ghost"
             size="icon"
@@ -182,6 +299,15 @@ export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPre
               <p className="text-sm text-gray-500">{project.description}</p>
             </div>
             
+            {isDigest && (
+              <Alert>
+                <AlertDescription>
+                  Instead of a separate email, your name and any changes you make below are added to one
+                  digest sent to {project.emailRecipient} each day.
+                </AlertDescription>
+              </Alert>
+            )}
+            
             <div className="bg-gray-50 rounded-lg p-4">
               <div className="space-y-4">
                 <div>
@@ -205,30 +331,114 @@ export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPre
                 </div>
                 
                 <div>
-                  <Label className="block text-sm font-medium text-gray-700">Email Body:</Label>
-                  <div className="relative">
-                    <Textarea
-                      rows={10}
-                      value={emailContent}
-                      onChange={(e) => setEmailContent(e.target.value)}
-                      className="mt-1 bg-white"
-                      disabled={isChangingTone}
-                    />
-                    {isChangingTone && (
-                      <div className="absolute inset-0 bg-gray-100/50 flex items-center justify-center">
-                        <div className="flex flex-col items-center">
-                          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
-                          <p className="mt-2 text-sm text-gray-600">Updating tone...</p>
-                        </div>
-                      </div>
+                  <Label className="block text-sm font-medium text-gray-700">Language:</Label>
+                  <Select
+                    value={language}
+                    onValueChange={(value) => handleLanguageChange(value as EmailLanguage)}
+                    disabled={isTranslating || isChangingTone}
+                  >
+                    <SelectTrigger className="mt-1 bg-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EMAIL_LANGUAGES.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {canAppendTranslation && (
+                    <div className="mt-2 flex items-center gap-2">
+                      <Checkbox
+                        id="appendTranslation"
+                        checked={appendTranslation}
+                        onCheckedChange={(checked) => setAppendTranslation(checked === true)}
+                      />
+                      <Label htmlFor="appendTranslation" className="text-sm font-normal text-gray-600">
+                        Append an English translation for the recipient
+                      </Label>
+                    </div>
+                  )}
+                </div>
+                
+                <div>
+                  <div className="flex justify-between items-center">
+                    <Label className="block text-sm font-medium text-gray-700">Email Body:</Label>
+                    {!isDigest && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs"
+                        onClick={() => setShowPreview(!showPreview)}
+                        disabled={isChangingTone || isTranslating}
+                      >
+                        <i className={`fas ${showPreview ? "fa-edit" : "fa-eye"} mr-1`}></i>
+                        {showPreview ? "Edit" : "Preview Email"}
+                      </Button>
                     )}
                   </div>
+                  {showPreview ? (
+                    <div className="mt-1 border border-gray-200 rounded-md bg-white overflow-hidden">
+                      {isPreviewError ? (
+                        <p className="p-4 text-sm text-red-600">The preview couldn't be rendered. Please try again.</p>
+                      ) : preview && !isPreviewLoading ? (
+                        <>
+                          {preview.warning && (
+                            <p className="px-4 py-2 text-sm text-amber-700 bg-amber-50 border-b border-amber-200">{preview.warning}</p>
+                          )}
+                          <iframe
+                            title="Email preview"
+                            srcDoc={preview.html}
+                            sandbox=""
+                            className="w-full h-[500px]"
+                          />
+                        </>
+                      ) : (
+                        <div className="h-[500px] flex items-center justify-center">
+                          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="relative">
+                      <Textarea
+                        rows={10}
+                        value={emailContent}
+                        onChange={(e) => {
+                          setEmailContent(e.target.value);
+                          setGrounding(undefined);
+                        }}
+                        className="mt-1 bg-white"
+                        disabled={isChangingTone || isTranslating}
+                      />
+                      {(isChangingTone || isTranslating) && (
+                        <div className="absolute inset-0 bg-gray-100/50 flex items-center justify-center">
+                          <div className="flex flex-col items-center">
+                            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                            <p className="mt-2 text-sm text-gray-600">{isTranslating ? "Translating..." : "Updating tone..."}</p>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  
+                  {!showPreview && grounding && grounding.warnings.length > 0 && (
+                    <div className="mt-2">
+                      <GroundingWarnings
+                        grounding={grounding}
+                        onRemove={(groundedBody) => {
+                          setEmailContent(groundedBody);
+                          setGrounding(undefined);
+                        }}
+                      />
+                    </div>
+                  )}
                   
                   {project.photoData && (
                     <div className="mt-2 flex items-center text-sm text-gray-600">
                       <div className="flex items-center text-green-600">
                         <ImageIcon className="h-4 w-4 mr-1" />
-                        <span>Photo will be attached to this email</span>
+                        <span>Photo will be included in this email</span>
                       </div>
                     </div>
                   )}
@@ -303,28 +513,41 @@ export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPre
                     />
                   </div>
                   
-                  <div>
-                    <Label htmlFor="senderEmail">Your Email (Optional):</Label>
-                    <Input
-                      id="senderEmail"
-                      type="email"
-                      value={senderEmail}
-                      onChange={(e) => setSenderEmail(e.target.value)}
-                      className="mt-1"
-                      placeholder="For email confirmation"
-                    />
-                  </div>
+                  {!isDigest && (
+                    <div>
+                      <Label htmlFor="senderEmail">Your Email (Optional):</Label>
+                      <Input
+                        id="senderEmail"
+                        type="email"
+                        value={senderEmail}
+                        onChange={(e) => setSenderEmail(e.target.value)}
+                        className="mt-1"
+                        placeholder="So officials can reply to you"
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
             
+            {sendEmailMutation.isError && (
+              <Alert variant="destructive" className="mt-6">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {sendEmailMutation.error instanceof SendLimitError
+                    ? <><span className="font-medium">Daily email limit reached.</span> {sendEmailMutation.error.message}</>
+                    : sendEmailMutation.error.message}
+                </AlertDescription>
+              </Alert>
+            )}
+            
             <div className="mt-6 flex justify-end">
               <Button
                 type="button"
                 variant="outline"
                 onClick={onClose}
                 className="mr-2"
-                disabled={sendEmailMutation.isPending || isChangingTone}
+                disabled={sendEmailMutation.isPending || isChangingTone || isTranslating}
               >
                 Cancel
               </Button>
@@ -332,10 +555,12 @@ export default function EmailPreviewModal({ project, isOpen, onClose }: EmailPre
                 type="button"
                 className="bg-primary hover:bg-primary/90 text-white"
                 onClick={handleSendEmail}
-                disabled={sendEmailMutation.isPending || isChangingTone}
+                disabled={sendEmailMutation.isPending || isChangingTone || isTranslating}
               >
                 <i className="fas fa-paper-plane mr-2"></i>
-                {sendEmailMutation.isPending ? "Sending..." : "Send Email"}
+                {sendEmailMutation.isPending
+                  ? (isDigest ? "Signing..." : "Sending...")
+                  : (isDigest ? "Add My Signature" : "Send Email")}
               </Button>
             </div>
           </div>
@@ -0,0 +1,96 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Project, EscalationSchedule } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface EscalationCardProps {
+  project: Project;
+}
+
+const STATE_TEXT: Record<EscalationSchedule["state"], string> = {
+  none: "This department has no escalation contacts.",
+  waiting: "The schedule starts once the first email reaches the recipient.",
+  active: "If officials don't respond, these contacts are copied in:",
+  paused: "Escalations are paused. Nothing more will be sent until they are resumed.",
+  responded: "An official responded, so no further escalations will be sent.",
+};
+
+// Escalation schedule for a project's creator and moderators, who can pause it
+export default function EscalationCard({ project }: EscalationCardProps) {
+  const { toast } = useToast();
+
+  const { data: schedule, isLoading } = useQuery<EscalationSchedule>({
+    queryKey: ['/api/projects', project.id, 'escalation'],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${project.id}/escalation`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch escalation schedule");
+      }
+      return response.json();
+    },
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: async (paused: boolean) => {
+      const response = await apiRequest("POST", `/api/projects/${project.id}/escalation`, { paused });
+      return response.json() as Promise<EscalationSchedule>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activities'] });
+      toast({
+        title: updated.state === "paused" ? "Escalations Paused" : "Escalations Resumed",
+        description: STATE_TEXT[updated.state],
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error.message,
+      });
+    },
+  });
+
+  if (isLoading || !schedule) return null;
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg overflow-hidden p-4">
+      <h2 className="font-medium text-gray-800 mb-1">Escalation</h2>
+      <p className="text-sm text-gray-500 mb-3">{STATE_TEXT[schedule.state]}</p>
+
+      {schedule.steps.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {schedule.steps.map((step) => (
+            <li key={`${step.afterDays}-${step.email}`} className="text-sm">
+              <div className="flex justify-between gap-2">
+                <span className="font-medium text-gray-900">{step.name}</span>
+                <span className="text-gray-500 whitespace-nowrap">after {step.afterDays} days</span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {step.sentAt
+                  ? `Copied in on ${format(new Date(step.sentAt), "MMM d, yyyy")}`
+                  : step.dueAt
+                    ? `Due ${format(new Date(step.dueAt), "MMM d, yyyy")}`
+                    : "Not scheduled yet"}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {schedule.state !== "none" && schedule.state !== "responded" && (
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={pauseMutation.isPending}
+          onClick={() => pauseMutation.mutate(!project.escalationPaused)}
+        >
+          {project.escalationPaused ? "Resume Escalations" : "Pause Escalations"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,93 +1,219 @@
 import { useState } from "react";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { IssueType, ProgressStatus, ProjectFilters, ProjectSortKey, UrgencyLevel } from "@/lib/types";
 
 interface FilterBarProps {
-  onFilterChange: (type: string, value: string) => void;
+  filters: ProjectFilters;
+  onFilterChange: <K extends keyof ProjectFilters>(key: K, value: ProjectFilters[K]) => void;
   onSearch: (query: string) => void;
-  issueType: string;
-  status: string;
-  searchQuery: string;
 }
 
+// Sort options shown in the advanced filters, as "<sort>:<order>"
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: "upvotes:desc", label: "Most Upvoted" },
+  { value: "emailsSent:desc", label: "Most Emails Sent" },
+  { value: "createdAt:desc", label: "Newest First" },
+  { value: "createdAt:asc", label: "Oldest First" },
+  { value: "urgency:desc", label: "Most Urgent" },
+];
+
 export default function FilterBar({
+  filters,
   onFilterChange,
   onSearch,
-  issueType,
-  status,
-  searchQuery,
 }: FilterBarProps) {
-  const [localSearchQuery, setLocalSearchQuery] = useState(searchQuery);
-  
+  const [localSearchQuery, setLocalSearchQuery] = useState(filters.search);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const { toast } = useToast();
+
   const handleSearchSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onSearch(localSearchQuery);
   };
-  
+
+  const handleSortChange = (value: string) => {
+    const [sort, order] = value.split(":");
+    onFilterChange("sort", sort as ProjectSortKey);
+    onFilterChange("order", order as "asc" | "desc");
+  };
+
+  // Toggle the "within 1 km of me" filter using the browser's location
+  const handleNearMeClick = () => {
+    if (filters.near) {
+      onFilterChange("near", null);
+      return;
+    }
+
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location unavailable",
+        description: "Your browser does not support location services.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        onFilterChange("near", { lat: position.coords.latitude, lng: position.coords.longitude });
+      },
+      () => {
+        setIsLocating(false);
+        toast({
+          title: "Location unavailable",
+          description: "Allow location access to find issues near you.",
+          variant: "destructive",
+        });
+      }
+    );
+  };
+
   return (
-    <div className="flex flex-col sm:flex-row gap-4 sm:items-center mb-6">
-      <div className="relative flex-grow">
-        <form onSubmit={handleSearchSubmit}>
-          <div className="relative">
-            <span className="absolute inset-y-0 left-0 flex items-center pl-3">
-              <i className="fas fa-search text-gray-400"></i>
-            </span>
-            <Input 
-              type="text" 
-              placeholder="Search issues..." 
-              className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
-              value={localSearchQuery}
-              onChange={(e) => setLocalSearchQuery(e.target.value)}
+    <div className="mb-6 space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+        <div className="relative flex-grow">
+          <form onSubmit={handleSearchSubmit}>
+            <div className="relative">
+              <span className="absolute inset-y-0 left-0 flex items-center pl-3">
+                <i className="fas fa-search text-gray-400"></i>
+              </span>
+              <Input
+                type="text"
+                placeholder="Search issues..."
+                className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                value={localSearchQuery}
+                onChange={(e) => setLocalSearchQuery(e.target.value)}
+              />
+            </div>
+          </form>
+        </div>
+        <div className="flex gap-2">
+          <Select
+            value={filters.issueType || "all"}
+            onValueChange={(value) => onFilterChange("issueType", value === "all" ? "" : value as IssueType)}
+          >
+            <SelectTrigger className="border border-gray-300 rounded-md py-2 px-3 bg-white text-sm">
+              <SelectValue placeholder="All Types" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              <SelectItem value="crosswalk">Crosswalk</SelectItem>
+              <SelectItem value="pothole">Pothole</SelectItem>
+              <SelectItem value="sidewalk">Sidewalk Damage</SelectItem>
+              <SelectItem value="streetlight">Street Light</SelectItem>
+              <SelectItem value="other">Other</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.status || "all"}
+            onValueChange={(value) => onFilterChange("status", value === "all" ? "" : value as ProgressStatus)}
+          >
+            <SelectTrigger className="border border-gray-300 rounded-md py-2 px-3 bg-white text-sm">
+              <SelectValue placeholder="All Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Status</SelectItem>
+              <SelectItem value="idea_submitted">Idea Submitted</SelectItem>
+              <SelectItem value="community_support">Community Support</SelectItem>
+              <SelectItem value="email_campaign_active">Email Campaign Active</SelectItem>
+              <SelectItem value="official_acknowledgment">Official Acknowledgment</SelectItem>
+              <SelectItem value="planning_stage">Planning Stage</SelectItem>
+              <SelectItem value="implementation">Implementation</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Button
+            variant="outline"
+            className={`border border-gray-300 rounded-md text-sm ${filters.near ? "bg-primary/10 text-primary" : ""}`}
+            onClick={handleNearMeClick}
+            disabled={isLocating}
+          >
+            <i className={`fas ${isLocating ? "fa-spinner fa-spin" : "fa-location-arrow"} mr-2`}></i>
+            Within 1 km of me
+          </Button>
+
+          <Button
+            variant="outline"
+            size="icon"
+            className={`p-2 border border-gray-300 rounded-md hover:bg-gray-50 ${showAdvanced ? "bg-gray-100" : ""}`}
+            onClick={() => setShowAdvanced(prev => !prev)}
+            aria-label="More filters"
+          >
+            <i className="fas fa-sliders-h text-gray-500"></i>
+          </Button>
+        </div>
+      </div>
+
+      {/* Advanced filters */}
+      {showAdvanced && (
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-md">
+          <div>
+            <Label className="text-xs text-gray-600">Sort By</Label>
+            <Select
+              value={`${filters.sort}:${filters.order}`}
+              onValueChange={handleSortChange}
+            >
+              <SelectTrigger className="mt-1 bg-white text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label className="text-xs text-gray-600">Urgency</Label>
+            <Select
+              value={filters.urgency || "all"}
+              onValueChange={(value) => onFilterChange("urgency", value === "all" ? "" : value as UrgencyLevel)}
+            >
+              <SelectTrigger className="mt-1 bg-white text-sm">
+                <SelectValue placeholder="Any Urgency" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Urgency</SelectItem>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="createdAfter" className="text-xs text-gray-600">Submitted After</Label>
+            <Input
+              id="createdAfter"
+              type="date"
+              className="mt-1 bg-white text-sm"
+              value={filters.createdAfter}
+              onChange={(e) => onFilterChange("createdAfter", e.target.value)}
             />
           </div>
-        </form>
-      </div>
-      <div className="flex gap-2">
-        <Select
-          value={issueType}
-          onValueChange={(value) => onFilterChange("issueType", value)}
-        >
-          <SelectTrigger className="border border-gray-300 rounded-md py-2 px-3 bg-white text-sm">
-            <SelectValue placeholder="All Types" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Types</SelectItem>
-            <SelectItem value="crosswalk">Crosswalk</SelectItem>
-            <SelectItem value="pothole">Pothole</SelectItem>
-            <SelectItem value="sidewalk">Sidewalk Damage</SelectItem>
-            <SelectItem value="streetlight">Street Light</SelectItem>
-            <SelectItem value="other">Other</SelectItem>
-          </SelectContent>
-        </Select>
-        
-        <Select
-          value={status}
-          onValueChange={(value) => onFilterChange("status", value)}
-        >
-          <SelectTrigger className="border border-gray-300 rounded-md py-2 px-3 bg-white text-sm">
-            <SelectValue placeholder="All Status" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="idea_submitted">Idea Submitted</SelectItem>
-            <SelectItem value="community_support">Community Support</SelectItem>
-            <SelectItem value="email_campaign_active">Email Campaign Active</SelectItem>
-            <SelectItem value="official_acknowledgment">Official Acknowledgment</SelectItem>
-            <SelectItem value="planning_stage">Planning Stage</SelectItem>
-            <SelectItem value="implementation">Implementation</SelectItem>
-            <SelectItem value="completed">Completed</SelectItem>
-          </SelectContent>
-        </Select>
-        
-        <Button 
-          variant="outline" 
-          size="icon"
-          className="p-2 border border-gray-300 rounded-md hover:bg-gray-50"
-        >
-          <i className="fas fa-sliders-h text-gray-500"></i>
-        </Button>
-      </div>
+
+          <div>
+            <Label htmlFor="createdBefore" className="text-xs text-gray-600">Submitted Before</Label>
+            <Input
+              id="createdBefore"
+              type="date"
+              className="mt-1 bg-white text-sm"
+              value={filters.createdBefore}
+              onChange={(e) => onFilterChange("createdBefore", e.target.value)}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
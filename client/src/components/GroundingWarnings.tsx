@@ -0,0 +1,53 @@
+import { GroundingCheck, GroundingWarning } from "@/lib/types";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle } from "lucide-react";
+
+interface GroundingWarningsProps {
+  grounding?: GroundingCheck;
+  // Replace the email with the version without the flagged sentences
+  onRemove?: (groundedBody: string) => void;
+}
+
+const KIND_LABELS: Record<GroundingWarning["kind"], string> = {
+  number: "Number",
+  date: "Date",
+  name: "Name",
+  place: "Place",
+  claim: "Story or incident",
+  urgency: "Urgency",
+};
+
+// Details the AI added that aren't in what the user submitted
+export default function GroundingWarnings({ grounding, onRemove }: GroundingWarningsProps) {
+  if (!grounding || grounding.warnings.length === 0) return null;
+
+  return (
+    <Alert className="border-amber-300 bg-amber-50">
+      <AlertTriangle className="h-4 w-4 text-amber-600" />
+      <AlertDescription>
+        <p className="font-medium text-amber-900">
+          The AI added details that aren't in what you submitted. Please check them before sending:
+        </p>
+        <ul className="mt-2 space-y-1 text-sm text-amber-900">
+          {grounding.warnings.map((warning) => (
+            <li key={`${warning.kind}-${warning.text}`}>
+              <span className="font-medium">{KIND_LABELS[warning.kind]}:</span> "{warning.text}"
+            </li>
+          ))}
+        </ul>
+        {onRemove && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="mt-3"
+            onClick={() => onRemove(grounding.groundedBody)}
+          >
+            Remove These Sentences
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
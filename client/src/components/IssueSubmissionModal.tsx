@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,11 +9,16 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useJurisdiction } from "@/hooks/use-jurisdiction";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { IssueType, UrgencyLevel, EmailTemplate, Project } from "@/lib/types";
+import { streamEmailGeneration } from "@/lib/email-stream";
+import { IssueType, UrgencyLevel, EmailLanguage, EmailTemplate, Project, CreatedProject, DuplicateCandidate } from "@/lib/types";
+import { EMAIL_LANGUAGES, defaultEmailLanguage } from "@/lib/languages";
 import MapComponent from "@/components/MapComponent";
 import EmailPreviewModal from "@/components/EmailPreviewModal";
 import SubmissionSuccessModal from "@/components/SubmissionSuccessModal";
+import DuplicateCandidates from "@/components/DuplicateCandidates";
+import GroundingWarnings from "@/components/GroundingWarnings";
 import { Upload, Image, Camera, Loader2 } from "lucide-react";
 
 interface IssueSubmissionModalProps {
@@ -26,6 +32,8 @@ type SubmissionStep = "details" | "email" | "success";
 
 export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData }: IssueSubmissionModalProps) {
   const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const { jurisdiction } = useJurisdiction();
   const [currentStep, setCurrentStep] = useState<SubmissionStep>("details");
   const [submittedProject, setSubmittedProject] = useState<Project | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -40,6 +48,7 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
     latitude: string;
     longitude: string;
     urgencyLevel: UrgencyLevel;
+    language: EmailLanguage;
     contactEmail: string;
     affectedGroups: string;
     desiredOutcome: string;
@@ -113,9 +122,10 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
     description: "",
     issueType: "" as IssueType,
     location: "",
-    latitude: "32.8397", // Default to Imperial Valley, CA
-    longitude: "-115.5663",
+    latitude: "", // Filled in with the jurisdiction center once it has loaded
+    longitude: "",
     urgencyLevel: "medium" as UrgencyLevel,
+    language: defaultEmailLanguage(),
     contactEmail: "",
     affectedGroups: "",
     desiredOutcome: "",
@@ -134,11 +144,29 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
     emailTo: "",
   });
 
+  // The email being generated, and the inputs it was generated from
+  const generationRef = useRef<{ controller: AbortController; inputs: string } | null>(null);
+  
+  // Duplicate check state: the candidates found for the draft last checked
+  const [duplicateCandidates, setDuplicateCandidates] = useState<DuplicateCandidate[]>([]);
+  const [checkedDraftKey, setCheckedDraftKey] = useState<string | null>(null);
+  
   // Email tone state
   type EmailTone = "professional" | "formal" | "assertive" | "concerned" | "personal";
   const [currentTone, setCurrentTone] = useState<EmailTone>("professional");
   const [isChangingTone, setIsChangingTone] = useState(false);
   
+  // Start the location pin at the center of the jurisdiction
+  useEffect(() => {
+    if (jurisdiction && !formData.latitude) {
+      setFormData(prev => ({
+        ...prev,
+        latitude: String(jurisdiction.center.lat),
+        longitude: String(jurisdiction.center.lng),
+      }));
+    }
+  }, [jurisdiction, formData.latitude]);
+  
   // Analyze initial photo if provided
   useEffect(() => {
     if (initialPhotoData) {
@@ -160,7 +188,7 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
   
   // Handle email tone change
   const handleToneChange = async (tone: EmailTone) => {
-    if (tone === currentTone || !emailTemplate.emailBody) return;
+    if (tone === currentTone || !emailTemplate.emailBody || generateEmailMutation.isPending) return;
     
     setIsChangingTone(true);
     try {
@@ -174,6 +202,16 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
         body: JSON.stringify({
           emailBody: emailTemplate.emailBody,
           tone,
+          language: formData.language,
+          // Checked against what was submitted, since the email itself was generated
+          details: {
+            issueType: formData.issueType,
+            location: formData.location,
+            description: formData.description,
+            urgencyLevel: formData.urgencyLevel,
+            affectedGroups: formData.affectedGroups || undefined,
+            desiredOutcome: formData.desiredOutcome || undefined,
+          },
         }),
       });
       
@@ -184,7 +222,8 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
       const data = await response.json();
       setEmailTemplate(prev => ({
         ...prev,
-        emailBody: data.emailBody
+        emailBody: data.emailBody,
+        grounding: data.grounding
       }));
       
       // If there's a warning message but the operation still worked
@@ -211,34 +250,64 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
     }
   };
   
-  // Generate email mutation
+  // The fields the email is generated from
+  const generationInputs = [
+    formData.issueType,
+    formData.location,
+    formData.description,
+    formData.urgencyLevel,
+    formData.language,
+    formData.latitude,
+    formData.longitude,
+    formData.affectedGroups,
+    formData.desiredOutcome,
+  ].join("|");
+  
+  // Generate email mutation. The email is streamed into the email step as
+  // it's written, when the AI provider supports it.
   const generateEmailMutation = useMutation({
     mutationFn: async () => {
+      generationRef.current?.controller.abort();
+      const controller = new AbortController();
+      generationRef.current = { controller, inputs: generationInputs };
+      
       // Include additional customization fields if they're filled in
       const payload = {
         issueType: formData.issueType,
         location: formData.location,
         description: formData.description,
         urgencyLevel: formData.urgencyLevel,
+        language: formData.language,
+        latitude: formData.latitude,
+        longitude: formData.longitude,
         // Include optional fields only if they have content
         ...(formData.affectedGroups ? { affectedGroups: formData.affectedGroups } : {}),
         ...(formData.desiredOutcome ? { desiredOutcome: formData.desiredOutcome } : {})
       };
       
-      const response = await fetch("/api/generate-email", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
+      // Show the email step once the first part arrives
+      let started = false;
+      const update = (change: (prev: EmailTemplate) => EmailTemplate) => {
+        if (controller.signal.aborted) return;
+        if (!started) {
+          started = true;
+          setEmailTemplate({ emailBody: "", emailSubject: "", emailTo: "" });
+          setCurrentStep("email");
+        }
+        setEmailTemplate(change);
+      };
       
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to generate email");
+      try {
+        return await streamEmailGeneration(payload, {
+          onSubject: (emailSubject) => update(prev => ({ ...prev, emailSubject })),
+          onRecipient: (emailTo) => update(prev => ({ ...prev, emailTo })),
+          onBody: (text) => update(prev => ({ ...prev, emailBody: prev.emailBody + text })),
+        }, controller.signal);
+      } finally {
+        if (generationRef.current?.controller === controller) {
+          generationRef.current = null;
+        }
       }
-      
-      return response.json() as Promise<EmailTemplate>;
     },
     onSuccess: (data) => {
       setEmailTemplate(data);
@@ -246,6 +315,47 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
     },
   });
   
+  // Stop generating when the user edits what the email is written from
+  useEffect(() => {
+    if (generationRef.current && generationRef.current.inputs !== generationInputs) {
+      generationRef.current.controller.abort();
+      generationRef.current = null;
+    }
+  }, [generationInputs]);
+  
+  // And when the modal goes away
+  useEffect(() => () => generationRef.current?.controller.abort(), []);
+  
+  // The fields that decide whether a draft duplicates an existing project
+  const draftKey = [formData.issueType, formData.latitude, formData.longitude, formData.title, formData.description].join("|");
+  
+  // Look for existing projects describing the same issue before drafting the email
+  const checkDuplicatesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/projects/duplicates", {
+        title: formData.title,
+        description: formData.description,
+        issueType: formData.issueType,
+        latitude: formData.latitude,
+        longitude: formData.longitude,
+      });
+      return response.json() as Promise<DuplicateCandidate[]>;
+    },
+    onSuccess: (candidates) => {
+      setCheckedDraftKey(draftKey);
+      setDuplicateCandidates(candidates);
+      if (candidates.length === 0) {
+        generateEmailMutation.mutate();
+      }
+    },
+    onError: (error) => {
+      // The check is advisory, so carry on with the submission
+      console.error("Duplicate check failed:", error);
+      setCheckedDraftKey(draftKey);
+      generateEmailMutation.mutate();
+    },
+  });
+  
   // Create project mutation
   const createProjectMutation = useMutation({
     mutationFn: async () => {
@@ -255,19 +365,33 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
         emailTemplate: emailTemplate.emailBody,
         emailSubject: emailTemplate.emailSubject,
         emailRecipient: emailTemplate.emailTo,
+        signedPromptVersion: emailTemplate.signedPromptVersion ?? null,
         contactEmail: formData.contactEmail || null,
       };
       
       const response = await apiRequest("POST", "/api/projects", projectData);
-      return response.json() as Promise<Project>;
+      return response.json() as Promise<CreatedProject>;
     },
     onSuccess: (data) => {
       setSubmittedProject(data);
+      if (data.warning) {
+        toast({
+          title: "Possible duplicate",
+          description: data.warning,
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/activities'] });
       setCurrentStep("success");
     },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Submission failed",
+        description: error.message,
+      });
+    },
   });
   
   // Handle form input changes
@@ -439,10 +563,28 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
       return;
     }
     
+    // Check for duplicates once per draft; the user may then choose to continue anyway
+    if (draftKey !== checkedDraftKey) {
+      checkDuplicatesMutation.mutate();
+      return;
+    }
+    
     // Generate email
     generateEmailMutation.mutate();
   };
   
+  // Continue with a new issue despite the duplicate candidates
+  const handleIgnoreDuplicates = () => {
+    setDuplicateCandidates([]);
+    generateEmailMutation.mutate();
+  };
+  
+  // Go to an existing project instead of creating a new one
+  const handleJoinCampaign = (projectId: number) => {
+    handleCloseAll();
+    navigate(`/projects/${projectId}`);
+  };
+  
   // Handle back button
   const handleBackToDetails = () => {
     setCurrentStep("details");
@@ -455,15 +597,17 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
   
   // Handle close modals and reset state
   const handleCloseAll = () => {
+    generationRef.current?.controller.abort();
     setCurrentStep("details");
     setFormData({
       title: "",
       description: "",
       issueType: "" as IssueType,
       location: "",
-      latitude: "32.8397", // Default to Imperial Valley, CA
-      longitude: "-115.5663",
+      latitude: "", // Filled in with the jurisdiction center once it has loaded
+      longitude: "",
       urgencyLevel: "medium" as UrgencyLevel,
+      language: defaultEmailLanguage(),
       contactEmail: "",
       affectedGroups: "",
       desiredOutcome: "",
@@ -476,6 +620,8 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
       emailTo: "",
     });
     setSubmittedProject(null);
+    setDuplicateCandidates([]);
+    setCheckedDraftKey(null);
     setCurrentTone("professional");
     onClose();
   };
@@ -570,20 +716,9 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
                     <SelectValue placeholder="Select a location" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="imperial_ave">Imperial Avenue</SelectItem>
-                    <SelectItem value="4th_street">4th Street</SelectItem>
-                    <SelectItem value="8th_street">8th Street</SelectItem>
-                    <SelectItem value="main_street">Main Street</SelectItem>
-                    <SelectItem value="dogwood_road">Dogwood Road</SelectItem>
-                    <SelectItem value="ross_avenue">Ross Avenue</SelectItem>
-                    <SelectItem value="plaza_drive">Plaza Drive</SelectItem>
-                    <SelectItem value="danenberg_drive">Danenberg Drive</SelectItem>
-                    <SelectItem value="worthington_road">Worthington Road</SelectItem>
-                    <SelectItem value="cole_road">Cole Road</SelectItem>
-                    <SelectItem value="aten_road">Aten Road</SelectItem>
-                    <SelectItem value="la_brucherie_road">La Brucherie Road</SelectItem>
-                    <SelectItem value="imperial_valley_college">Imperial Valley College</SelectItem>
-                    <SelectItem value="imperial_valley_mall">Imperial Valley Mall</SelectItem>
+                    {jurisdiction?.locations.map(location => (
+                      <SelectItem key={location.value} value={location.value}>{location.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <Button
@@ -658,6 +793,25 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
               </RadioGroup>
             </div>
             
+            {/* Email language */}
+            <div>
+              <Label htmlFor="language">Email Language</Label>
+              <Select
+                onValueChange={(value) => handleSelectChange("language", value)}
+                value={formData.language}
+              >
+                <SelectTrigger id="language" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMAIL_LANGUAGES.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="mt-2 text-sm text-gray-500">Supporters can still send the email in another language.</p>
+            </div>
+            
             {/* Additional customization fields - collapsible section */}
             <div className="border border-gray-200 rounded-md p-4">
               <div className="flex items-center justify-between cursor-pointer mb-2">
@@ -833,14 +987,25 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
               </p>
             </div>
             
+            {/* Possible duplicates of this draft */}
+            {checkedDraftKey === draftKey && duplicateCandidates.length > 0 && (
+              <DuplicateCandidates
+                candidates={duplicateCandidates}
+                onJoin={handleJoinCampaign}
+                onContinue={handleIgnoreDuplicates}
+              />
+            )}
+            
             {/* Submit button */}
             <div className="mt-6 flex justify-end">
               <Button
                 type="submit"
                 className="bg-primary hover:bg-primary/90 text-white"
-                disabled={generateEmailMutation.isPending}
+                disabled={generateEmailMutation.isPending || checkDuplicatesMutation.isPending}
               >
-                {generateEmailMutation.isPending ? "Generating..." : "Generate Email Draft"}
+                {checkDuplicatesMutation.isPending
+                  ? "Checking for similar issues..."
+                  : generateEmailMutation.isPending ? "Generating..." : "Generate Email Draft"}
               </Button>
             </div>
           </form>
@@ -906,6 +1071,11 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
                   />
                 </div>
                 
+                <GroundingWarnings
+                  grounding={emailTemplate.grounding}
+                  onRemove={(groundedBody) => setEmailTemplate(prev => ({ ...prev, emailBody: groundedBody, grounding: undefined }))}
+                />
+                
                 <div>
                   <Label className="block text-sm font-medium text-gray-700">Email Tone Adjustment:</Label>
                   <p className="text-xs text-gray-500 mb-2">
@@ -994,7 +1164,7 @@ export default function IssueSubmissionModal({ isOpen, onClose, initialPhotoData
                   type="button"
                   className="bg-primary hover:bg-primary/90 text-white"
                   onClick={handleSendEmail}
-                  disabled={createProjectMutation.isPending}
+                  disabled={createProjectMutation.isPending || generateEmailMutation.isPending}
                 >
                   <i className="fas fa-paper-plane mr-2"></i>
                   {createProjectMutation.isPending ? "Sending..." : "Send Email"}
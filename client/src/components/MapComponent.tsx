@@ -1,60 +1,110 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import L from "leaflet";
-import { Project } from "@/lib/types";
+import "leaflet.markercluster";
+import "leaflet.markercluster/dist/MarkerCluster.css";
+import "leaflet.markercluster/dist/MarkerCluster.Default.css";
+import { IssueType, ProgressStatus, Project, ProjectWithDistance } from "@/lib/types";
+import { issueTypeIcon, projectPopup } from "@/lib/map-markers";
+import MapLegend from "@/components/MapLegend";
+import { useJurisdiction } from "@/hooks/use-jurisdiction";
 
 interface MapComponentProps {
   projects?: Project[];
   onLocationSelect?: (lat: string, lng: string) => void;
   initialLocation?: { lat: string; lng: string };
   height?: string;
+  // Fetch the projects inside the visible area as the map moves, instead of using `projects`
+  loadViewport?: boolean;
+}
+
+// Bounding box of the visible map area as "west,south,east,north"
+function viewportBbox(map: L.Map): string {
+  const bounds = map.getBounds();
+  return [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()]
+    .map((value) => value.toFixed(5))
+    .join(",");
 }
 
 export default function MapComponent({ 
-  projects = [],
+  projects: providedProjects,
   onLocationSelect,
   initialLocation,
-  height = "100%"
+  height = "100%",
+  loadViewport = false
 }: MapComponentProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const leafletMapRef = useRef<L.Map | null>(null);
   const markersLayerRef = useRef<L.LayerGroup | null>(null);
+  const [bbox, setBbox] = useState<string | null>(null);
+  const [hiddenTypes, setHiddenTypes] = useState<IssueType[]>([]);
+  const [hiddenStatuses, setHiddenStatuses] = useState<ProgressStatus[]>([]);
+  const [, navigate] = useLocation();
+  const { jurisdiction } = useJurisdiction();
+  
+  const { data: viewportProjects } = useQuery<ProjectWithDistance[]>({
+    queryKey: ['/api/projects', 'nearby', bbox],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/nearby?bbox=${bbox}`);
+      if (!response.ok) throw new Error('Failed to fetch projects in view');
+      return response.json();
+    },
+    enabled: loadViewport && bbox !== null,
+    placeholderData: (previous) => previous,
+  });
+  
+  // Projects to show, without the types and statuses toggled off in the legend
+  const projects = useMemo(() => {
+    const source: Project[] = (loadViewport ? viewportProjects : providedProjects) ?? [];
+    return source.filter(project =>
+      !hiddenTypes.includes(project.issueType) && !hiddenStatuses.includes(project.progressStatus)
+    );
+  }, [loadViewport, viewportProjects, providedProjects, hiddenTypes, hiddenStatuses]);
+  
+  const toggleType = (issueType: IssueType) => {
+    setHiddenTypes(prev => prev.includes(issueType) ? prev.filter(t => t !== issueType) : [...prev, issueType]);
+  };
   
-  // Map issue types to marker colors
-  const typeColorMap: Record<string, string> = {
-    crosswalk: "blue",
-    pothole: "red",
-    sidewalk: "green",
-    streetlight: "orange",
-    other: "purple",
+  const toggleStatus = (status: ProgressStatus) => {
+    setHiddenStatuses(prev => prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]);
   };
   
   // Initialize the map once on component mount
   useEffect(() => {
-    if (!mapRef.current || leafletMapRef.current) return;
+    // Wait for the jurisdiction, which decides where the map starts and how far it can move
+    if (!mapRef.current || leafletMapRef.current || !jurisdiction) return;
     
-    // Imperial Valley, California centered location
-    const imperialValleyCenter: L.LatLngTuple = [32.847, -115.566]; // Imperial Valley coordinates
-    const initialZoom = 11;
-    
-    // Define bounds for Imperial Valley region (approx coordinates)
-    const southWest: L.LatLngTuple = [32.5, -116.0]; // SW corner of Imperial Valley
-    const northEast: L.LatLngTuple = [33.2, -115.0]; // NE corner of Imperial Valley
-    const imperialValleyBounds = L.latLngBounds(southWest, northEast);
+    const center: L.LatLngTuple = [jurisdiction.center.lat, jurisdiction.center.lng];
+    const initialZoom = jurisdiction.defaultZoom;
+    const jurisdictionBounds = L.latLngBounds(jurisdiction.boundary);
     
     // Create the map with max bounds restriction
     leafletMapRef.current = L.map(mapRef.current, {
-      maxBounds: imperialValleyBounds,
+      maxBounds: jurisdictionBounds.pad(0.1),
       maxBoundsViscosity: 1.0, // Prevents dragging outside bounds
-      minZoom: 10 // Prevents zooming out too far
-    }).setView(imperialValleyCenter, initialZoom);
+      minZoom: jurisdiction.minZoom // Prevents zooming out too far
+    }).setView(center, initialZoom);
+    
+    // Add the jurisdiction's tile layer
+    L.tileLayer(jurisdiction.tileUrl, {
+      attribution: jurisdiction.tileAttribution,
+    }).addTo(leafletMapRef.current);
     
-    // Add OpenStreetMap tile layer
-    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    // Outline the area the jurisdiction covers
+    L.polygon(jurisdiction.boundary, {
+      color: "#6b7280",
+      weight: 1,
+      dashArray: "4 4",
+      fill: false,
+      interactive: false,
     }).addTo(leafletMapRef.current);
     
-    // Create a layer group for markers
-    markersLayerRef.current = L.layerGroup().addTo(leafletMapRef.current);
+    // Create a layer for markers; project markers are clustered at low zoom levels
+    markersLayerRef.current = (onLocationSelect
+      ? L.layerGroup()
+      : L.markerClusterGroup({ showCoverageOnHover: false, disableClusteringAtZoom: 17 })
+    ).addTo(leafletMapRef.current);
     
     // If initialLocation is provided, center the map and add a marker
     if (initialLocation) {
@@ -77,6 +127,13 @@ export default function MapComponent({
       }
     }
     
+    // Reload the visible projects whenever the map is panned or zoomed
+    if (loadViewport) {
+      const map = leafletMapRef.current;
+      map.on("moveend", () => setBbox(viewportBbox(map)));
+      setBbox(viewportBbox(map));
+    }
+    
     // Handle clicks on the map if we're in location selection mode
     if (onLocationSelect) {
       leafletMapRef.current.on("click", function (e: L.LeafletMouseEvent) {
@@ -108,67 +165,63 @@ export default function MapComponent({
         leafletMapRef.current = null;
       }
     };
-  }, [initialLocation, onLocationSelect]);
+  }, [initialLocation, onLocationSelect, loadViewport, jurisdiction]);
   
   // Update markers when projects change
   useEffect(() => {
-    if (!leafletMapRef.current || !markersLayerRef.current || !projects.length) return;
+    if (!leafletMapRef.current || !markersLayerRef.current) return;
     
     // Only clear if we're not in location selection mode
     if (!onLocationSelect) {
       markersLayerRef.current.clearLayers();
     }
     
+    if (!projects.length) return;
+    
     // Add markers for each project
     projects.forEach((project) => {
-      const lat = parseFloat(project.latitude);
-      const lng = parseFloat(project.longitude);
-      
-      if (isNaN(lat) || isNaN(lng)) return;
-      
-      // Create custom icon based on issue type
-      const markerColor = typeColorMap[project.issueType] || "gray";
+      // Create a marker with an icon for the issue type
+      const marker = L.marker([project.latitude, project.longitude], {
+        icon: issueTypeIcon(project.issueType),
+        title: project.title,
+      }).addTo(markersLayerRef.current!);
       
-      // Create a marker
-      const marker = L.marker([lat, lng]).addTo(markersLayerRef.current!);
-      
-      // Add a popup with project info
-      marker.bindPopup(`
-        <strong>${project.title}</strong><br>
-        ${project.description}<br>
-        <small>${project.location}</small>
-      `);
+      // Add a popup with project info and a link to the project page
+      marker.bindPopup(projectPopup(project, (projectId) => navigate(`/projects/${projectId}`)));
     });
     
-    // Fit the map to show all markers if we have projects and aren't in selection mode
-    if (projects.length > 0 && !onLocationSelect) {
-      // Filter out projects with valid coordinates
-      const validProjects = projects
-        .filter((p) => !isNaN(parseFloat(p.latitude)) && !isNaN(parseFloat(p.longitude)));
+    // Fit the map to show all markers if we have projects and aren't in selection mode.
+    // In viewport mode the map position drives the projects, so leave it where the user put it.
+    if (!onLocationSelect && !loadViewport && jurisdiction) {
+      // Create bounds from project coordinates
+      const bounds = L.latLngBounds(
+        projects.map((p) => [p.latitude, p.longitude] as L.LatLngTuple)
+      );
       
-      // Check if any valid projects exist
-      if (validProjects.length > 0) {
-        // Create bounds from project coordinates
-        const bounds = L.latLngBounds(
-          validProjects.map((p) => [parseFloat(p.latitude), parseFloat(p.longitude)] as L.LatLngTuple)
-        );
-        
-        // Extend bounds if they're outside Imperial Valley (to keep markers visible but centered on Imperial Valley)
-        // This ensures we always see markers but stay focused on Imperial Valley
-        const southWest: L.LatLngTuple = [32.5, -116.0];
-        const northEast: L.LatLngTuple = [33.2, -115.0];
-        const imperialBounds = L.latLngBounds(southWest, northEast);
-        
-        // Get union of both bounds
-        const unionBounds = imperialBounds.extend(bounds);
-        
-        // Apply bounds with padding
-        if (unionBounds.isValid()) {
-          leafletMapRef.current.fitBounds(unionBounds, { padding: [50, 50] });
-        }
+      // Extend bounds if they're outside the jurisdiction (to keep markers visible but centered on it)
+      const jurisdictionBounds = L.latLngBounds(jurisdiction.boundary);
+      
+      // Get union of both bounds
+      const unionBounds = jurisdictionBounds.extend(bounds);
+      
+      // Apply bounds with padding
+      if (unionBounds.isValid()) {
+        leafletMapRef.current.fitBounds(unionBounds, { padding: [50, 50] });
       }
     }
-  }, [projects, onLocationSelect]);
+  }, [projects, onLocationSelect, loadViewport, jurisdiction]);
   
-  return <div ref={mapRef} style={{ height }} className="z-0"></div>;
+  return (
+    <div className="relative z-0" style={{ height }}>
+      <div ref={mapRef} className="h-full"></div>
+      {!onLocationSelect && (
+        <MapLegend
+          hiddenTypes={hiddenTypes}
+          hiddenStatuses={hiddenStatuses}
+          onToggleType={toggleType}
+          onToggleStatus={toggleStatus}
+        />
+      )}
+    </div>
+  );
 }
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { IssueType, ProgressStatus } from "@/lib/types";
+import { ISSUE_TYPE_MARKERS, STATUS_LABELS } from "@/lib/map-markers";
+
+interface MapLegendProps {
+  hiddenTypes: IssueType[];
+  hiddenStatuses: ProgressStatus[];
+  onToggleType: (issueType: IssueType) => void;
+  onToggleStatus: (status: ProgressStatus) => void;
+}
+
+// Collapsible map legend whose entries toggle the matching markers
+export default function MapLegend({
+  hiddenTypes,
+  hiddenStatuses,
+  onToggleType,
+  onToggleStatus,
+}: MapLegendProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  
+  return (
+    <div className="absolute bottom-2 left-2 z-[1000] bg-white rounded-md shadow text-xs max-h-[90%] overflow-y-auto">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 font-medium text-gray-700"
+        onClick={() => setIsOpen(prev => !prev)}
+      >
+        Legend
+        <i className={`fas ${isOpen ? "fa-chevron-down" : "fa-chevron-up"} text-gray-400`}></i>
+      </button>
+      
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="space-y-1">
+            <p className="font-medium text-gray-500">Type</p>
+            {(Object.keys(ISSUE_TYPE_MARKERS) as IssueType[]).map(issueType => {
+              const { color, icon, label } = ISSUE_TYPE_MARKERS[issueType];
+              return (
+                <div key={issueType} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`legend-type-${issueType}`}
+                    checked={!hiddenTypes.includes(issueType)}
+                    onCheckedChange={() => onToggleType(issueType)}
+                  />
+                  <span
+                    className="w-4 h-4 rounded-full flex items-center justify-center text-white text-[8px]"
+                    style={{ background: color }}
+                  >
+                    <i className={`fas ${icon}`}></i>
+                  </span>
+                  <Label htmlFor={`legend-type-${issueType}`} className="text-xs font-normal">{label}</Label>
+                </div>
+              );
+            })}
+          </div>
+          
+          <div className="space-y-1">
+            <p className="font-medium text-gray-500">Status</p>
+            {(Object.keys(STATUS_LABELS) as ProgressStatus[]).map(status => (
+              <div key={status} className="flex items-center gap-2">
+                <Checkbox
+                  id={`legend-status-${status}`}
+                  checked={!hiddenStatuses.includes(status)}
+                  onCheckedChange={() => onToggleStatus(status)}
+                />
+                <Label htmlFor={`legend-status-${status}`} className="text-xs font-normal">{STATUS_LABELS[status]}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Project } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface MergeProjectCardProps {
+  project: Project;
+}
+
+// Moderator tool to fold a duplicate project into this one
+export default function MergeProjectCard({ project }: MergeProjectCardProps) {
+  const { toast } = useToast();
+  const [sourceId, setSourceId] = useState("");
+  
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${project.id}/merge`, {
+        sourceId: Number(sourceId),
+      });
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activities'] });
+      toast({
+        title: "Projects Merged",
+        description: `Project #${sourceId} now redirects to this project.`,
+      });
+      setSourceId("");
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Merge Failed",
+        description: error.message,
+      });
+    },
+  });
+  
+  const handleMerge = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = Number(sourceId);
+    
+    if (!Number.isInteger(id) || id <= 0 || id === project.id) {
+      toast({
+        variant: "destructive",
+        title: "Invalid project",
+        description: "Enter the ID of a different project to merge.",
+      });
+      return;
+    }
+    
+    mergeMutation.mutate();
+  };
+  
+  return (
+    <div className="bg-white shadow-sm rounded-lg overflow-hidden p-4">
+      <h2 className="font-medium text-gray-800 mb-1">Merge a Duplicate</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Moves its upvotes, emails, comments and activity into this project.
+      </p>
+      <form onSubmit={handleMerge} className="space-y-3">
+        <div>
+          <Label htmlFor="mergeSourceId">Duplicate project ID</Label>
+          <Input
+            id="mergeSourceId"
+            type="number"
+            min={1}
+            value={sourceId}
+            onChange={(e) => setSourceId(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+        <Button
+          type="submit"
+          variant="outline"
+          className="w-full"
+          disabled={!sourceId || mergeMutation.isPending}
+        >
+          {mergeMutation.isPending ? "Merging..." : "Merge into this project"}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -76,6 +76,9 @@ export default function ProjectCard({ project }: ProjectCardProps) {
   const handleEmailClick = () => {
     setIsEmailModalOpen(true);
   };
+  
+  // Recipients outside the allowlist can't be emailed until a moderator approves them
+  const emailsOnHold = project.recipientStatus === "pending_approval" || project.recipientStatus === "rejected";
 
   return (
     <>
@@ -146,9 +149,11 @@ export default function ProjectCard({ project }: ProjectCardProps) {
                 variant="outline" 
                 className="border-primary text-primary hover:bg-primary hover:text-white transition-colors text-xs py-1.5"
                 onClick={handleEmailClick}
+                disabled={emailsOnHold}
+                title={emailsOnHold ? "Waiting for a moderator to approve the recipient" : undefined}
               >
-                <i className="fas fa-envelope mr-1"></i>
-                Send Email
+                <i className={`fas ${project.deliveryMode === "digest" ? "fa-signature" : "fa-envelope"} mr-1`}></i>
+                {project.deliveryMode === "digest" ? "Sign" : "Send Email"}
               </Button>
             </div>
           </div>
@@ -17,6 +17,7 @@ export default function RecentActivity() {
   const getActivityIcon = (type: string) => {
     switch (type) {
       case 'email_sent':
+      case 'digest_sent':
         return <div className="flex-shrink-0 rounded-full bg-blue-100 p-1">
           <i className="fas fa-envelope text-blue-600 text-xs"></i>
         </div>;
@@ -24,6 +25,18 @@ export default function RecentActivity() {
         return <div className="flex-shrink-0 rounded-full bg-green-100 p-1">
           <i className="fas fa-check text-green-600 text-xs"></i>
         </div>;
+      case 'official_response':
+        return <div className="flex-shrink-0 rounded-full bg-blue-100 p-1">
+          <i className="fas fa-landmark text-blue-600 text-xs"></i>
+        </div>;
+      case 'escalated':
+        return <div className="flex-shrink-0 rounded-full bg-red-100 p-1">
+          <i className="fas fa-level-up-alt text-red-600 text-xs"></i>
+        </div>;
+      case 'signature':
+        return <div className="flex-shrink-0 rounded-full bg-blue-100 p-1">
+          <i className="fas fa-signature text-blue-600 text-xs"></i>
+        </div>;
       case 'project_created':
         return <div className="flex-shrink-0 rounded-full bg-purple-100 p-1">
           <i className="fas fa-plus text-purple-600 text-xs"></i>
@@ -0,0 +1,69 @@
+import { useMutation } from "@tanstack/react-query";
+import { Project } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface RecipientReviewCardProps {
+  project: Project;
+}
+
+const STATUS_TEXT: Record<Project["recipientStatus"], string> = {
+  allowed: "This recipient is in the allowlist.",
+  pending_approval: "This recipient is not in the allowlist. Emails are on hold until it is approved.",
+  approved: "A moderator approved this recipient.",
+  rejected: "A moderator rejected this recipient. Emails can't be sent.",
+};
+
+// Moderator tool to approve or reject a recipient outside the allowlist
+export default function RecipientReviewCard({ project }: RecipientReviewCardProps) {
+  const { toast } = useToast();
+  
+  const reviewMutation = useMutation({
+    mutationFn: async (approved: boolean) => {
+      const response = await apiRequest("POST", `/api/projects/${project.id}/recipient-review`, { approved });
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activities'] });
+      toast({
+        title: updated.recipientStatus === "approved" ? "Recipient Approved" : "Recipient Rejected",
+        description: updated.emailRecipient,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Review Failed",
+        description: error.message,
+      });
+    },
+  });
+  
+  return (
+    <div className="bg-white shadow-sm rounded-lg overflow-hidden p-4">
+      <h2 className="font-medium text-gray-800 mb-1">Review Recipient</h2>
+      <p className="text-sm text-gray-900 break-all">{project.emailRecipient}</p>
+      <p className="text-sm text-gray-500 mt-1 mb-4">{STATUS_TEXT[project.recipientStatus]}</p>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          className="flex-1"
+          disabled={reviewMutation.isPending || project.recipientStatus === "approved"}
+          onClick={() => reviewMutation.mutate(true)}
+        >
+          Approve
+        </Button>
+        <Button
+          variant="outline"
+          className="flex-1 text-red-600 hover:text-red-700"
+          disabled={reviewMutation.isPending || project.recipientStatus === "rejected"}
+          onClick={() => reviewMutation.mutate(false)}
+        >
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
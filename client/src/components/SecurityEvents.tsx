@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { SecurityEvent } from "@/lib/types";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatDistanceToNow } from "date-fns";
+
+// Recent security events, shown to admins
+export default function SecurityEvents() {
+  const { data: events = [], isLoading } = useQuery<SecurityEvent[]>({
+    queryKey: ['/api/security-events'],
+    queryFn: async () => {
+      const response = await fetch('/api/security-events?limit=10');
+      if (!response.ok) throw new Error('Failed to fetch security events');
+      return response.json();
+    },
+  });
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="font-medium text-gray-800">Security Events</h2>
+      </div>
+      <div className="p-4">
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-4 w-full" />
+            ))}
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No security events.</p>
+        ) : (
+          <ul className="space-y-4">
+            {events.map((event) => (
+              <li key={event.id} className="flex items-start space-x-3">
+                <div className="flex-shrink-0 rounded-full bg-red-100 p-1">
+                  <i className="fas fa-shield-alt text-red-600 text-xs"></i>
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-600 break-words">{event.description}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                    {event.projectId !== null && (
+                      <>
+                        {" · "}
+                        <Link href={`/projects/${event.projectId}`} className="text-primary hover:underline">
+                          Project #{event.projectId}
+                        </Link>
+                      </>
+                    )}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { Jurisdiction } from "@/lib/types";
+
+// The jurisdiction served by this deployment; it never changes while the app runs
+export function useJurisdiction() {
+  const { data: jurisdiction, isLoading } = useQuery<Jurisdiction>({
+    queryKey: ['/api/jurisdiction'],
+  });
+  
+  return { jurisdiction, isLoading };
+}
@@ -0,0 +1,76 @@
+import { EmailTemplate } from "./types";
+
+// Callbacks for the parts of an email as the server streams them
+export interface EmailStreamHandlers {
+  onSubject: (emailSubject: string) => void;
+  onRecipient: (emailTo: string) => void;
+  // The next piece of the body
+  onBody: (text: string) => void;
+}
+
+/**
+ * Generate an email, passing on its parts as they're written. Resolves with
+ * the finished email, which may differ from what was streamed. When the AI
+ * provider can't stream, the server replies with the whole email at once and
+ * no handlers are called. Abort `signal` to cancel.
+ */
+export async function streamEmailGeneration(
+  payload: Record<string, unknown>,
+  handlers: EmailStreamHandlers,
+  signal?: AbortSignal,
+): Promise<EmailTemplate> {
+  const response = await fetch("/api/generate-email", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream, application/json",
+    },
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to generate email");
+  }
+
+  if (!response.headers.get("Content-Type")?.includes("text/event-stream") || !response.body) {
+    return response.json() as Promise<EmailTemplate>;
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) >= 0) {
+      const lines = buffer.slice(0, end).split("\n");
+      buffer = buffer.slice(end + 2);
+
+      const event = lines.find((line) => line.startsWith("event: "))?.slice(7);
+      const data = JSON.parse(lines.filter((line) => line.startsWith("data: ")).map((line) => line.slice(6)).join("\n") || "null");
+
+      switch (event) {
+        case "subject":
+          handlers.onSubject(data.emailSubject);
+          break;
+        case "recipient":
+          handlers.onRecipient(data.emailTo);
+          break;
+        case "body":
+          handlers.onBody(data.text);
+          break;
+        case "done":
+          return data as EmailTemplate;
+        case "error":
+          throw new Error(data.message || "Failed to generate email");
+      }
+    }
+  }
+
+  throw new Error("The email stream ended before the email was finished");
+}
@@ -0,0 +1,13 @@
+import { EmailLanguage } from "./types";
+
+// Languages emails can be written in, named in their own language
+export const EMAIL_LANGUAGES: { value: EmailLanguage; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Español" },
+];
+
+// The browser's language when emails can be written in it, English otherwise
+export function defaultEmailLanguage(): EmailLanguage {
+  const code = navigator.language?.slice(0, 2).toLowerCase();
+  return EMAIL_LANGUAGES.find((language) => language.value === code)?.value ?? "en";
+}
@@ -0,0 +1,72 @@
+import L from "leaflet";
+import { IssueType, ProgressStatus, Project } from "@/lib/types";
+
+// Marker color, Font Awesome icon and label for each issue type
+export const ISSUE_TYPE_MARKERS: Record<IssueType, { color: string; icon: string; label: string }> = {
+  crosswalk: { color: "#2563eb", icon: "fa-walking", label: "Crosswalk" },
+  pothole: { color: "#dc2626", icon: "fa-road", label: "Pothole" },
+  sidewalk: { color: "#16a34a", icon: "fa-shoe-prints", label: "Sidewalk" },
+  streetlight: { color: "#ea580c", icon: "fa-lightbulb", label: "Street Light" },
+  other: { color: "#9333ea", icon: "fa-map-pin", label: "Other" },
+};
+
+export const STATUS_LABELS: Record<ProgressStatus, string> = {
+  idea_submitted: "Idea Submitted",
+  community_support: "Community Support",
+  email_campaign_active: "Email Campaign Active",
+  official_acknowledgment: "Official Acknowledgment",
+  planning_stage: "Planning Stage",
+  implementation: "Implementation",
+  completed: "Completed",
+};
+
+// Cache icons so markers of the same type share one instance
+const iconCache = new Map<IssueType, L.DivIcon>();
+
+export function issueTypeIcon(issueType: IssueType): L.DivIcon {
+  const cached = iconCache.get(issueType);
+  if (cached) return cached;
+  
+  const { color, icon } = ISSUE_TYPE_MARKERS[issueType] || ISSUE_TYPE_MARKERS.other;
+  const divIcon = L.divIcon({
+    className: "",
+    html: `<div style="background:${color}" class="w-8 h-8 rounded-full border-2 border-white shadow flex items-center justify-center text-white text-sm"><i class="fas ${icon}"></i></div>`,
+    iconSize: [32, 32],
+    iconAnchor: [16, 16],
+    popupAnchor: [0, -16],
+  });
+  iconCache.set(issueType, divIcon);
+  return divIcon;
+}
+
+/**
+ * Popup content for a project marker. Built from DOM nodes so project text is
+ * never interpreted as HTML; the link calls onOpen for client-side navigation.
+ */
+export function projectPopup(project: Project, onOpen: (projectId: number) => void): HTMLElement {
+  const container = document.createElement("div");
+  container.className = "space-y-1";
+  
+  const title = document.createElement("strong");
+  title.textContent = project.title;
+  
+  const location = document.createElement("div");
+  location.className = "text-xs text-gray-500";
+  location.textContent = project.location;
+  
+  const details = document.createElement("div");
+  details.className = "text-xs";
+  details.textContent = `${STATUS_LABELS[project.progressStatus] || project.progressStatus} · ${project.upvotes} upvotes`;
+  
+  const link = document.createElement("a");
+  link.href = `/projects/${project.id}`;
+  link.className = "text-primary text-xs font-medium";
+  link.textContent = "View details";
+  link.addEventListener("click", (e) => {
+    e.preventDefault();
+    onOpen(project.id);
+  });
+  
+  container.append(title, location, details, link);
+  return container;
+}
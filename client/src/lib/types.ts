@@ -12,14 +12,24 @@ export type ProgressStatus =
   | 'implementation'
   | 'completed';
 
+// Whether emails may go to a project's recipient; recipients outside the
+// allowlist wait for a moderator
+export type RecipientStatus = 'allowed' | 'pending_approval' | 'approved' | 'rejected';
+
+// Whether supporters send their own email, or sign for a daily digest
+export type DeliveryMode = 'individual' | 'digest';
+
+// Languages emails can be written in
+export type EmailLanguage = 'en' | 'es';
+
 export interface Project {
   id: number;
   title: string;
   description: string;
   issueType: IssueType;
   location: string;
-  latitude: string;
-  longitude: string;
+  latitude: number;
+  longitude: number;
   urgencyLevel: UrgencyLevel;
   contactEmail: string | null;
   emailTemplate: string;
@@ -32,12 +42,107 @@ export interface Project {
   photoData?: string | null; // Base64 encoded photo data
   createdAt: string;
   createdBy?: number;
+  mergedIntoId: number | null; // Set when this project was merged into another one
+  recipientStatus: RecipientStatus;
+  deliveryMode: DeliveryMode;
+  escalationPaused: boolean; // Set by the creator or a moderator to stop escalations
+  language: EmailLanguage; // Language the email template is written in
+  promptVersion: string | null; // Prompt that wrote the email template, such as "email_template@2"
+}
+
+export interface ProjectWithDistance extends Project {
+  distanceMeters: number;
+}
+
+// An existing project that may describe the same issue as a draft submission
+export interface DuplicateCandidate extends ProjectWithDistance {
+  similarity: number;
+  score: number;
+  likely: boolean;
+}
+
+// Response of POST /api/projects, with a warning when a likely duplicate exists
+export interface CreatedProject extends Project {
+  warning?: string;
+  possibleDuplicates?: DuplicateCandidate[];
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// Contact copied in when a department's project goes unanswered for a number of days
+export interface EscalationRule {
+  afterDays: number;
+  name: string;
+  email: string;
+  area?: [number, number][] | null; // Only applies to projects inside this polygon, such as a council district
+}
+
+// Entry in the departments directory used to route issue emails
+export interface Department {
+  id: number;
+  name: string;
+  email: string;
+  issueTypes: IssueType[];
+  area: [number, number][] | null; // Polygon vertices as [lat, lng]; null covers the whole jurisdiction
+  escalationRules: EscalationRule[];
+  createdAt: string;
+}
+
+// Area and map settings of the town this deployment serves
+export interface Jurisdiction {
+  name: string;
+  center: GeoPoint;
+  boundary: [number, number][]; // Polygon vertices as [lat, lng]
+  defaultZoom: number;
+  minZoom?: number;
+  tileUrl: string;
+  tileAttribution: string;
+  timezone: string;
+  locations: { value: string; label: string }[];
+}
+
+export type ProjectSortKey = 'upvotes' | 'emailsSent' | 'createdAt' | 'urgency';
+
+export interface ProjectFilters {
+  search: string;
+  issueType: IssueType | '';
+  status: ProgressStatus | '';
+  urgency: UrgencyLevel | '';
+  createdAfter: string;
+  createdBefore: string;
+  sort: ProjectSortKey;
+  order: 'asc' | 'desc';
+  near: GeoPoint | null; // Restrict to a radius around the user's location
+}
+
+export interface ProjectQueryResult {
+  items: Project[];
+  total: number;
+  nextCursor: string | null;
 }
 
 export interface EmailTemplate {
   emailBody: string;
   emailSubject: string;
   emailTo: string;
+  grounding?: GroundingCheck; // Details the AI added to what was submitted
+  promptVersion?: string; // Prompt that wrote the email; unset when no model did
+  signedPromptVersion?: string; // promptVersion signed by the server, sent back when creating the project
+}
+
+// A detail in an AI-written email that isn't in what the user submitted
+export interface GroundingWarning {
+  kind: 'number' | 'date' | 'name' | 'place' | 'claim' | 'urgency';
+  text: string;
+  sentence: string;
+}
+
+export interface GroundingCheck {
+  warnings: GroundingWarning[];
+  groundedBody: string; // The email without the sentences that have warnings
 }
 
 export interface Activity {
@@ -49,6 +154,16 @@ export interface Activity {
   createdAt: string;
 }
 
+export interface SecurityEvent {
+  id: number;
+  eventType: string;
+  description: string;
+  projectId: number | null;
+  userId: number | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
 export interface CommunityStats {
   activeIssues: number;
   emailsSent: number;
@@ -66,6 +181,17 @@ export interface EmailSubmission {
   senderEmail?: string;
   senderName?: string;
   customContent?: string;
+  language?: EmailLanguage; // Language the supporter writes in, when not the project's
+  appendTranslation?: boolean; // Append an English translation for the recipient
+}
+
+// An issue email rendered by the server exactly as it will be sent
+export interface EmailPreview {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  warning?: string; // Set when the email is sent without the translation asked for
 }
 
 export interface IssueSubmissionData {
@@ -91,3 +217,29 @@ export interface Comment {
   commenterName: string;
   createdAt: string;
 }
+
+// Reply from an official, received by email
+export interface OfficialResponse {
+  id: number;
+  projectId: number;
+  fromAddress: string;
+  fromName: string | null;
+  subject: string;
+  body: string;
+  messageId: string | null;
+  receivedAt: string;
+}
+
+// A project's escalation steps and where it stands. The clock starts when
+// the first email or digest reaches the recipient.
+export interface EscalationSchedule {
+  state: 'none' | 'waiting' | 'active' | 'paused' | 'responded';
+  startedAt: string | null;
+  steps: {
+    afterDays: number;
+    name: string;
+    email: string;
+    dueAt: string | null;
+    sentAt: string | null;
+  }[];
+}
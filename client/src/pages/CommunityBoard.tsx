@@ -1,54 +1,77 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
-import { Project } from "@/lib/types";
+import { ProjectFilters, ProjectQueryResult } from "@/lib/types";
 import ProjectCard from "@/components/ProjectCard";
 import FilterBar from "@/components/FilterBar";
 import MapComponent from "@/components/MapComponent";
 import CommunityStats from "@/components/CommunityStats";
 import RecentActivity from "@/components/RecentActivity";
+import SecurityEvents from "@/components/SecurityEvents";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 
+const defaultFilters: ProjectFilters = {
+  search: "",
+  issueType: "",
+  status: "",
+  urgency: "",
+  createdAfter: "",
+  createdBefore: "",
+  sort: "upvotes",
+  order: "desc",
+  near: null,
+};
+
+// Radius used by the "near me" filter
+const NEAR_ME_RADIUS_METERS = 1000;
+
 export default function CommunityBoard() {
-  const [issueType, setIssueType] = useState<string>("");
-  const [status, setStatus] = useState<string>("");
-  const [searchQuery, setSearchQuery] = useState<string>("");
+  const { user } = useAuth();
+  const [filters, setFilters] = useState<ProjectFilters>(defaultFilters);
   const [page, setPage] = useState(1);
   
   const itemsPerPage = 10;
 
-  // Fetch projects with filters
-  const { data: projects = [], isLoading: isProjectsLoading } = useQuery<Project[]>({
-    queryKey: ['/api/projects', issueType, status, searchQuery],
+  // Fetch one page of projects; filtering, sorting and pagination happen on the server
+  const { data, isLoading: isProjectsLoading } = useQuery<ProjectQueryResult>({
+    queryKey: ['/api/projects', filters, page],
     queryFn: async () => {
       const params = new URLSearchParams();
-      if (issueType && issueType !== 'all') params.append('issueType', issueType);
-      if (status && status !== 'all') params.append('status', status);
-      if (searchQuery) params.append('search', searchQuery);
+      if (filters.search) params.append('search', filters.search);
+      if (filters.issueType) params.append('issueType', filters.issueType);
+      if (filters.status) params.append('status', filters.status);
+      if (filters.urgency) params.append('urgency', filters.urgency);
+      if (filters.createdAfter) params.append('createdAfter', filters.createdAfter);
+      // Include the whole of the selected end day
+      if (filters.createdBefore) params.append('createdBefore', `${filters.createdBefore}T23:59:59.999`);
+      if (filters.near) {
+        params.append('lat', String(filters.near.lat));
+        params.append('lng', String(filters.near.lng));
+        params.append('radiusMeters', String(NEAR_ME_RADIUS_METERS));
+      }
+      params.append('sort', filters.sort);
+      params.append('order', filters.order);
+      params.append('limit', String(itemsPerPage));
+      params.append('offset', String((page - 1) * itemsPerPage));
       
       const response = await fetch(`/api/projects?${params.toString()}`);
       if (!response.ok) throw new Error('Failed to fetch projects');
       return response.json();
     },
   });
-
-  // Calculate pagination
-  const totalPages = Math.ceil(projects.length / itemsPerPage);
-  const paginatedProjects = projects.slice(
-    (page - 1) * itemsPerPage,
-    page * itemsPerPage
-  );
+  
+  const paginatedProjects = data?.items ?? [];
+  const totalPages = Math.ceil((data?.total ?? 0) / itemsPerPage);
 
   // Filter handlers
-  const handleFilterChange = (type: string, value: string) => {
-    if (type === 'issueType') setIssueType(value);
-    else if (type === 'status') setStatus(value);
+  const handleFilterChange = <K extends keyof ProjectFilters>(key: K, value: ProjectFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
     setPage(1); // Reset to first page when filters change
   };
 
   const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    setPage(1); // Reset to first page when search changes
+    handleFilterChange('search', query);
   };
 
   return (
@@ -71,11 +94,9 @@ export default function CommunityBoard() {
             
             {/* Filter Bar */}
             <FilterBar 
+              filters={filters}
               onFilterChange={handleFilterChange}
               onSearch={handleSearch}
-              issueType={issueType}
-              status={status}
-              searchQuery={searchQuery}
             />
 
             {/* Project Cards */}
@@ -146,7 +167,7 @@ export default function CommunityBoard() {
               <h2 className="font-medium text-gray-800">Issue Map</h2>
             </div>
             <div className="h-[300px]">
-              <MapComponent projects={projects} />
+              <MapComponent loadViewport />
             </div>
           </div>
 
@@ -155,6 +176,9 @@ export default function CommunityBoard() {
 
           {/* Recent Activity */}
           <RecentActivity />
+
+          {/* Security events, for admins */}
+          {user?.role === "admin" && <SecurityEvents />}
         </div>
       </div>
     </main>
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Project, Comment } from "@/lib/types";
+import { Project, Comment, OfficialResponse } from "@/lib/types";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -11,8 +11,14 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useJurisdiction } from "@/hooks/use-jurisdiction";
 import EmailPreviewModal from "@/components/EmailPreviewModal";
 import MapComponent from "@/components/MapComponent";
+import MergeProjectCard from "@/components/MergeProjectCard";
+import RecipientReviewCard from "@/components/RecipientReviewCard";
+import DeliveryModeCard from "@/components/DeliveryModeCard";
+import EscalationCard from "@/components/EscalationCard";
 
 // Map progress status to display text and percentage
 const progressMap: Record<string, { text: string; percentage: number }> = {
@@ -38,6 +44,8 @@ export default function ProjectDetails() {
   const { id } = useParams();
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { jurisdiction } = useJurisdiction();
   const [isEmailModalOpen, setIsEmailModalOpen] = useState(false);
   const [commentText, setCommentText] = useState("");
   const [commenterName, setCommenterName] = useState("");
@@ -63,6 +71,24 @@ export default function ProjectDetails() {
     },
   });
   
+  // Merged projects forward to the project they were merged into
+  useEffect(() => {
+    if (project?.mergedIntoId) {
+      navigate(`/projects/${project.mergedIntoId}`, { replace: true });
+    }
+  }, [project?.mergedIntoId, navigate]);
+  
+  // Outcome of a supporter's email confirmation link
+  useEffect(() => {
+    const outcome = new URLSearchParams(window.location.search).get("senderVerification");
+    if (!outcome) return;
+    
+    toast(outcome === "confirmed"
+      ? { title: "Email confirmed", description: "Officials can now reply to you directly." }
+      : { title: "Email already sent", description: "Your email went out before you confirmed, so it was sent without your address." });
+    navigate(`/projects/${id}`, { replace: true });
+  }, [id, navigate, toast]);
+  
   // Fetch project comments
   const { data: comments = [] } = useQuery<Comment[]>({
     queryKey: ['/api/projects', id, 'comments'],
@@ -76,6 +102,19 @@ export default function ProjectDetails() {
     enabled: !!id,
   });
   
+  // Fetch replies from officials
+  const { data: officialResponses = [] } = useQuery<OfficialResponse[]>({
+    queryKey: ['/api/projects', id, 'responses'],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${id}/responses`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch official responses");
+      }
+      return response.json();
+    },
+    enabled: !!id,
+  });
+  
   // Upvote mutation
   const upvoteMutation = useMutation({
     mutationFn: async () => {
@@ -196,6 +235,10 @@ export default function ProjectDetails() {
     );
   }
   
+  // Recipients outside the allowlist can't be emailed until a moderator approves them
+  const emailsOnHold = project.recipientStatus === "pending_approval" || project.recipientStatus === "rejected";
+  const isModerator = user?.role === "moderator" || user?.role === "admin";
+  
   return (
     <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <Button 
@@ -278,7 +321,7 @@ export default function ProjectDetails() {
               <div className="col-span-1">
                 <h3 className="text-sm font-medium text-gray-500">Date Submitted</h3>
                 <p className="mt-1 text-sm text-gray-900">
-                  {new Date(project.createdAt).toLocaleDateString()}
+                  {new Date(project.createdAt).toLocaleDateString(undefined, { timeZone: jurisdiction?.timezone })}
                 </p>
               </div>
             </div>
@@ -287,13 +330,54 @@ export default function ProjectDetails() {
               <Button 
                 className="bg-primary hover:bg-primary/90 text-white"
                 onClick={handleEmailClick}
+                disabled={emailsOnHold}
               >
-                <i className="fas fa-envelope mr-2"></i>
-                Send Email to Support This Issue
+                <i className={`fas ${project.deliveryMode === "digest" ? "fa-signature" : "fa-envelope"} mr-2`}></i>
+                {project.deliveryMode === "digest" ? "Sign to Support This Issue" : "Send Email to Support This Issue"}
               </Button>
+              {project.deliveryMode === "digest" && !emailsOnHold && (
+                <p className="mt-2 text-sm text-gray-500">
+                  Signatures are collected and sent to {project.emailRecipient} as one daily digest.
+                </p>
+              )}
+              {emailsOnHold && (
+                <p className="mt-2 text-sm text-gray-500">
+                  {project.recipientStatus === "rejected"
+                    ? "Emails can't be sent for this issue because its recipient was rejected by a moderator."
+                    : "Emails for this issue are on hold until a moderator approves its recipient."}
+                </p>
+              )}
             </div>
           </div>
           
+          {/* Official Responses */}
+          {officialResponses.length > 0 && (
+            <div className="bg-white shadow-sm rounded-lg overflow-hidden p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Official Responses</h2>
+              <div className="space-y-4">
+                {officialResponses.map((response) => (
+                  <Card key={response.id} className="border-blue-200 bg-blue-50">
+                    <CardHeader className="p-4 pb-2">
+                      <div className="flex justify-between items-center">
+                        <CardTitle className="text-sm font-medium">
+                          <i className="fas fa-landmark mr-2 text-blue-600"></i>
+                          {response.fromName || response.fromAddress}
+                        </CardTitle>
+                        <span className="text-xs text-gray-500">
+                          {new Date(response.receivedAt).toLocaleString(undefined, { timeZone: jurisdiction?.timezone })}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500">{response.subject}</p>
+                    </CardHeader>
+                    <CardContent className="p-4 pt-2">
+                      <p className="text-gray-700 whitespace-pre-line">{response.body}</p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+          
           {/* Comments Section */}
           <div className="bg-white shadow-sm rounded-lg overflow-hidden p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Community Discussion</h2>
@@ -345,7 +429,7 @@ export default function ProjectDetails() {
                       <div className="flex justify-between items-center">
                         <CardTitle className="text-sm font-medium">{comment.commenterName}</CardTitle>
                         <span className="text-xs text-gray-500">
-                          {new Date(comment.createdAt).toLocaleString()}
+                          {new Date(comment.createdAt).toLocaleString(undefined, { timeZone: jurisdiction?.timezone })}
                         </span>
                       </div>
                     </CardHeader>
@@ -369,14 +453,26 @@ export default function ProjectDetails() {
             <div className="h-[300px]">
               <MapComponent
                 initialLocation={{
-                  lat: project.latitude,
-                  lng: project.longitude
+                  lat: String(project.latitude),
+                  lng: String(project.longitude)
                 }}
                 height="300px"
               />
             </div>
           </div>
           
+          {/* Escalation, for the project's creator and moderators */}
+          {user && (user.id === project.createdBy || isModerator) && <EscalationCard project={project} />}
+          
+          {/* Moderation */}
+          {isModerator && (
+            <>
+              {project.recipientStatus !== "allowed" && <RecipientReviewCard project={project} />}
+              <DeliveryModeCard project={project} />
+              <MergeProjectCard project={project} />
+            </>
+          )}
+          
           {/* Nearby Issues */}
           <div className="bg-white shadow-sm rounded-lg overflow-hidden p-4">
             <h2 className="font-medium text-gray-800 mb-4">Similar Issues Nearby</h2>
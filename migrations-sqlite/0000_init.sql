@@ -0,0 +1,78 @@
+CREATE TABLE `activities` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`activity_type` text NOT NULL,
+	`actor_name` text,
+	`description` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `comments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`text` text NOT NULL,
+	`commenter_name` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `emails` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`sender_email` text,
+	`sender_name` text,
+	`custom_content` text,
+	`sent_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `projects` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`title` text NOT NULL,
+	`description` text NOT NULL,
+	`issue_type` text NOT NULL,
+	`location` text NOT NULL,
+	`latitude` text NOT NULL,
+	`longitude` text NOT NULL,
+	`urgency_level` text DEFAULT 'medium' NOT NULL,
+	`contact_email` text,
+	`email_template` text NOT NULL,
+	`email_subject` text NOT NULL,
+	`email_recipient` text NOT NULL,
+	`upvotes` integer DEFAULT 0 NOT NULL,
+	`emails_sent` integer DEFAULT 0 NOT NULL,
+	`progress_status` text DEFAULT 'idea_submitted' NOT NULL,
+	`photo_url` text,
+	`photo_data` text,
+	`created_at` integer NOT NULL,
+	`created_by` integer,
+	CONSTRAINT "projects_issue_type_check" CHECK("projects"."issue_type" in ('crosswalk', 'pothole', 'sidewalk', 'streetlight', 'other')),
+	CONSTRAINT "projects_urgency_level_check" CHECK("projects"."urgency_level" in ('low', 'medium', 'high')),
+	CONSTRAINT "projects_progress_status_check" CHECK("projects"."progress_status" in ('idea_submitted', 'community_support', 'email_campaign_active', 'official_acknowledgment', 'planning_stage', 'implementation', 'completed'))
+);
+--> statement-breakpoint
+CREATE TABLE `upvotes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`user_id` integer,
+	`ip_address` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL,
+	`email` text NOT NULL,
+	`full_name` text,
+	`role` text DEFAULT 'user' NOT NULL,
+	`verified` integer DEFAULT false NOT NULL,
+	`verification_token` text,
+	`reset_password_token` text,
+	`reset_password_expires` integer,
+	`profile_picture` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	CONSTRAINT "users_role_check" CHECK("users"."role" in ('user', 'moderator', 'admin'))
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);--> statement-breakpoint
+CREATE UNIQUE INDEX `users_email_unique` ON `users` (`email`);
\ No newline at end of file
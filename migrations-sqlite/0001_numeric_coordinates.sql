@@ -0,0 +1,53 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_projects` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`title` text NOT NULL,
+	`description` text NOT NULL,
+	`issue_type` text NOT NULL,
+	`location` text NOT NULL,
+	`latitude` real NOT NULL,
+	`longitude` real NOT NULL,
+	`urgency_level` text DEFAULT 'medium' NOT NULL,
+	`contact_email` text,
+	`email_template` text NOT NULL,
+	`email_subject` text NOT NULL,
+	`email_recipient` text NOT NULL,
+	`upvotes` integer DEFAULT 0 NOT NULL,
+	`emails_sent` integer DEFAULT 0 NOT NULL,
+	`progress_status` text DEFAULT 'idea_submitted' NOT NULL,
+	`photo_url` text,
+	`photo_data` text,
+	`created_at` integer NOT NULL,
+	`created_by` integer,
+	CONSTRAINT "projects_issue_type_check" CHECK("issue_type" in ('crosswalk', 'pothole', 'sidewalk', 'streetlight', 'other')),
+	CONSTRAINT "projects_urgency_level_check" CHECK("urgency_level" in ('low', 'medium', 'high')),
+	CONSTRAINT "projects_progress_status_check" CHECK("progress_status" in ('idea_submitted', 'community_support', 'email_campaign_active', 'official_acknowledgment', 'planning_stage', 'implementation', 'completed'))
+);
+--> statement-breakpoint
+INSERT INTO `__new_projects`("id", "title", "description", "issue_type", "location", "latitude", "longitude", "urgency_level", "contact_email", "email_template", "email_subject", "email_recipient", "upvotes", "emails_sent", "progress_status", "photo_url", "photo_data", "created_at", "created_by") SELECT "id", "title", "description", "issue_type", "location", "latitude", "longitude", "urgency_level", "contact_email", "email_template", "email_subject", "email_recipient", "upvotes", "emails_sent", "progress_status", "photo_url", "photo_data", "created_at", "created_by" FROM `projects`;--> statement-breakpoint
+DROP TABLE `projects`;--> statement-breakpoint
+ALTER TABLE `__new_projects` RENAME TO `projects`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `projects_coordinates_idx` ON `projects` (`latitude`,`longitude`);--> statement-breakpoint
+CREATE TABLE `__new_users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL,
+	`email` text NOT NULL,
+	`full_name` text,
+	`role` text DEFAULT 'user' NOT NULL,
+	`verified` integer DEFAULT false NOT NULL,
+	`verification_token` text,
+	`reset_password_token` text,
+	`reset_password_expires` integer,
+	`profile_picture` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	CONSTRAINT "users_role_check" CHECK("role" in ('user', 'moderator', 'admin'))
+);
+--> statement-breakpoint
+INSERT INTO `__new_users`("id", "username", "password", "email", "full_name", "role", "verified", "verification_token", "reset_password_token", "reset_password_expires", "profile_picture", "created_at", "updated_at") SELECT "id", "username", "password", "email", "full_name", "role", "verified", "verification_token", "reset_password_token", "reset_password_expires", "profile_picture", "created_at", "updated_at" FROM `users`;--> statement-breakpoint
+DROP TABLE `users`;--> statement-breakpoint
+ALTER TABLE `__new_users` RENAME TO `users`;--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);--> statement-breakpoint
+CREATE UNIQUE INDEX `users_email_unique` ON `users` (`email`);
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE `departments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`email` text NOT NULL,
+	`issue_types` text NOT NULL,
+	`area` text,
+	`created_at` integer NOT NULL
+);
@@ -0,0 +1,22 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_emails` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`sender_email` text,
+	`sender_name` text,
+	`custom_content` text,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`next_attempt_at` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	`sent_at` integer,
+	CONSTRAINT "emails_status_check" CHECK("status" in ('queued', 'sending', 'sent', 'failed'))
+);
+--> statement-breakpoint
+-- Emails recorded before the queue existed were delivered synchronously
+INSERT INTO `__new_emails`("id", "project_id", "sender_email", "sender_name", "custom_content", "status", "attempts", "last_error", "next_attempt_at", "created_at", "sent_at") SELECT "id", "project_id", "sender_email", "sender_name", "custom_content", 'sent', 1, NULL, "sent_at", "sent_at", "sent_at" FROM `emails`;--> statement-breakpoint
+DROP TABLE `emails`;--> statement-breakpoint
+ALTER TABLE `__new_emails` RENAME TO `emails`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `emails_status_next_attempt_idx` ON `emails` (`status`,`next_attempt_at`);
\ No newline at end of file
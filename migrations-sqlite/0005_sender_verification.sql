@@ -0,0 +1,26 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_emails` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`sender_email` text,
+	`sender_name` text,
+	`custom_content` text,
+	`sender_verification` text DEFAULT 'unverified' NOT NULL,
+	`verification_token` text,
+	`sender_verified_at` integer,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`next_attempt_at` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	`sent_at` integer,
+	CONSTRAINT "emails_status_check" CHECK("status" in ('queued', 'sending', 'sent', 'failed')),
+	CONSTRAINT "emails_sender_verification_check" CHECK("sender_verification" in ('unverified', 'pending', 'verified'))
+);
+--> statement-breakpoint
+INSERT INTO `__new_emails`("id", "project_id", "sender_email", "sender_name", "custom_content", "sender_verification", "verification_token", "sender_verified_at", "status", "attempts", "last_error", "next_attempt_at", "created_at", "sent_at") SELECT "id", "project_id", "sender_email", "sender_name", "custom_content", 'unverified', NULL, NULL, "status", "attempts", "last_error", "next_attempt_at", "created_at", "sent_at" FROM `emails`;--> statement-breakpoint
+DROP TABLE `emails`;--> statement-breakpoint
+ALTER TABLE `__new_emails` RENAME TO `emails`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `emails_status_next_attempt_idx` ON `emails` (`status`,`next_attempt_at`);--> statement-breakpoint
+CREATE INDEX `emails_verification_token_idx` ON `emails` (`verification_token`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `escalations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`department_id` integer,
+	`after_days` integer NOT NULL,
+	`recipient_name` text NOT NULL,
+	`recipient_email` text NOT NULL,
+	`sent_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `escalations_project_idx` ON `escalations` (`project_id`);--> statement-breakpoint
+ALTER TABLE `departments` ADD `escalation_rules` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `projects` ADD `escalation_paused` integer DEFAULT false NOT NULL;
\ No newline at end of file
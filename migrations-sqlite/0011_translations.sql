@@ -0,0 +1,51 @@
+CREATE TABLE `project_translations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`language` text NOT NULL,
+	`email_subject` text NOT NULL,
+	`email_template` text NOT NULL,
+	`created_at` integer NOT NULL,
+	CONSTRAINT "project_translations_language_check" CHECK("language" in ('en', 'es'))
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `project_translations_project_language_idx` ON `project_translations` (`project_id`,`language`);--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_projects` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`title` text NOT NULL,
+	`description` text NOT NULL,
+	`issue_type` text NOT NULL,
+	`location` text NOT NULL,
+	`latitude` real NOT NULL,
+	`longitude` real NOT NULL,
+	`urgency_level` text DEFAULT 'medium' NOT NULL,
+	`contact_email` text,
+	`email_template` text NOT NULL,
+	`email_subject` text NOT NULL,
+	`email_recipient` text NOT NULL,
+	`upvotes` integer DEFAULT 0 NOT NULL,
+	`emails_sent` integer DEFAULT 0 NOT NULL,
+	`progress_status` text DEFAULT 'idea_submitted' NOT NULL,
+	`photo_url` text,
+	`photo_data` text,
+	`created_at` integer NOT NULL,
+	`created_by` integer,
+	`merged_into_id` integer,
+	`recipient_status` text DEFAULT 'pending_approval' NOT NULL,
+	`delivery_mode` text DEFAULT 'individual' NOT NULL,
+	`escalation_paused` integer DEFAULT false NOT NULL,
+	`language` text DEFAULT 'en' NOT NULL,
+	CONSTRAINT "projects_issue_type_check" CHECK("issue_type" in ('crosswalk', 'pothole', 'sidewalk', 'streetlight', 'other')),
+	CONSTRAINT "projects_urgency_level_check" CHECK("urgency_level" in ('low', 'medium', 'high')),
+	CONSTRAINT "projects_progress_status_check" CHECK("progress_status" in ('idea_submitted', 'community_support', 'email_campaign_active', 'official_acknowledgment', 'planning_stage', 'implementation', 'completed')),
+	CONSTRAINT "projects_recipient_status_check" CHECK("recipient_status" in ('allowed', 'pending_approval', 'approved', 'rejected')),
+	CONSTRAINT "projects_delivery_mode_check" CHECK("delivery_mode" in ('individual', 'digest')),
+	CONSTRAINT "projects_language_check" CHECK("language" in ('en', 'es'))
+);
+--> statement-breakpoint
+-- Existing projects were written in English
+INSERT INTO `__new_projects`("id", "title", "description", "issue_type", "location", "latitude", "longitude", "urgency_level", "contact_email", "email_template", "email_subject", "email_recipient", "upvotes", "emails_sent", "progress_status", "photo_url", "photo_data", "created_at", "created_by", "merged_into_id", "recipient_status", "delivery_mode", "escalation_paused", "language") SELECT "id", "title", "description", "issue_type", "location", "latitude", "longitude", "urgency_level", "contact_email", "email_template", "email_subject", "email_recipient", "upvotes", "emails_sent", "progress_status", "photo_url", "photo_data", "created_at", "created_by", "merged_into_id", "recipient_status", "delivery_mode", "escalation_paused", 'en' FROM `projects`;--> statement-breakpoint
+DROP TABLE `projects`;--> statement-breakpoint
+ALTER TABLE `__new_projects` RENAME TO `projects`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `projects_coordinates_idx` ON `projects` (`latitude`,`longitude`);
\ No newline at end of file
@@ -0,0 +1,77 @@
+CREATE TYPE "public"."issue_type" AS ENUM('crosswalk', 'pothole', 'sidewalk', 'streetlight', 'other');--> statement-breakpoint
+CREATE TYPE "public"."progress_status" AS ENUM('idea_submitted', 'community_support', 'email_campaign_active', 'official_acknowledgment', 'planning_stage', 'implementation', 'completed');--> statement-breakpoint
+CREATE TYPE "public"."urgency_level" AS ENUM('low', 'medium', 'high');--> statement-breakpoint
+CREATE TYPE "public"."user_role" AS ENUM('user', 'moderator', 'admin');--> statement-breakpoint
+CREATE TABLE "activities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"activity_type" text NOT NULL,
+	"actor_name" text,
+	"description" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"text" text NOT NULL,
+	"commenter_name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "emails" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"sender_email" text,
+	"sender_name" text,
+	"custom_content" text,
+	"sent_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "projects" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"issue_type" "issue_type" NOT NULL,
+	"location" text NOT NULL,
+	"latitude" text NOT NULL,
+	"longitude" text NOT NULL,
+	"urgency_level" "urgency_level" DEFAULT 'medium' NOT NULL,
+	"contact_email" text,
+	"email_template" text NOT NULL,
+	"email_subject" text NOT NULL,
+	"email_recipient" text NOT NULL,
+	"upvotes" integer DEFAULT 0 NOT NULL,
+	"emails_sent" integer DEFAULT 0 NOT NULL,
+	"progress_status" "progress_status" DEFAULT 'idea_submitted' NOT NULL,
+	"photo_url" text,
+	"photo_data" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" integer
+);
+--> statement-breakpoint
+CREATE TABLE "upvotes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"user_id" integer,
+	"ip_address" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"email" text NOT NULL,
+	"full_name" text,
+	"role" "user_role" DEFAULT 'user' NOT NULL,
+	"verified" boolean DEFAULT false NOT NULL,
+	"verification_token" text,
+	"reset_password_token" text,
+	"reset_password_expires" timestamp,
+	"profile_picture" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "projects" ALTER COLUMN "latitude" SET DATA TYPE double precision USING "latitude"::double precision;--> statement-breakpoint
+ALTER TABLE "projects" ALTER COLUMN "longitude" SET DATA TYPE double precision USING "longitude"::double precision;--> statement-breakpoint
+CREATE INDEX "projects_coordinates_idx" ON "projects" USING btree ("latitude","longitude");
\ No newline at end of file
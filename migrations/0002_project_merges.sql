@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "merged_into_id" integer;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "departments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"email" text NOT NULL,
+	"issue_types" "issue_type"[] DEFAULT '{}' NOT NULL,
+	"area" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
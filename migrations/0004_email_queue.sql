@@ -0,0 +1,11 @@
+CREATE TYPE "public"."email_status" AS ENUM('queued', 'sending', 'sent', 'failed');--> statement-breakpoint
+ALTER TABLE "emails" ALTER COLUMN "sent_at" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "emails" ALTER COLUMN "sent_at" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "status" "email_status" DEFAULT 'queued' NOT NULL;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "last_error" text;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "next_attempt_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+-- Emails recorded before the queue existed were delivered synchronously
+UPDATE "emails" SET "status" = 'sent', "attempts" = 1, "next_attempt_at" = "sent_at", "created_at" = "sent_at";--> statement-breakpoint
+CREATE INDEX "emails_status_next_attempt_idx" ON "emails" USING btree ("status","next_attempt_at");
\ No newline at end of file
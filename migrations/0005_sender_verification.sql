@@ -0,0 +1,5 @@
+CREATE TYPE "public"."sender_verification" AS ENUM('unverified', 'pending', 'verified');--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "sender_verification" "sender_verification" DEFAULT 'unverified' NOT NULL;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "verification_token" text;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "sender_verified_at" timestamp;--> statement-breakpoint
+CREATE INDEX "emails_verification_token_idx" ON "emails" USING btree ("verification_token");
\ No newline at end of file
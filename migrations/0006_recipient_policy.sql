@@ -0,0 +1,12 @@
+CREATE TYPE "public"."recipient_status" AS ENUM('allowed', 'pending_approval', 'approved', 'rejected');--> statement-breakpoint
+CREATE TABLE "security_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"event_type" text NOT NULL,
+	"description" text NOT NULL,
+	"project_id" integer,
+	"user_id" integer,
+	"ip_address" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "recipient_status" "recipient_status" DEFAULT 'pending_approval' NOT NULL;
\ No newline at end of file
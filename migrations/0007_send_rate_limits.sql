@@ -0,0 +1,6 @@
+CREATE TABLE "rate_limits" (
+	"key" text NOT NULL,
+	"window_start" timestamp NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "rate_limits_key_window_start_pk" PRIMARY KEY("key","window_start")
+);
@@ -0,0 +1,13 @@
+CREATE TABLE "official_responses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"from_address" text NOT NULL,
+	"from_name" text,
+	"subject" text NOT NULL,
+	"body" text NOT NULL,
+	"message_id" text,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "official_responses_message_id_unique" UNIQUE("message_id")
+);
+--> statement-breakpoint
+CREATE INDEX "official_responses_project_idx" ON "official_responses" USING btree ("project_id");
\ No newline at end of file
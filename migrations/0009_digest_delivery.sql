@@ -0,0 +1,23 @@
+CREATE TYPE "public"."delivery_mode" AS ENUM('individual', 'digest');--> statement-breakpoint
+CREATE TABLE "digests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"recipient" text NOT NULL,
+	"signature_count" integer NOT NULL,
+	"total_supporters" integer NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "signatures" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"signer_name" text,
+	"signer_email" text,
+	"message" text,
+	"digest_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "delivery_mode" "delivery_mode" DEFAULT 'individual' NOT NULL;--> statement-breakpoint
+CREATE INDEX "digests_project_idx" ON "digests" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX "signatures_project_digest_idx" ON "signatures" USING btree ("project_id","digest_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "escalations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"department_id" integer,
+	"after_days" integer NOT NULL,
+	"recipient_name" text NOT NULL,
+	"recipient_email" text NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "departments" ADD COLUMN "escalation_rules" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "escalation_paused" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX "escalations_project_idx" ON "escalations" USING btree ("project_id");
\ No newline at end of file
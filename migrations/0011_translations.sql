@@ -0,0 +1,12 @@
+CREATE TYPE "public"."email_language" AS ENUM('en', 'es');--> statement-breakpoint
+CREATE TABLE "project_translations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"language" "email_language" NOT NULL,
+	"email_subject" text NOT NULL,
+	"email_template" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "language" "email_language" DEFAULT 'en' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "project_translations_project_language_idx" ON "project_translations" USING btree ("project_id","language");
\ No newline at end of file
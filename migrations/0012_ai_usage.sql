@@ -0,0 +1,11 @@
+CREATE TABLE "ai_usage" (
+	"day" text NOT NULL,
+	"task" text NOT NULL,
+	"requests" integer DEFAULT 0 NOT NULL,
+	"cached_requests" integer DEFAULT 0 NOT NULL,
+	"budget_fallbacks" integer DEFAULT 0 NOT NULL,
+	"prompt_tokens" integer DEFAULT 0 NOT NULL,
+	"completion_tokens" integer DEFAULT 0 NOT NULL,
+	"cost_usd" double precision DEFAULT 0 NOT NULL,
+	CONSTRAINT "ai_usage_day_task_pk" PRIMARY KEY("day","task")
+);
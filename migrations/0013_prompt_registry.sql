@@ -0,0 +1,8 @@
+CREATE TABLE "prompt_rollouts" (
+	"name" text PRIMARY KEY NOT NULL,
+	"version" integer NOT NULL,
+	"percent" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "prompt_version" text;
\ No newline at end of file
@@ -8,7 +8,6 @@ import { User as SelectUser } from "@shared/schema";
 import { z } from 'zod';
 import { fromZodError } from "zod-validation-error";
 import jwt from 'jsonwebtoken';
-import createMemoryStore from 'memorystore';
 
 // Define types for Express session and Express.User
 declare global {
@@ -17,6 +16,13 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Supporter addresses this browser has confirmed owning
+    provenSenders?: string[];
+  }
+}
+
 // Configuration
 const JWT_SECRET = process.env.JWT_SECRET || randomBytes(32).toString('hex');
 const SESSION_SECRET = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
@@ -40,6 +46,19 @@ export function comparePasswords(supplied: string, stored: string): boolean {
   );
 }
 
+// Middleware for routes restricted to some user roles, e.g. moderation tools
+export function requireRole(...roles: SelectUser["role"][]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    next();
+  };
+}
+
 // Validate login data
 const loginSchema = z.object({
   username: z.string().min(3),
@@ -48,9 +67,6 @@ const loginSchema = z.object({
 
 // Setup auth middleware
 export function setupAuth(app: Express) {
-  // Initialize memory store for session storage
-  const MemoryStore = createMemoryStore(session);
-  
   // Session configuration
   const sessionOptions: session.SessionOptions = {
     secret: SESSION_SECRET,
@@ -61,9 +77,8 @@ export function setupAuth(app: Express) {
       secure: process.env.NODE_ENV === 'production',
       maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
     },
-    store: new MemoryStore({
-      checkPeriod: 86400000 // Prune expired entries every 24h
-    })
+    // Sessions are persisted by the configured storage backend
+    store: storage.sessionStore
   };
   
   // Set up session middleware
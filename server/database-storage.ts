@@ -0,0 +1,748 @@
+import { and, asc, count, desc, eq, gte, ilike, inArray, isNotNull, isNull, lt, lte, min, or, sql } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type { Pool } from "@neondatabase/serverless";
+import {
+  users, projects, upvotes, emails, signatures, digests, activities, comments, officialResponses, departments, securityEvents, rateLimits, aiUsage, promptRollouts, escalations, projectTranslations,
+  User, InsertUser,
+  Project, NewProject,
+  Upvote, InsertUpvote,
+  Email, NewEmail, EmailStatus,
+  Signature, InsertSignature,
+  Digest, InsertDigest,
+  Activity, InsertActivity,
+  Comment, InsertComment,
+  OfficialResponse, InsertOfficialResponse,
+  Department, InsertDepartment,
+  SecurityEvent, InsertSecurityEvent,
+  AiUsage, InsertAiUsage,
+  PromptRollout, InsertPromptRollout,
+  Escalation, InsertEscalation,
+  ProjectTranslation, InsertProjectTranslation, EmailLanguage,
+  ProjectQuery, ProjectQueryResult,
+  GeoBounds, GeoPoint, ProjectWithDistance
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { Database, Transaction } from "./db";
+import { determineProgressStatus } from "./progress";
+import { checkMerge, duplicateUpvotes, mergeActivityDescription, mergedProgressStatus } from "./project-merge";
+import {
+  projectQueryCursor, projectQueryFilters, projectQueryOrder, toQueryResult,
+  squaredDistance, withinBounds, withinRadius
+} from "./project-query";
+import { withDistances } from "./geo";
+
+const PostgresSessionStore = connectPg(session);
+
+// Postgres storage implementation using Drizzle
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, pool: Pool) {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.username}) = ${username.toLowerCase()}`);
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const { id: _, ...changes } = updates;
+    const [user] = await this.db
+      .update(users)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Project operations
+  async getAllProjects(): Promise<Project[]> {
+    return this.db.select().from(projects).orderBy(desc(projects.upvotes));
+  }
+
+  async getProjectById(id: number): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjectsByType(issueType: string): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(eq(projects.issueType, issueType as Project["issueType"]))
+      .orderBy(desc(projects.upvotes));
+  }
+
+  async getProjectsByStatus(progressStatus: string): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(eq(projects.progressStatus, progressStatus as Project["progressStatus"]))
+      .orderBy(desc(projects.upvotes));
+  }
+
+  async createProject(insertProject: NewProject): Promise<Project> {
+    return this.db.transaction(async (tx) => {
+      const [project] = await tx.insert(projects).values(insertProject).returning();
+
+      // Create an activity for this new project
+      await tx.insert(activities).values({
+        projectId: project.id,
+        activityType: 'project_created',
+        actorName: 'Anonymous User',
+        description: `New issue submitted: ${project.title}`
+      });
+
+      return project;
+    });
+  }
+
+  async updateProject(id: number, updates: Partial<Project>): Promise<Project | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [project] = await tx
+        .select()
+        .from(projects)
+        .where(eq(projects.id, id))
+        .for("update");
+      if (!project) return undefined;
+
+      const { id: _, ...changes } = updates;
+      const [updatedProject] = await tx
+        .update(projects)
+        .set(changes)
+        .where(eq(projects.id, id))
+        .returning();
+
+      // If progress status was updated, create an activity
+      if (updates.progressStatus && updates.progressStatus !== project.progressStatus) {
+        await this.recordStatusChange(tx, id, updates.progressStatus);
+      }
+
+      return updatedProject;
+    });
+  }
+
+  async mergeProjects(targetId: number, sourceId: number, actorName: string): Promise<Project | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [target] = await tx.select().from(projects).where(eq(projects.id, targetId)).for("update");
+      const [source] = await tx.select().from(projects).where(eq(projects.id, sourceId)).for("update");
+      if (!target || !source) return undefined;
+      checkMerge(target, source);
+
+      // Drop upvotes from people who already upvoted the target, then move the rest
+      const targetUpvotes = await tx.select().from(upvotes).where(eq(upvotes.projectId, targetId));
+      const sourceUpvotes = await tx.select().from(upvotes).where(eq(upvotes.projectId, sourceId));
+      const duplicates = duplicateUpvotes(targetUpvotes, sourceUpvotes);
+      if (duplicates.length > 0) {
+        await tx.delete(upvotes).where(inArray(upvotes.id, duplicates.map(upvote => upvote.id)));
+      }
+      await tx.update(upvotes).set({ projectId: targetId }).where(eq(upvotes.projectId, sourceId));
+      await tx.update(emails).set({ projectId: targetId }).where(eq(emails.projectId, sourceId));
+      await tx.update(comments).set({ projectId: targetId }).where(eq(comments.projectId, sourceId));
+      await tx.update(signatures).set({ projectId: targetId }).where(eq(signatures.projectId, sourceId));
+      await tx.update(officialResponses).set({ projectId: targetId }).where(eq(officialResponses.projectId, sourceId));
+      await tx.update(activities).set({ projectId: targetId }).where(eq(activities.projectId, sourceId));
+
+      // Projects previously merged into the source now redirect to the target
+      await tx.update(projects).set({ mergedIntoId: targetId }).where(eq(projects.mergedIntoId, sourceId));
+
+      const upvoteCount = Math.max(target.upvotes + source.upvotes - duplicates.length, 0);
+      const emailsSent = target.emailsSent + source.emailsSent;
+      const progressStatus = mergedProgressStatus(target, source, upvoteCount, emailsSent);
+      const [merged] = await tx
+        .update(projects)
+        .set({ upvotes: upvoteCount, emailsSent, progressStatus })
+        .where(eq(projects.id, targetId))
+        .returning();
+
+      // Leave the source as a redirect stub
+      await tx
+        .update(projects)
+        .set({ mergedIntoId: targetId, upvotes: 0, emailsSent: 0 })
+        .where(eq(projects.id, sourceId));
+
+      if (progressStatus !== target.progressStatus) {
+        await this.recordStatusChange(tx, targetId, progressStatus);
+      }
+      await tx.insert(activities).values({
+        projectId: targetId,
+        activityType: 'project_merged',
+        actorName,
+        description: mergeActivityDescription(source)
+      });
+
+      return merged;
+    });
+  }
+
+  // Upvote operations
+  async createUpvote(insertUpvote: InsertUpvote): Promise<Upvote> {
+    return this.db.transaction(async (tx) => {
+      const [upvote] = await tx.insert(upvotes).values(insertUpvote).returning();
+
+      // Increment upvote count for the project
+      const [project] = await tx
+        .update(projects)
+        .set({ upvotes: sql`${projects.upvotes} + 1` })
+        .where(eq(projects.id, upvote.projectId))
+        .returning();
+
+      if (project) {
+        await this.refreshProgressStatus(tx, project);
+
+        // Create an activity
+        await tx.insert(activities).values({
+          projectId: project.id,
+          activityType: 'upvote',
+          actorName: 'Anonymous User',
+          description: `Someone upvoted: ${project.title}`
+        });
+      }
+
+      return upvote;
+    });
+  }
+
+  async getUpvotesByProject(projectId: number): Promise<Upvote[]> {
+    return this.db.select().from(upvotes).where(eq(upvotes.projectId, projectId));
+  }
+
+  async hasUserUpvoted(projectId: number, ipAddress: string): Promise<boolean> {
+    const [upvote] = await this.db
+      .select({ id: upvotes.id })
+      .from(upvotes)
+      .where(and(eq(upvotes.projectId, projectId), eq(upvotes.ipAddress, ipAddress)))
+      .limit(1);
+    return !!upvote;
+  }
+
+  // Email operations
+  async createEmail(insertEmail: NewEmail): Promise<Email> {
+    const [email] = await this.db.insert(emails).values(insertEmail).returning();
+    return email;
+  }
+
+  async getEmailById(id: number): Promise<Email | undefined> {
+    const [email] = await this.db.select().from(emails).where(eq(emails.id, id));
+    return email;
+  }
+
+  async getEmailsByVerificationToken(token: string): Promise<Email[]> {
+    return this.db.select().from(emails).where(eq(emails.verificationToken, token)).orderBy(asc(emails.id));
+  }
+
+  async getPendingSenderVerification(senderEmail: string, since: Date): Promise<Email | undefined> {
+    const [email] = await this.db
+      .select()
+      .from(emails)
+      .where(and(
+        eq(emails.senderEmail, senderEmail),
+        eq(emails.senderVerification, 'pending'),
+        isNotNull(emails.verificationToken),
+        gte(emails.createdAt, since)
+      ))
+      .orderBy(desc(emails.id))
+      .limit(1);
+    return email;
+  }
+
+  async getEmailsByStatus(status: EmailStatus, limit: number): Promise<Email[]> {
+    return this.db
+      .select()
+      .from(emails)
+      .where(eq(emails.status, status))
+      .orderBy(desc(emails.createdAt))
+      .limit(limit);
+  }
+
+  async updateEmail(id: number, updates: Partial<Email>): Promise<Email | undefined> {
+    const { id: _, ...changes } = updates;
+    const [email] = await this.db
+      .update(emails)
+      .set(changes)
+      .where(eq(emails.id, id))
+      .returning();
+    return email;
+  }
+
+  async claimDueEmails(now: Date, limit: number): Promise<Email[]> {
+    // SKIP LOCKED keeps concurrent passes from claiming the same emails
+    const due = this.db
+      .select({ id: emails.id })
+      .from(emails)
+      .where(and(eq(emails.status, 'queued'), lte(emails.nextAttemptAt, now)))
+      .orderBy(asc(emails.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return this.db
+      .update(emails)
+      .set({ status: 'sending' })
+      .where(inArray(emails.id, due))
+      .returning();
+  }
+
+  async markEmailSent(id: number): Promise<Email | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [email] = await tx
+        .update(emails)
+        .set({ status: 'sent', attempts: sql`${emails.attempts} + 1`, lastError: null, sentAt: new Date() })
+        .where(eq(emails.id, id))
+        .returning();
+      if (!email) return undefined;
+
+      // Increment email count for the project
+      const [project] = await tx
+        .update(projects)
+        .set({ emailsSent: sql`${projects.emailsSent} + 1` })
+        .where(eq(projects.id, email.projectId))
+        .returning();
+
+      if (project) {
+        await this.refreshProgressStatus(tx, project);
+
+        // Create an activity
+        await tx.insert(activities).values({
+          projectId: project.id,
+          activityType: 'email_sent',
+          actorName: email.senderName || 'Anonymous User',
+          description: `Email sent regarding: ${project.title}`
+        });
+      }
+
+      return email;
+    });
+  }
+
+  async getEmailsByProject(projectId: number): Promise<Email[]> {
+    return this.db
+      .select()
+      .from(emails)
+      .where(eq(emails.projectId, projectId))
+      .orderBy(desc(emails.createdAt));
+  }
+
+  // Signature and digest operations
+  async createSignature(insertSignature: InsertSignature): Promise<Signature> {
+    return this.db.transaction(async (tx) => {
+      const [signature] = await tx.insert(signatures).values(insertSignature).returning();
+
+      // Each signature counts like an email sent
+      const [project] = await tx
+        .update(projects)
+        .set({ emailsSent: sql`${projects.emailsSent} + 1` })
+        .where(eq(projects.id, signature.projectId))
+        .returning();
+
+      if (project) {
+        await this.refreshProgressStatus(tx, project);
+
+        await tx.insert(activities).values({
+          projectId: project.id,
+          activityType: 'signature',
+          actorName: signature.signerName || 'Anonymous User',
+          description: `Signed the digest regarding: ${project.title}`
+        });
+      }
+
+      return signature;
+    });
+  }
+
+  async getPendingSignatures(): Promise<Signature[]> {
+    return this.db
+      .select()
+      .from(signatures)
+      .where(isNull(signatures.digestId))
+      .orderBy(asc(signatures.createdAt));
+  }
+
+  async getLatestDigest(projectId: number): Promise<Digest | undefined> {
+    const [digest] = await this.db
+      .select()
+      .from(digests)
+      .where(eq(digests.projectId, projectId))
+      .orderBy(desc(digests.sentAt))
+      .limit(1);
+    return digest;
+  }
+
+  async createDigest(insertDigest: InsertDigest, signatureIds: number[]): Promise<Digest> {
+    return this.db.transaction(async (tx) => {
+      const [digest] = await tx.insert(digests).values(insertDigest).returning();
+      if (signatureIds.length > 0) {
+        await tx.update(signatures).set({ digestId: digest.id }).where(inArray(signatures.id, signatureIds));
+      }
+      return digest;
+    });
+  }
+
+  // Activity operations
+  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+    const [activity] = await this.db.insert(activities).values(insertActivity).returning();
+    return activity;
+  }
+
+  async getRecentActivities(limit: number): Promise<Activity[]> {
+    return this.db
+      .select()
+      .from(activities)
+      .orderBy(desc(activities.createdAt))
+      .limit(limit);
+  }
+
+  async getActivitiesByProject(projectId: number): Promise<Activity[]> {
+    return this.db
+      .select()
+      .from(activities)
+      .where(eq(activities.projectId, projectId))
+      .orderBy(desc(activities.createdAt));
+  }
+
+  // Stats operations
+  async getCommunityStats(): Promise<{
+    activeIssues: number;
+    emailsSent: number;
+    issuesResolved: number;
+    successRate: number;
+  }> {
+    const [projectCounts] = await this.db
+      .select({
+        total: count(),
+        resolved: sql<number>`count(*) filter (where ${projects.progressStatus} = 'completed')`.mapWith(Number),
+      })
+      .from(projects)
+      .where(isNull(projects.mergedIntoId));
+    const [emailCount] = await this.db.select({ total: count() }).from(emails).where(eq(emails.status, 'sent'));
+    // Signatures in digests count like emails
+    const [signatureCount] = await this.db.select({ total: count() }).from(signatures);
+
+    const totalIssues = projectCounts.total;
+    const issuesResolved = projectCounts.resolved;
+    const successRate = totalIssues > 0 ? Math.round((issuesResolved / totalIssues) * 100) : 0;
+
+    return {
+      activeIssues: totalIssues - issuesResolved,
+      emailsSent: emailCount.total + signatureCount.total,
+      issuesResolved,
+      successRate
+    };
+  }
+
+  // Search and filter operations
+  async searchProjects(query: string): Promise<Project[]> {
+    const pattern = `%${query}%`;
+    return this.db
+      .select()
+      .from(projects)
+      .where(or(
+        ilike(projects.title, pattern),
+        ilike(projects.description, pattern),
+        ilike(projects.location, pattern)
+      ))
+      .orderBy(desc(projects.upvotes));
+  }
+
+  async queryProjects(query: ProjectQuery): Promise<ProjectQueryResult> {
+    const filters = projectQueryFilters(projects, query);
+    const rows = await this.db
+      .select()
+      .from(projects)
+      .where(and(filters, projectQueryCursor(projects, query)))
+      .orderBy(...projectQueryOrder(projects, query))
+      .limit(query.limit + 1)
+      .offset(query.cursor ? 0 : query.offset ?? 0);
+    const [{ total }] = await this.db.select({ total: count() }).from(projects).where(filters);
+
+    return toQueryResult(rows, total, query);
+  }
+
+  // Geospatial operations
+  async findProjectsNearby(center: GeoPoint, radiusMeters: number, limit: number, issueType?: Project["issueType"]): Promise<ProjectWithDistance[]> {
+    const rows = await this.db
+      .select()
+      .from(projects)
+      .where(and(
+        isNull(projects.mergedIntoId),
+        withinRadius(projects, center, radiusMeters),
+        issueType ? eq(projects.issueType, issueType) : undefined
+      ))
+      .orderBy(squaredDistance(projects, center))
+      .limit(limit);
+
+    return withDistances(rows, center);
+  }
+
+  async findProjectsInBounds(bounds: GeoBounds, limit: number): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(and(isNull(projects.mergedIntoId), withinBounds(projects, bounds)))
+      .orderBy(desc(projects.upvotes))
+      .limit(limit);
+  }
+
+  // Comment operations
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    return this.db.transaction(async (tx) => {
+      const [comment] = await tx.insert(comments).values(insertComment).returning();
+      const [project] = await tx
+        .select({ title: projects.title })
+        .from(projects)
+        .where(eq(projects.id, comment.projectId));
+
+      // Create an activity for this new comment
+      await tx.insert(activities).values({
+        projectId: comment.projectId,
+        activityType: 'comment_added',
+        actorName: comment.commenterName,
+        description: `New comment on project: ${project?.title || 'Unknown Project'}`
+      });
+
+      return comment;
+    });
+  }
+
+  async getCommentsByProject(projectId: number): Promise<Comment[]> {
+    return this.db
+      .select()
+      .from(comments)
+      .where(eq(comments.projectId, projectId))
+      .orderBy(desc(comments.createdAt));
+  }
+
+  // Official response operations
+  async createOfficialResponse(insertResponse: InsertOfficialResponse): Promise<OfficialResponse> {
+    const [response] = await this.db.insert(officialResponses).values(insertResponse).returning();
+    return response;
+  }
+
+  async getOfficialResponsesByProject(projectId: number): Promise<OfficialResponse[]> {
+    return this.db
+      .select()
+      .from(officialResponses)
+      .where(eq(officialResponses.projectId, projectId))
+      .orderBy(desc(officialResponses.receivedAt));
+  }
+
+  async getOfficialResponseByMessageId(messageId: string): Promise<OfficialResponse | undefined> {
+    const [response] = await this.db.select().from(officialResponses).where(eq(officialResponses.messageId, messageId));
+    return response;
+  }
+
+  // Department directory operations
+  async getDepartments(): Promise<Department[]> {
+    return this.db.select().from(departments).orderBy(departments.id);
+  }
+
+  async getDepartment(id: number): Promise<Department | undefined> {
+    const [department] = await this.db.select().from(departments).where(eq(departments.id, id));
+    return department;
+  }
+
+  async createDepartment(insertDepartment: InsertDepartment): Promise<Department> {
+    const [department] = await this.db.insert(departments).values(insertDepartment).returning();
+    return department;
+  }
+
+  async updateDepartment(id: number, updates: Partial<InsertDepartment>): Promise<Department | undefined> {
+    const [department] = await this.db
+      .update(departments)
+      .set(updates)
+      .where(eq(departments.id, id))
+      .returning();
+    return department;
+  }
+
+  async deleteDepartment(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(departments).where(eq(departments.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Security event operations
+  async createSecurityEvent(insertEvent: InsertSecurityEvent): Promise<SecurityEvent> {
+    const [event] = await this.db.insert(securityEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getSecurityEvents(limit: number): Promise<SecurityEvent[]> {
+    return this.db
+      .select()
+      .from(securityEvents)
+      .orderBy(desc(securityEvents.createdAt))
+      .limit(limit);
+  }
+
+  // Rate limit operations
+  async consumeRateLimits(limits: { key: string; limit: number }[], windowStart: Date): Promise<string | undefined> {
+    if (limits.length === 0) return undefined;
+    // Sorted so concurrent sends lock shared counters in the same order
+    const keys = limits.map(({ key }) => key).sort();
+    const inWindow = and(inArray(rateLimits.key, keys), eq(rateLimits.windowStart, windowStart));
+
+    return this.db.transaction(async (tx) => {
+      await tx
+        .delete(rateLimits)
+        .where(lt(rateLimits.windowStart, windowStart));
+      await tx
+        .insert(rateLimits)
+        .values(keys.map(key => ({ key, windowStart })))
+        .onConflictDoNothing();
+
+      // Lock the counters so concurrent sends can't both take the last slot
+      const counters = await tx
+        .select()
+        .from(rateLimits)
+        .where(inWindow)
+        .orderBy(asc(rateLimits.key))
+        .for("update");
+      const counts = new Map(counters.map(counter => [counter.key, counter.count]));
+
+      const exceeded = limits.find(({ key, limit }) => (counts.get(key) ?? 0) >= limit);
+      if (exceeded) return exceeded.key;
+
+      await tx
+        .update(rateLimits)
+        .set({ count: sql`${rateLimits.count} + 1` })
+        .where(inWindow);
+      return undefined;
+    });
+  }
+
+  // AI usage operations
+  async recordAiUsage(usage: InsertAiUsage): Promise<void> {
+    await this.db
+      .insert(aiUsage)
+      .values(usage)
+      .onConflictDoUpdate({
+        target: [aiUsage.day, aiUsage.task],
+        set: {
+          requests: sql`${aiUsage.requests} + ${usage.requests ?? 0}`,
+          cachedRequests: sql`${aiUsage.cachedRequests} + ${usage.cachedRequests ?? 0}`,
+          budgetFallbacks: sql`${aiUsage.budgetFallbacks} + ${usage.budgetFallbacks ?? 0}`,
+          promptTokens: sql`${aiUsage.promptTokens} + ${usage.promptTokens ?? 0}`,
+          completionTokens: sql`${aiUsage.completionTokens} + ${usage.completionTokens ?? 0}`,
+          costUsd: sql`${aiUsage.costUsd} + ${usage.costUsd ?? 0}`
+        }
+      });
+  }
+
+  async getAiUsage(sinceDay: string): Promise<AiUsage[]> {
+    return this.db
+      .select()
+      .from(aiUsage)
+      .where(gte(aiUsage.day, sinceDay))
+      .orderBy(desc(aiUsage.day), asc(aiUsage.task));
+  }
+
+  // Prompt rollout operations
+  async getPromptRollouts(): Promise<PromptRollout[]> {
+    return this.db.select().from(promptRollouts).orderBy(asc(promptRollouts.name));
+  }
+
+  async getPromptRollout(name: string): Promise<PromptRollout | undefined> {
+    const [rollout] = await this.db.select().from(promptRollouts).where(eq(promptRollouts.name, name));
+    return rollout;
+  }
+
+  async setPromptRollout(rollout: InsertPromptRollout): Promise<PromptRollout> {
+    const [saved] = await this.db
+      .insert(promptRollouts)
+      .values(rollout)
+      .onConflictDoUpdate({
+        target: promptRollouts.name,
+        set: { version: rollout.version, percent: rollout.percent, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deletePromptRollout(name: string): Promise<boolean> {
+    const deleted = await this.db.delete(promptRollouts).where(eq(promptRollouts.name, name)).returning();
+    return deleted.length > 0;
+  }
+
+  // Escalation operations
+  async getFirstDeliveryAt(projectId: number): Promise<Date | undefined> {
+    const [email] = await this.db
+      .select({ sentAt: min(emails.sentAt) })
+      .from(emails)
+      .where(eq(emails.projectId, projectId));
+    const [digest] = await this.db
+      .select({ sentAt: min(digests.sentAt) })
+      .from(digests)
+      .where(eq(digests.projectId, projectId));
+
+    const deliveries = [email?.sentAt, digest?.sentAt].filter((date): date is Date => !!date);
+    return deliveries.sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+
+  async createEscalation(insertEscalation: InsertEscalation): Promise<Escalation> {
+    const [escalation] = await this.db.insert(escalations).values(insertEscalation).returning();
+    return escalation;
+  }
+
+  async getEscalationsByProject(projectId: number): Promise<Escalation[]> {
+    return this.db
+      .select()
+      .from(escalations)
+      .where(eq(escalations.projectId, projectId))
+      .orderBy(asc(escalations.sentAt));
+  }
+
+  // Translation operations
+  async getProjectTranslation(projectId: number, language: EmailLanguage): Promise<ProjectTranslation | undefined> {
+    const [translation] = await this.db
+      .select()
+      .from(projectTranslations)
+      .where(and(eq(projectTranslations.projectId, projectId), eq(projectTranslations.language, language)));
+    return translation;
+  }
+
+  async saveProjectTranslation(insertTranslation: InsertProjectTranslation): Promise<ProjectTranslation> {
+    await this.db.insert(projectTranslations).values(insertTranslation).onConflictDoNothing();
+    return (await this.getProjectTranslation(insertTranslation.projectId, insertTranslation.language))!;
+  }
+
+  // Recompute the progress status after a counter changed, within the same transaction
+  private async refreshProgressStatus(tx: Transaction, project: Project): Promise<void> {
+    const progressStatus = determineProgressStatus(project.upvotes, project.emailsSent, project.progressStatus);
+    if (progressStatus === project.progressStatus) return;
+
+    await tx.update(projects).set({ progressStatus }).where(eq(projects.id, project.id));
+    await this.recordStatusChange(tx, project.id, progressStatus);
+  }
+
+  private async recordStatusChange(tx: Transaction, projectId: number, progressStatus: string): Promise<void> {
+    await tx.insert(activities).values({
+      projectId,
+      activityType: 'status_change',
+      actorName: 'System',
+      description: `Project status updated to: ${progressStatus}`
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create a Drizzle client backed by a Postgres connection pool
+ */
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  
+  return { pool, db };
+}
+
+export type Database = ReturnType<typeof createDatabase>["db"];
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
@@ -0,0 +1,47 @@
+import { Department, GeoPoint } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { isWithinPolygon } from "./geo";
+import { jurisdiction } from "./jurisdiction";
+
+// Helpers for routing issue emails through the departments directory
+
+/**
+ * Store the jurisdiction's initial department list if the directory is empty
+ */
+export async function seedDepartments(storage: IStorage): Promise<void> {
+  const existing = await storage.getDepartments();
+  if (existing.length > 0) return;
+
+  for (const department of jurisdiction.departments) {
+    await storage.createDepartment(department);
+  }
+  console.log(`Seeded ${jurisdiction.departments.length} departments from ${jurisdiction.name} config`);
+}
+
+// A department without an area covers the whole jurisdiction
+function covers(department: Department, point: GeoPoint | undefined): boolean {
+  if (!department.area || !point) return true;
+  return isWithinPolygon(point, department.area);
+}
+
+/**
+ * Departments that could receive an issue, best match first: those handling
+ * the issue type in the issue's area, then those handling "other" issues,
+ * then any department covering the area. Within each group, departments
+ * with an area containing the issue come before jurisdiction-wide ones.
+ * Never empty if the directory isn't.
+ */
+export function rankDepartments(all: Department[], issueType: string, point?: GeoPoint): Department[] {
+  const local = all.filter(department => covers(department, point));
+  const candidates = local.length > 0 ? local : all;
+
+  const rank = (department: Department) => {
+    const specific = department.area && point ? 0 : 1;
+    if (department.issueTypes.includes(issueType as Department["issueTypes"][number])) return specific;
+    if (department.issueTypes.includes("other")) return 2 + specific;
+    return 4 + specific;
+  };
+
+  // Array sort is stable, so ties keep the directory order
+  return [...candidates].sort((a, b) => rank(a) - rank(b));
+}
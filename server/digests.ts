@@ -0,0 +1,182 @@
+import { Project, Signature } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { sendEmail } from "./email";
+import { canEmailRecipient } from "./recipient-policy";
+import { projectReplyAddress } from "./inbound-email";
+import { renderProjectEmail } from "./email-render";
+
+// Digest delivery for petition-style projects. Supporters of a project in
+// digest mode sign instead of sending their own email, and the recipient
+// gets one email a day listing the new signers. Signatures stay pending
+// until a digest containing them is delivered, so a failed digest is simply
+// tried again at the next check.
+
+// Minimum time between digests to a project. The first digest goes out this
+// long after the first signature.
+const DIGEST_INTERVAL_MS = process.env.DIGEST_INTERVAL_MS
+  ? parseInt(process.env.DIGEST_INTERVAL_MS)
+  : 24 * 60 * 60 * 1000;
+
+// How often projects are checked for a digest that is due
+const CHECK_INTERVAL_MS = process.env.DIGEST_CHECK_INTERVAL_MS
+  ? parseInt(process.env.DIGEST_CHECK_INTERVAL_MS)
+  : 15 * 60 * 1000;
+
+// Keep digests readable however many people signed
+const MAX_LISTED_SIGNERS = 200;
+const MAX_EXCERPTS = 10;
+const EXCERPT_LENGTH = 300;
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= EXCERPT_LENGTH) return flat;
+  const cut = flat.slice(0, EXCERPT_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : EXCERPT_LENGTH)}…`;
+}
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+/**
+ * Subject and body of a digest: who signed since the last one, excerpts of
+ * the messages signers wrote themselves, the running total and the original
+ * request
+ */
+export function composeDigest(
+  project: Project,
+  signatures: Signature[],
+  firstDigest: boolean
+): { subject: string; text: string } {
+  const named = signatures.filter(signature => signature.signerName);
+  const anonymous = signatures.length - named.length;
+  const listed = named.slice(0, MAX_LISTED_SIGNERS);
+  const unlisted = named.length - listed.length + anonymous;
+
+  const sections: string[] = [];
+
+  sections.push(
+    `${plural(signatures.length, "resident has", "residents have")} signed the request below ` +
+    `${firstDigest ? "since it was shared" : "since the last update"}. ` +
+    `${plural(project.emailsSent, "resident has", "residents have")} now written about or signed for this issue in total.`
+  );
+
+  if (listed.length > 0) {
+    const lines = listed.map(signature => `- ${signature.signerName}`);
+    if (unlisted > 0) {
+      lines.push(`- and ${plural(unlisted, "other", "others")}`);
+    }
+    sections.push(`New signers:\n${lines.join('\n')}`);
+  }
+
+  // Only messages signers changed are worth quoting
+  const messages = signatures.filter(signature => signature.message && signature.message !== project.emailTemplate);
+  if (messages.length > 0) {
+    const quoted = messages.slice(0, MAX_EXCERPTS)
+      .map(signature => `"${excerpt(signature.message!)}"\n  – ${signature.signerName || "A resident"}`);
+    if (messages.length > MAX_EXCERPTS) {
+      quoted.push(`(${plural(messages.length - MAX_EXCERPTS, "more message", "more messages")} not shown)`);
+    }
+    sections.push(`In their own words:\n\n${quoted.join('\n\n')}`);
+  }
+
+  sections.push(`The request they signed:\n\n${project.emailTemplate}`);
+
+  sections.push(
+    `--\nThis digest was sent by CivicVoice on behalf of the signers` +
+    (projectReplyAddress(project.id) ? ", and replies are shared on the issue's public page." : ".")
+  );
+
+  return {
+    subject: `Daily digest: ${project.emailSubject} (${plural(signatures.length, "new signature", "new signatures")})`,
+    text: sections.join('\n\n')
+  };
+}
+
+// Send one project's digest and record it, returning whether it went out
+async function sendDigest(storage: IStorage, project: Project, signatures: Signature[], firstDigest: boolean): Promise<boolean> {
+  const digest = composeDigest(project, signatures, firstDigest);
+  const { text, html, attachments } = await renderProjectEmail(storage, project, digest.text);
+  const replyAddress = projectReplyAddress(project.id);
+
+  const result = await sendEmail({
+    to: project.emailRecipient,
+    subject: digest.subject,
+    text,
+    html,
+    attachments,
+    replyTo: replyAddress ? [replyAddress] : undefined
+  });
+
+  if (!result.success) {
+    console.warn(`Digest for project ${project.id} failed, will retry: ${result.message}`);
+    return false;
+  }
+
+  await storage.createDigest({
+    projectId: project.id,
+    recipient: project.emailRecipient,
+    signatureCount: signatures.length,
+    totalSupporters: project.emailsSent
+  }, signatures.map(signature => signature.id));
+
+  await storage.createActivity({
+    projectId: project.id,
+    activityType: 'digest_sent',
+    actorName: 'CivicVoice',
+    description: `Digest of ${plural(signatures.length, "signature", "signatures")} sent regarding: ${project.title}`
+  });
+
+  console.log(`Digest for project ${project.id} delivered via ${result.transport}`);
+  return true;
+}
+
+let processing = false;
+
+/**
+ * Send every digest that is due. Passes don't overlap.
+ */
+export async function processDigests(storage: IStorage, now = new Date()): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    const pending = await storage.getPendingSignatures();
+
+    const byProject = new Map<number, Signature[]>();
+    for (const signature of pending) {
+      byProject.set(signature.projectId, [...(byProject.get(signature.projectId) ?? []), signature]);
+    }
+
+    for (const [projectId, signatures] of Array.from(byProject)) {
+      // One project's failure mustn't hold up the others' digests
+      try {
+        const project = await storage.getProjectById(projectId);
+        // Signatures wait while the recipient is on hold
+        if (!project || !canEmailRecipient(project)) continue;
+
+        const latest = await storage.getLatestDigest(projectId);
+        const since = latest?.sentAt ?? signatures[0].createdAt;
+        if (now.getTime() - since.getTime() < DIGEST_INTERVAL_MS) continue;
+
+        await sendDigest(storage, project, signatures, !latest);
+      } catch (error) {
+        console.error(`Error sending the digest for project ${projectId}:`, error);
+      }
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Check for due digests in the background
+ */
+export function startDigestScheduler(storage: IStorage): void {
+  const run = () => {
+    processDigests(storage).catch(error => console.error("Error sending digests:", error));
+  };
+
+  setInterval(run, CHECK_INTERVAL_MS).unref();
+  run();
+}
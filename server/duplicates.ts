@@ -0,0 +1,84 @@
+import { DuplicateCandidate, DuplicateCheck } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Projects of the same type within this distance are considered for duplicates
+const DUPLICATE_RADIUS_METERS = process.env.DUPLICATE_RADIUS_METERS
+  ? parseFloat(process.env.DUPLICATE_RADIUS_METERS)
+  : 150;
+
+// Candidates scoring at least this much are reported as likely duplicates
+const LIKELY_DUPLICATE_SCORE = 0.6;
+
+// How many candidates to return, best first
+const MAX_CANDIDATES = 5;
+
+// Words too common to say anything about whether two reports match
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "this", "that", "there", "near", "from",
+  "are", "was", "has", "have", "been", "needs", "need", "very", "our", "its"
+]);
+
+function tokenize(text: string | null | undefined): Set<string> {
+  const words = (text || "").toLowerCase().split(/[^a-z0-9]+/);
+  return new Set(words.filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+}
+
+// Jaccard similarity of two word sets
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Text similarity between a draft and an existing project, weighting the title
+ * above the description. Falls back to the title alone when the draft has no description.
+ */
+function textSimilarity(
+  draft: { title: string; description?: string },
+  project: { title: string; description: string }
+): number {
+  const titleScore = overlap(tokenize(draft.title), tokenize(project.title));
+  if (!draft.description) return titleScore;
+
+  const descriptionScore = overlap(tokenize(draft.description), tokenize(project.description));
+  return 0.6 * titleScore + 0.4 * descriptionScore;
+}
+
+/**
+ * Find existing projects of the same issue type near the draft's location,
+ * ranked by a mix of text similarity and proximity.
+ */
+export async function findDuplicateCandidates(
+  storage: IStorage,
+  draft: DuplicateCheck
+): Promise<DuplicateCandidate[]> {
+  const radiusMeters = draft.radiusMeters ?? DUPLICATE_RADIUS_METERS;
+  // Filtered by type in the query, so the nearest projects of other types
+  // can't crowd out the ones that matter
+  const nearby = await storage.findProjectsNearby(
+    { lat: draft.latitude, lng: draft.longitude },
+    radiusMeters,
+    50,
+    draft.issueType
+  );
+
+  return nearby
+    .map(project => {
+      const similarity = textSimilarity(draft, project);
+      const proximity = 1 - Math.min(project.distanceMeters / radiusMeters, 1);
+      const score = 0.5 * similarity + 0.5 * proximity;
+
+      return {
+        ...project,
+        similarity: Math.round(similarity * 100) / 100,
+        score: Math.round(score * 100) / 100,
+        likely: score >= LIKELY_DUPLICATE_SCORE
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+}
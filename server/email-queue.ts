@@ -0,0 +1,178 @@
+import { Email, Project } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { sendEmail, verifyEmailTransport } from "./email";
+import { canEmailRecipient, recordSecurityEvent } from "./recipient-policy";
+import { projectReplyAddress } from "./inbound-email";
+import { renderProjectEmail } from "./email-render";
+
+// Outbound email queue. Supporters' emails are stored as "queued" and
+// delivered in the background, so a transient SMTP failure only delays them.
+// Failed attempts are retried with exponential backoff until MAX_ATTEMPTS,
+// after which the email is marked "failed" and can be re-driven by an admin.
+
+const MAX_ATTEMPTS = process.env.EMAIL_MAX_ATTEMPTS
+  ? parseInt(process.env.EMAIL_MAX_ATTEMPTS)
+  : 5;
+
+// Delay before the first retry; doubled after every further failure
+const RETRY_BASE_DELAY_MS = process.env.EMAIL_RETRY_BASE_DELAY_MS
+  ? parseInt(process.env.EMAIL_RETRY_BASE_DELAY_MS)
+  : 30 * 1000;
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// How often the queue is checked for due emails
+const POLL_INTERVAL_MS = process.env.EMAIL_QUEUE_INTERVAL_MS
+  ? parseInt(process.env.EMAIL_QUEUE_INTERVAL_MS)
+  : 10 * 1000;
+
+// Emails claimed per pass
+const BATCH_SIZE = 10;
+
+export class EmailQueueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailQueueError";
+  }
+}
+
+/**
+ * Backoff before the next attempt, given how many attempts have failed so far
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Replies go to the project's tagged inbound address, so they are recorded
+// as official responses, and to the supporter if they confirmed their address
+function replyAddresses(email: Email, project: Project): string[] {
+  const addresses: string[] = [];
+  const projectAddress = projectReplyAddress(project.id);
+  if (projectAddress) addresses.push(projectAddress);
+  if (email.senderVerification === 'verified' && email.senderEmail) addresses.push(email.senderEmail);
+  return addresses;
+}
+
+// Record a failed attempt, scheduling a retry unless the email should give up
+async function recordFailure(storage: IStorage, email: Email, error: string, giveUp: boolean): Promise<void> {
+  const attempts = email.attempts + 1;
+  giveUp = giveUp || attempts >= MAX_ATTEMPTS;
+
+  await storage.updateEmail(email.id, {
+    status: giveUp ? 'failed' : 'queued',
+    attempts,
+    lastError: error,
+    nextAttemptAt: new Date(Date.now() + retryDelay(attempts))
+  });
+  console.warn(`Email ${email.id} attempt ${attempts} failed${giveUp ? ", giving up" : ""}: ${error}`);
+}
+
+// Attempt one delivery of a claimed email and record the outcome
+async function deliver(storage: IStorage, email: Email): Promise<void> {
+  const project = await storage.getProjectById(email.projectId);
+
+  // A missing project can't be fixed by retrying
+  if (!project) {
+    return recordFailure(storage, email, "Project no longer exists", true);
+  }
+
+  // The recipient may have been rejected while the email was queued
+  if (!canEmailRecipient(project)) {
+    await recordSecurityEvent(storage, {
+      eventType: 'blocked_send',
+      description: `Blocked queued email ${email.id} for project #${project.id} to ${project.emailRecipient} (recipient ${project.recipientStatus})`,
+      projectId: project.id
+    });
+    return recordFailure(storage, email, "Recipient is not approved", true);
+  }
+
+  // Supporters who didn't confirm their address in time are sent without it
+  if (email.senderVerification === 'pending') {
+    email = await storage.updateEmail(email.id, { senderVerification: 'unverified' }) ?? email;
+  }
+
+  const { text, html, attachments } = await renderProjectEmail(storage, project, email.customContent || project.emailTemplate);
+  const result = await sendEmail({
+    to: project.emailRecipient,
+    subject: project.emailSubject,
+    text,
+    html,
+    onBehalfOf: email.senderName || undefined,
+    replyTo: replyAddresses(email, project),
+    attachments
+  });
+
+  if (!result.success) {
+    return recordFailure(storage, email, result.message, false);
+  }
+
+  await storage.markEmailSent(email.id);
+  console.log(`Email ${email.id} delivered via ${result.transport}`);
+}
+
+let processing = false;
+
+/**
+ * Deliver every email that is due. Passes don't overlap: a call made while
+ * one is running returns immediately, and the running pass picks up the work.
+ */
+export async function processEmailQueue(storage: IStorage): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    let batch: Email[];
+    do {
+      batch = await storage.claimDueEmails(new Date(), BATCH_SIZE);
+      for (const email of batch) {
+        try {
+          await deliver(storage, email);
+        } catch (error) {
+          // An unexpected error, such as from storage or rendering, is treated
+          // as a failed attempt so the email doesn't stay "sending"
+          console.error(`Error delivering email ${email.id}:`, error);
+          await recordFailure(storage, email, error instanceof Error ? error.message : String(error), false)
+            .catch(recordError => console.error(`Error recording failure of email ${email.id}:`, recordError));
+        }
+      }
+    } while (batch.length === BATCH_SIZE);
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Put a failed email back on the queue for immediate delivery with a fresh
+ * set of attempts
+ */
+export async function retryFailedEmail(storage: IStorage, id: number): Promise<Email | undefined> {
+  const email = await storage.getEmailById(id);
+  if (!email) return undefined;
+
+  if (email.status !== 'failed') {
+    throw new EmailQueueError(`Only failed emails can be retried (email ${id} is ${email.status})`);
+  }
+
+  return storage.updateEmail(id, { status: 'queued', attempts: 0, nextAttemptAt: new Date() });
+}
+
+/**
+ * Start delivering queued emails in the background
+ */
+export async function startEmailQueue(storage: IStorage): Promise<void> {
+  await verifyEmailTransport();
+  
+  // Emails left "sending" were interrupted by a restart; their outcome is
+  // unknown, so send them again rather than lose them
+  const interrupted = await storage.getEmailsByStatus('sending', Number.MAX_SAFE_INTEGER);
+  for (const email of interrupted) {
+    await storage.updateEmail(email.id, { status: 'queued' });
+  }
+
+  const run = () => {
+    processEmailQueue(storage).catch(error => console.error("Error processing email queue:", error));
+  };
+
+  setInterval(run, POLL_INTERVAL_MS).unref();
+  run();
+}
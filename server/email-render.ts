@@ -0,0 +1,169 @@
+import sharp from "sharp";
+import { Project } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { EmailAttachment } from "./email-transports";
+import { jurisdiction } from "./jurisdiction";
+import { projectPoint } from "./geo";
+import { renderStaticMap } from "./static-map";
+
+// HTML email templates. Every email shares one layout; issue emails add the
+// project's photo, a map of its location, its current support and a link
+// back to its page. Images are inline parts referenced by Content-ID, or
+// data URIs when rendering a preview for the browser. The photo goes as a
+// small JPEG thumbnail rather than the original upload.
+
+// Public address of the app, for links in emails sent in the background
+const PUBLIC_URL = (process.env.PUBLIC_URL || "http://localhost:5000").replace(/\/+$/, "");
+if (!process.env.PUBLIC_URL && process.env.NODE_ENV === "production") {
+  console.warn("PUBLIC_URL is not set; links in emails will point to localhost");
+}
+
+const PRIMARY_COLOR = "#4343e5";
+
+const PHOTO_CID = "project-photo@civicvoice";
+const MAP_CID = "project-map@civicvoice";
+
+// Photo thumbnails are shown 240 pixels wide and made at twice that for
+// high-density screens
+const THUMBNAIL_WIDTH = 480;
+
+export interface RenderedEmail {
+  text: string;
+  html: string;
+  attachments: EmailAttachment[];
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Plain text as HTML paragraphs: blank lines separate paragraphs and single
+ * line breaks are kept
+ */
+export function textToHtml(text: string): string {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p style="margin:0 0 16px;">${escapeHtml(paragraph.trim()).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+/**
+ * Wrap content in the shared email layout: a header with the jurisdiction's
+ * name, the content, and an optional footer
+ */
+export function renderLayout(options: { title: string; content: string; footer?: string }): string {
+  const { title, content, footer } = options;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;">
+<tr><td align="center" style="padding:24px 12px;">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:8px;overflow:hidden;">
+<tr><td style="background:${PRIMARY_COLOR};color:#ffffff;padding:16px 24px;font-size:18px;font-weight:bold;">CivicVoice <span style="font-weight:normal;font-size:14px;">&middot; ${escapeHtml(jurisdiction.name)}</span></td></tr>
+<tr><td style="padding:24px;font-size:15px;line-height:1.5;">
+${content}
+</td></tr>
+${footer ? `<tr><td style="padding:16px 24px;background:#f9fafb;font-size:12px;line-height:1.5;color:#6b7280;">${footer}</td></tr>` : ""}
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+/**
+ * Link to a project's public page
+ */
+export function projectUrl(projectId: number): string {
+  return `${PUBLIC_URL}/projects/${projectId}`;
+}
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+// A photo scaled down to a JPEG thumbnail, or undefined if it can't be read
+async function photoThumbnail(photo: Buffer): Promise<Buffer | undefined> {
+  try {
+    return await sharp(photo)
+      .rotate()
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  } catch (error) {
+    console.warn("Could not make a thumbnail of a project photo:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Render an email about a project around the given body text. With
+ * `inlineImages: "data"` the images are embedded in the HTML, for previews,
+ * and no attachments are returned.
+ */
+export async function renderProjectEmail(
+  storage: IStorage,
+  project: Project,
+  body: string,
+  options: { inlineImages?: "cid" | "data" } = {}
+): Promise<RenderedEmail> {
+  const embed = options.inlineImages === "data";
+  const attachments: EmailAttachment[] = [];
+  const link = projectUrl(project.id);
+  const support = `${plural(project.upvotes, "upvote", "upvotes")} · ${plural(project.emailsSent, "email", "emails")} sent`;
+
+  const sections = [textToHtml(body)];
+
+  // The photo is shown as a thumbnail rather than attached as a file
+  const photo = project.photoData?.match(/^data:[A-Za-z-+/]+;base64,(.+)$/);
+  const thumbnail = photo ? await photoThumbnail(Buffer.from(photo[1], "base64")) : undefined;
+  if (thumbnail) {
+    let src = `data:image/jpeg;base64,${thumbnail.toString("base64")}`;
+    if (!embed) {
+      attachments.push({ filename: "issue-photo.jpg", content: thumbnail, contentType: "image/jpeg", cid: PHOTO_CID });
+      src = `cid:${PHOTO_CID}`;
+    }
+    sections.push(`<p style="margin:0 0 16px;"><img src="${src}" width="240" alt="Photo of the issue" style="display:block;max-width:240px;height:auto;border-radius:4px;border:1px solid #e5e7eb;"></p>`);
+  }
+
+  const map = await renderStaticMap(projectPoint(project), await storage.getDepartments());
+  let mapSrc = `data:image/png;base64,${map.toString("base64")}`;
+  if (!embed) {
+    attachments.push({ filename: "issue-map.png", content: map, contentType: "image/png", cid: MAP_CID });
+    mapSrc = `cid:${MAP_CID}`;
+  }
+  sections.push(
+    `<p style="margin:0 0 8px;font-size:13px;color:#6b7280;">Location: ${escapeHtml(project.location)}</p>` +
+    `<p style="margin:0 0 16px;"><img src="${mapSrc}" width="552" alt="Map of ${escapeHtml(project.location)}" style="display:block;width:100%;max-width:552px;height:auto;border-radius:4px;border:1px solid #e5e7eb;"></p>`
+  );
+
+  sections.push(
+    `<p style="margin:0 0 16px;font-size:13px;color:#374151;">Community support so far: <strong>${escapeHtml(support)}</strong></p>` +
+    `<p style="margin:0;"><a href="${escapeHtml(link)}" style="display:inline-block;background:${PRIMARY_COLOR};color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:6px;font-weight:bold;">View this issue on CivicVoice</a></p>`
+  );
+
+  const html = renderLayout({
+    title: project.emailSubject,
+    content: sections.join("\n"),
+    footer: `Sent through CivicVoice by residents of ${escapeHtml(jurisdiction.name)} about <a href="${escapeHtml(link)}" style="color:#6b7280;">${escapeHtml(project.title)}</a>.`
+  });
+
+  const text = `${body.trim()}\n\n--\nCommunity support so far: ${support}\nView this issue: ${link}\n`;
+
+  return { text, html, attachments };
+}
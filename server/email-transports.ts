@@ -0,0 +1,242 @@
+import nodemailer from 'nodemailer';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+
+// Email transports: the ways an outbound message can leave the app. One is
+// selected with EMAIL_TRANSPORT and its settings are validated at startup.
+
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+  encoding?: string;
+  // Content-ID for images shown inline in the HTML part
+  cid?: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  fromName?: string;
+  replyTo?: string[];
+  to: string;
+  cc?: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  // Identifies the transport in send results and logs
+  readonly name: string;
+  // Deliver a message, throwing if it was not accepted
+  send(message: EmailMessage): Promise<{ messageId?: string }>;
+  // Check the transport is reachable and its credentials work
+  verify?(): Promise<void>;
+}
+
+function fromHeader(message: EmailMessage) {
+  return message.fromName ? { name: message.fromName, address: message.from } : message.from;
+}
+
+// Render a message as RFC 822 text without sending it
+const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+async function renderMessage(message: EmailMessage): Promise<{ raw: Buffer; messageId: string }> {
+  const info = await composer.sendMail({ ...message, from: fromHeader(message) });
+  return { raw: info.message as Buffer, messageId: info.messageId };
+}
+
+/**
+ * Sends through an SMTP server with nodemailer
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user: string; password: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: { user: options.user, pass: options.password }
+    });
+  }
+
+  async send(message: EmailMessage) {
+    const info = await this.transporter.sendMail({ ...message, from: fromHeader(message) });
+    return { messageId: info.messageId };
+  }
+
+  async verify() {
+    await this.transporter.verify();
+  }
+}
+
+/**
+ * Posts messages as JSON to an HTTP email API, in the style of SendGrid or
+ * Mailgun. The body is { from: { email, name }, replyTo: [addresses], to,
+ * cc: [addresses], subject, text, html, attachments: [{ filename, content (base64),
+ * contentType, contentId }] } and the key is sent as a bearer token. A message id is
+ * read from the response's `id` or `messageId` field when present.
+ */
+export class HttpApiTransport implements EmailTransport {
+  readonly name = 'http';
+
+  constructor(private options: { url: string; apiKey: string }) {}
+
+  async send(message: EmailMessage) {
+    const response = await fetch(this.options.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.options.apiKey}`
+      },
+      body: JSON.stringify({
+        from: { email: message.from, name: message.fromName },
+        replyTo: message.replyTo,
+        to: message.to,
+        cc: message.cc,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments.map(attachment => ({
+          filename: attachment.filename,
+          content: Buffer.isBuffer(attachment.content)
+            ? attachment.content.toString('base64')
+            : Buffer.from(attachment.content, (attachment.encoding as BufferEncoding) || 'utf8').toString('base64'),
+          contentType: attachment.contentType,
+          contentId: attachment.cid
+        }))
+      })
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Email API responded ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    const result = await response.json().catch(() => ({}));
+    return { messageId: result.id ?? result.messageId };
+  }
+}
+
+/**
+ * Writes messages to disk instead of sending them: one .eml file per message,
+ * or appended to a single outbox.mbox
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private options: { dir: string; format: 'eml' | 'mbox' }) {}
+
+  async send(message: EmailMessage) {
+    const { raw, messageId } = await renderMessage(message);
+    await fs.mkdir(this.options.dir, { recursive: true });
+
+    if (this.options.format === 'mbox') {
+      // mboxrd: quote body lines that would look like a message separator
+      const body = raw.toString().replace(/^(>*From )/gm, '>$1');
+      const separator = `From ${message.from} ${new Date().toUTCString()}`;
+      await fs.appendFile(path.join(this.options.dir, 'outbox.mbox'), `${separator}\n${body}\n\n`);
+    } else {
+      const filename = `${Date.now()}-${messageId.replace(/[^A-Za-z0-9.-]/g, '')}.eml`;
+      await fs.writeFile(path.join(this.options.dir, filename), raw);
+    }
+
+    return { messageId };
+  }
+
+  async verify() {
+    await fs.mkdir(this.options.dir, { recursive: true });
+    await fs.access(this.options.dir, fs.constants.W_OK);
+  }
+}
+
+/**
+ * Logs messages to the console, for development
+ */
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage) {
+    console.log('\n--- EMAIL WOULD BE SENT ---');
+    console.log(`From: ${message.fromName ? `${message.fromName} <${message.from}>` : message.from}`);
+    if (message.replyTo?.length) {
+      console.log(`Reply-To: ${message.replyTo.join(', ')}`);
+    }
+    console.log(`To: ${message.to}`);
+    if (message.cc?.length) {
+      console.log(`Cc: ${message.cc.join(', ')}`);
+    }
+    console.log(`Subject: ${message.subject}`);
+    console.log(`Attachments: ${message.attachments.length} files`);
+    if (message.attachments.length) {
+      console.log(`Attachment filenames: ${message.attachments.map(a => a.filename).join(', ')}`);
+    }
+    console.log(`\nBody:\n${message.text}`);
+    console.log('--- END OF EMAIL ---\n');
+
+    return {};
+  }
+}
+
+const transportConfigSchema = z.discriminatedUnion('EMAIL_TRANSPORT', [
+  z.object({
+    EMAIL_TRANSPORT: z.literal('smtp'),
+    EMAIL_HOST: z.string().min(1),
+    EMAIL_PORT: z.coerce.number().int().positive().default(587),
+    EMAIL_SECURE: z.enum(['true', 'false']).default('false'),
+    EMAIL_USER: z.string().min(1),
+    EMAIL_PASSWORD: z.string().min(1),
+  }),
+  z.object({
+    EMAIL_TRANSPORT: z.literal('http'),
+    EMAIL_API_URL: z.string().url(),
+    EMAIL_API_KEY: z.string().min(1),
+  }),
+  z.object({
+    EMAIL_TRANSPORT: z.literal('file'),
+    EMAIL_OUTBOX_DIR: z.string().min(1).default('./data/outbox'),
+    EMAIL_OUTBOX_FORMAT: z.enum(['eml', 'mbox']).default('eml'),
+  }),
+  z.object({
+    EMAIL_TRANSPORT: z.literal('console'),
+  }),
+]);
+
+/**
+ * Create the transport selected by EMAIL_TRANSPORT ("smtp", "http", "file" or
+ * "console"). When unset, SMTP is used in production if EMAIL_HOST is set and
+ * the console otherwise. Throws if the selected transport's settings are
+ * missing or invalid.
+ */
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const selected = env.EMAIL_TRANSPORT
+    || (env.NODE_ENV === 'production' && env.EMAIL_HOST ? 'smtp' : 'console');
+
+  const parsed = transportConfigSchema.safeParse({ ...env, EMAIL_TRANSPORT: selected });
+  if (!parsed.success) {
+    throw new Error(`Invalid email transport configuration: ${fromZodError(parsed.error).message}`);
+  }
+
+  const config = parsed.data;
+  switch (config.EMAIL_TRANSPORT) {
+    case 'smtp':
+      return new SmtpTransport({
+        host: config.EMAIL_HOST,
+        port: config.EMAIL_PORT,
+        secure: config.EMAIL_SECURE === 'true',
+        user: config.EMAIL_USER,
+        password: config.EMAIL_PASSWORD
+      });
+    case 'http':
+      return new HttpApiTransport({ url: config.EMAIL_API_URL, apiKey: config.EMAIL_API_KEY });
+    case 'file':
+      return new FileTransport({ dir: config.EMAIL_OUTBOX_DIR, format: config.EMAIL_OUTBOX_FORMAT });
+    case 'console':
+      return new ConsoleTransport();
+  }
+}
@@ -1,75 +1,72 @@
-import nodemailer from 'nodemailer';
+import { createEmailTransport, type EmailAttachment } from './email-transports';
+import { renderLayout, textToHtml } from './email-render';
 
-// Email configuration using environment variables with fallbacks
-const emailConfig = {
-  host: process.env.EMAIL_HOST || 'smtp.example.com',
-  port: process.env.EMAIL_PORT ? parseInt(process.env.EMAIL_PORT) : 587,
-  secure: process.env.EMAIL_SECURE === 'true',
-  auth: {
-    user: process.env.EMAIL_USER || 'dummy_user',
-    pass: process.env.EMAIL_PASSWORD || 'dummy_password'
-  }
-};
+// Transport selected and validated at startup (see createEmailTransport)
+const transport = createEmailTransport();
+console.log(`Email transport: ${transport.name}`);
+
+// Every message is sent from the platform's own address, which the city's
+// mail servers can check with SPF/DMARC. Supporters appear in the display
+// name and, once they have confirmed their address, in Reply-To.
+export const EMAIL_FROM = process.env.EMAIL_FROM || 'noreply@civicvoice.org';
+const EMAIL_FROM_NAME = process.env.EMAIL_FROM_NAME || 'CivicVoice';
 
-// Create reusable transporter using SMTP transport
-const transporter = nodemailer.createTransport(emailConfig);
+if (!normalizeEmail(EMAIL_FROM)) {
+  throw new Error(`EMAIL_FROM must be a valid email address, got "${EMAIL_FROM}"`);
+}
 
-// For development, we'll simulate email sending by default
-const SIMULATE_EMAIL_SENDING = process.env.NODE_ENV !== 'production' || !process.env.EMAIL_HOST;
+/**
+ * Check the email transport can deliver, logging rather than failing so a
+ * temporarily unreachable server doesn't stop the app from starting
+ */
+export async function verifyEmailTransport(): Promise<void> {
+  if (!transport.verify) return;
+  
+  try {
+    await transport.verify();
+  } catch (error) {
+    console.warn(`Email transport "${transport.name}" failed verification:`, error instanceof Error ? error.message : error);
+  }
+}
 
 /**
- * Send an email using either real SMTP or simulated email sending
+ * Send an email from the platform address through the configured transport.
+ * `onBehalfOf` names the supporter in the From display name; `replyTo` may
+ * only hold platform addresses and addresses their owners have confirmed.
+ * The result names the transport that handled the message.
  */
 export async function sendEmail(options: {
-  from: string;
   to: string;
+  cc?: string[];
   subject: string;
   text: string;
   html?: string;
-  senderName?: string;
-  attachments?: Array<{
-    filename: string;
-    content: string | Buffer;
-    contentType?: string;
-    encoding?: string;
-  }>;
-}): Promise<{ success: boolean; message: string }> {
-  const { from, to, subject, text, html, senderName, attachments } = options;
+  onBehalfOf?: string;
+  replyTo?: string[];
+  attachments?: EmailAttachment[];
+}): Promise<{ success: boolean; message: string; transport: string; messageId?: string }> {
+  const { to, cc, subject, text, html, onBehalfOf, replyTo, attachments } = options;
   
   try {
-    if (SIMULATE_EMAIL_SENDING) {
-      // Just log the email content to console for development purposes
-      console.log('\n--- EMAIL WOULD BE SENT ---');
-      console.log(`From: ${senderName ? `${senderName} <${from}>` : from}`);
-      console.log(`To: ${to}`);
-      console.log(`Subject: ${subject}`);
-      console.log(`Attachments: ${attachments ? attachments.length : 0} files`);
-      if (attachments?.length) {
-        console.log(`Attachment filenames: ${attachments.map(a => a.filename).join(', ')}`);
-      }
-      console.log(`\nBody:\n${text}`);
-      console.log('--- END OF EMAIL ---\n');
-      
-      return { success: true, message: 'Email simulation successful' };
-    } else {
-      // Actually send the email in production
-      const mailOptions = {
-        from: senderName ? `${senderName} <${from}>` : from,
-        to: to,
-        subject: subject,
-        text: text,
-        html: html || text.replace(/\n/g, '<br>'),
-        attachments: attachments || []
-      };
-      
-      await transporter.sendMail(mailOptions);
-      return { success: true, message: 'Email sent successfully' };
-    }
+    const { messageId } = await transport.send({
+      from: EMAIL_FROM,
+      fromName: onBehalfOf ? `${EMAIL_FROM_NAME} on behalf of ${onBehalfOf}` : EMAIL_FROM_NAME,
+      replyTo,
+      to,
+      cc,
+      subject,
+      text,
+      html: html || renderLayout({ title: subject, content: textToHtml(text) }),
+      attachments: attachments || []
+    });
+    
+    return { success: true, message: `Email sent via ${transport.name}`, transport: transport.name, messageId };
   } catch (error) {
-    console.error('Error sending email:', error);
+    console.error(`Error sending email via ${transport.name}:`, error);
     return { 
       success: false, 
-      message: `Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`
+      message: `Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      transport: transport.name
     };
   }
 }
@@ -0,0 +1,216 @@
+import { Department, EscalationRule, EscalationSchedule, Project } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { normalizeEmail, sendEmail } from "./email";
+import { canEmailRecipient } from "./recipient-policy";
+import { projectReplyAddress } from "./inbound-email";
+import { renderProjectEmail } from "./email-render";
+import { isOfficialStatus } from "./progress";
+import { isWithinPolygon, projectPoint } from "./geo";
+
+// Escalation of projects officials don't answer. Each department can list
+// contacts to copy in after a number of days without an official response,
+// such as the department head after 14 days and the district's council
+// member after 30. The clock starts when the first email or digest reaches
+// the recipient, and stops for good once an official replies. The project's
+// creator or a moderator can pause it.
+
+// How often projects are checked for escalations that are due
+const CHECK_INTERVAL_MS = process.env.ESCALATION_CHECK_INTERVAL_MS
+  ? parseInt(process.env.ESCALATION_CHECK_INTERVAL_MS)
+  : 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type EscalationStep = EscalationSchedule["steps"][number];
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+/**
+ * The department a project's emails go to, if its recipient is in the directory
+ */
+export function departmentFor(project: Project, departments: Department[]): Department | undefined {
+  const recipient = normalizeEmail(project.emailRecipient);
+  return departments.find(department => normalizeEmail(department.email) === recipient);
+}
+
+// A department's rules that apply to the project's location, earliest first
+function applicableRules(project: Project, department: Department | undefined): EscalationRule[] {
+  if (!department) return [];
+  const point = projectPoint(project);
+  return department.escalationRules
+    .filter(rule => !rule.area || isWithinPolygon(point, rule.area))
+    .sort((a, b) => a.afterDays - b.afterDays);
+}
+
+/**
+ * A project's escalation steps, with when each is due and whether it was
+ * sent. Escalations sent under rules that were since removed are listed too.
+ */
+export async function getEscalationSchedule(storage: IStorage, project: Project): Promise<EscalationSchedule> {
+  const department = departmentFor(project, await storage.getDepartments());
+  const rules = project.mergedIntoId == null ? applicableRules(project, department) : [];
+  const sent = await storage.getEscalationsByProject(project.id);
+  const startedAt = (await storage.getFirstDeliveryAt(project.id)) ?? null;
+
+  const sentFor = (afterDays: number, email: string) => sent.find(escalation =>
+    escalation.afterDays === afterDays && normalizeEmail(escalation.recipientEmail) === normalizeEmail(email)
+  );
+
+  const steps: EscalationStep[] = rules.map(rule => ({
+    afterDays: rule.afterDays,
+    name: rule.name,
+    email: rule.email,
+    dueAt: startedAt ? new Date(startedAt.getTime() + rule.afterDays * DAY_MS) : null,
+    sentAt: sentFor(rule.afterDays, rule.email)?.sentAt ?? null
+  }));
+  for (const escalation of sent) {
+    if (!rules.some(rule => sentFor(rule.afterDays, rule.email) === escalation)) {
+      steps.push({
+        afterDays: escalation.afterDays,
+        name: escalation.recipientName,
+        email: escalation.recipientEmail,
+        dueAt: null,
+        sentAt: escalation.sentAt
+      });
+    }
+  }
+  steps.sort((a, b) => a.afterDays - b.afterDays);
+
+  let state: EscalationSchedule["state"];
+  if (rules.length === 0) {
+    state = 'none';
+  } else if (isOfficialStatus(project.progressStatus) || (await storage.getOfficialResponsesByProject(project.id)).length > 0) {
+    state = 'responded';
+  } else if (project.escalationPaused) {
+    state = 'paused';
+  } else if (!startedAt) {
+    state = 'waiting';
+  } else {
+    state = 'active';
+  }
+
+  return { state, startedAt, steps };
+}
+
+/**
+ * Subject and body of an escalation: how long residents have waited, who is
+ * being copied in and the original request
+ */
+export function composeEscalation(
+  project: Project,
+  step: EscalationStep,
+  startedAt: Date,
+  now: Date
+): { subject: string; text: string } {
+  const daysWaiting = Math.floor((now.getTime() - startedAt.getTime()) / DAY_MS);
+
+  const sections = [
+    `Residents first wrote to ${project.emailRecipient} about the issue below ${plural(daysWaiting, "day", "days")} ago, ` +
+    `and no official response has been received. ` +
+    `${plural(project.emailsSent, "resident has", "residents have")} written about or signed for it so far.`,
+    `${step.name} is copied in so the issue can get the attention it needs.` +
+    (projectReplyAddress(project.id) ? " Replies to this email are shared on the issue's public page." : ""),
+    `The original request:\n\n${project.emailTemplate}`,
+    `--\nThis escalation was sent by CivicVoice after ${plural(step.afterDays, "day", "days")} without an official response.`
+  ];
+
+  return {
+    subject: `Escalated: ${project.emailSubject}`,
+    text: sections.join('\n\n')
+  };
+}
+
+// Send one escalation and record it, returning whether it went out
+async function sendEscalation(
+  storage: IStorage,
+  project: Project,
+  step: EscalationStep,
+  startedAt: Date,
+  now: Date
+): Promise<boolean> {
+  const escalation = composeEscalation(project, step, startedAt, now);
+  const { text, html, attachments } = await renderProjectEmail(storage, project, escalation.text);
+  const replyAddress = projectReplyAddress(project.id);
+
+  const result = await sendEmail({
+    to: project.emailRecipient,
+    cc: [step.email],
+    subject: escalation.subject,
+    text,
+    html,
+    attachments,
+    replyTo: replyAddress ? [replyAddress] : undefined
+  });
+
+  if (!result.success) {
+    console.warn(`Escalation of project ${project.id} to ${step.email} failed, will retry: ${result.message}`);
+    return false;
+  }
+
+  const department = departmentFor(project, await storage.getDepartments());
+  await storage.createEscalation({
+    projectId: project.id,
+    departmentId: department?.id ?? null,
+    afterDays: step.afterDays,
+    recipientName: step.name,
+    recipientEmail: step.email
+  });
+
+  await storage.createActivity({
+    projectId: project.id,
+    activityType: 'escalated',
+    actorName: 'CivicVoice',
+    description: `Escalated to ${step.name} after ${plural(step.afterDays, "day", "days")} without an official response: ${project.title}`
+  });
+
+  console.log(`Escalation of project ${project.id} to ${step.email} delivered via ${result.transport}`);
+  return true;
+}
+
+let processing = false;
+
+/**
+ * Send every escalation that is due. Passes don't overlap.
+ */
+export async function processEscalations(storage: IStorage, now = new Date()): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    const projects = await storage.getAllProjects();
+
+    for (const project of projects) {
+      if (project.mergedIntoId != null || !canEmailRecipient(project)) continue;
+
+      // One project's failure mustn't hold up the others' escalations. Its
+      // later steps wait for the next run.
+      try {
+        const schedule = await getEscalationSchedule(storage, project);
+        if (schedule.state !== 'active') continue;
+
+        for (const step of schedule.steps) {
+          if (step.sentAt || !step.dueAt || step.dueAt > now) continue;
+          await sendEscalation(storage, project, step, schedule.startedAt!, now);
+        }
+      } catch (error) {
+        console.error(`Error escalating project ${project.id}:`, error);
+      }
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Check for due escalations in the background
+ */
+export function startEscalationScheduler(storage: IStorage): void {
+  const run = () => {
+    processEscalations(storage).catch(error => console.error("Error sending escalations:", error));
+  };
+
+  setInterval(run, CHECK_INTERVAL_MS).unref();
+  run();
+}
@@ -0,0 +1,78 @@
+import { GeoBounds, GeoPoint, Project, ProjectWithDistance } from "@shared/schema";
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+// Length of one degree of latitude; a degree of longitude shrinks with cos(latitude)
+export const METERS_PER_DEGREE = 111320;
+
+// Search radius used when a query gives a point but no radius
+export const DEFAULT_RADIUS_METERS = 1000;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance between two points using the haversine formula
+ */
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Smallest bounding box containing the circle of the given radius around a point
+ */
+export function boundsAround(center: GeoPoint, radiusMeters: number): GeoBounds {
+  const latDelta = radiusMeters / METERS_PER_DEGREE;
+  const lngDelta = radiusMeters / (METERS_PER_DEGREE * Math.max(Math.cos(toRadians(center.lat)), 0.01));
+  
+  return {
+    west: center.lng - lngDelta,
+    south: center.lat - latDelta,
+    east: center.lng + lngDelta,
+    north: center.lat + latDelta
+  };
+}
+
+export function boundsCenter(bounds: GeoBounds): GeoPoint {
+  return {
+    lat: (bounds.south + bounds.north) / 2,
+    lng: (bounds.west + bounds.east) / 2
+  };
+}
+
+export function isWithinBounds(point: GeoPoint, bounds: GeoBounds): boolean {
+  return point.lat >= bounds.south && point.lat <= bounds.north &&
+    point.lng >= bounds.west && point.lng <= bounds.east;
+}
+
+/**
+ * Whether a point lies inside a polygon given as [lat, lng] vertices (ray casting)
+ */
+export function isWithinPolygon(point: GeoPoint, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    const crosses = (latI > point.lat) !== (latJ > point.lat) &&
+      point.lng < (lngJ - lngI) * (point.lat - latI) / (latJ - latI) + lngI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+export function projectPoint(project: Project): GeoPoint {
+  return { lat: project.latitude, lng: project.longitude };
+}
+
+/**
+ * Annotate projects with their distance from a point, nearest first
+ */
+export function withDistances(projects: Project[], center: GeoPoint): ProjectWithDistance[] {
+  return projects
+    .map(project => ({ ...project, distanceMeters: Math.round(distanceMeters(center, projectPoint(project))) }))
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+}
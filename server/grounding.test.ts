@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkGrounding } from "./grounding";
+
+// What the user submitted for a pothole report
+const sources = [
+  "pothole",
+  "Main St & 4th Ave",
+  "Deep hole near the bus stop, about 2 feet wide. Cars swerve into the bike lane to avoid it.",
+  "Transportation Department"
+];
+
+const groundedBody = `Dear Transportation Department,
+
+I'm writing about a pothole at Main St & 4th Ave that needs your attention.
+
+There is a deep hole near the bus stop, about 2 feet wide. Cars swerve into the bike lane to avoid it, and this could cause an accident.
+
+Could someone from your office look into this matter?
+
+Thanks for your consideration,
+[Your Name]`;
+
+function warningTexts(body: string, options: { urgent?: boolean } = {}) {
+  return checkGrounding({ body }, sources, options).warnings.map(({ kind, text }) => ({ kind, text }));
+}
+
+test("an email that sticks to the submitted details has no warnings", () => {
+  const check = checkGrounding({ subject: "Pothole at Main St & 4th Ave", body: groundedBody }, sources);
+  assert.deepEqual(check.warnings, []);
+  assert.equal(check.groundedBody, groundedBody);
+});
+
+test("invented numbers and dates are flagged", () => {
+  assert.deepEqual(warningTexts("The hole is 6 feet deep. It opened last winter."), [
+    { kind: "number", text: "6" },
+    { kind: "date", text: "last winter" }
+  ]);
+});
+
+test("invented names and places are flagged", () => {
+  assert.deepEqual(warningTexts("Officer Smith saw it too. The same thing happened near Lincoln Elementary."), [
+    { kind: "name", text: "Officer Smith" },
+    { kind: "place", text: "Lincoln Elementary" }
+  ]);
+});
+
+test("invented stories and incidents are flagged, but hedged risks aren't", () => {
+  assert.deepEqual(warningTexts("My daughter tripped here. Several residents have complained."), [
+    { kind: "claim", text: "My daughter" },
+    { kind: "claim", text: "tripped" },
+    { kind: "claim", text: "Several residents" }
+  ]);
+  assert.deepEqual(warningTexts("This could cause an accident before it's fixed."), []);
+});
+
+test("urgency is flagged unless the report is urgent", () => {
+  assert.deepEqual(warningTexts("This needs immediate repair."), [{ kind: "urgency", text: "immediate" }]);
+  assert.deepEqual(warningTexts("This needs immediate repair.", { urgent: true }), []);
+});
+
+test("placeholders aren't checked", () => {
+  assert.deepEqual(warningTexts("Thanks,\n[Your Name]\n[Your Phone Number]"), []);
+});
+
+test("the grounded body drops flagged sentences and keeps the rest", () => {
+  const body = `Dear Transportation Department,
+
+There is a deep hole near the bus stop. It has been there since 2019. Cars swerve into the bike lane to avoid it.
+
+Thanks for your consideration,
+[Your Name]`;
+  const check = checkGrounding({ body }, sources);
+  assert.deepEqual(check.warnings.map(warning => warning.sentence), ["It has been there since 2019."]);
+  assert.equal(check.groundedBody, `Dear Transportation Department,
+
+There is a deep hole near the bus stop. Cars swerve into the bike lane to avoid it.
+
+Thanks for your consideration,
+[Your Name]`);
+});
+
+test("a flagged subject is reported", () => {
+  const check = checkGrounding({ subject: "Urgent: pothole on Main St", body: groundedBody }, sources);
+  assert.deepEqual(check.warnings.map(({ kind, text }) => ({ kind, text })), [{ kind: "urgency", text: "Urgent" }]);
+});
@@ -0,0 +1,179 @@
+import type { GroundingCheck, GroundingWarning } from "@shared/schema";
+
+// Fact-grounding for AI-written emails. The prompts ask the model to use only
+// what the user submitted, and this checks that it did: numbers, dates,
+// names, places, anecdotes and urgency in the email must appear in the
+// submitted details. Anything else is returned as a warning, along with the
+// email without the sentences that contain it. The check is lexical, so it
+// errs towards flagging; users decide what to keep.
+
+// Words that are capitalized for reasons other than being a name
+const COMMON_CAPITALIZED = new Set([
+  "i", "i'm", "i've", "i'd", "i'll", "dear", "hello", "hi", "to", "subject", "re", "thanks", "thank", "sincerely",
+  "regards", "respectfully", "best", "kind", "warm", "yours", "cordially", "please", "your", "name", "city", "county",
+  "town", "department", "office", "council", "mr", "mrs", "ms", "dr", "the", "this", "that", "these", "those", "it",
+  "we", "our", "my", "a", "an", "as", "at", "in", "on", "if", "when", "while", "there", "here", "also", "however",
+  "additionally", "unfortunately", "currently", "recently", "could", "would", "can", "will", "should", "is", "are",
+  "it's", "impact", "affected", "groups", "desired", "outcome", "proposed", "solution", "english", "translation"
+]);
+
+const STREET_SUFFIXES: Record<string, string> = {
+  st: "street", ave: "avenue", av: "avenue", rd: "road", blvd: "boulevard", dr: "drive", ln: "lane",
+  hwy: "highway", pkwy: "parkway", ct: "court", pl: "place", sq: "square", cir: "circle"
+};
+
+const PLACE_SUFFIX = /\b(?:street|avenue|road|boulevard|drive|lane|way|highway|parkway|court|place|square|circle|park|plaza|school|elementary|high|library|hospital|center|centre|station|bridge|canal|mall|st|ave|rd|blvd|dr|ln|hwy)\.?$/i;
+
+// Capitalized, so the modal "may" isn't taken for the month
+const MONTHS = "January|February|March|April|May|June|July|August|September|October|November|December";
+const WEEKDAYS = "Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday";
+const DATE_PATTERN = new RegExp(
+  `\\b(?:(?:${MONTHS})(?: \\d{1,2}(?:st|nd|rd|th)?)?(?:,? \\d{4})?|(?:[Ll]ast |[Tt]his |[Nn]ext )?(?:${WEEKDAYS})|` +
+  `[Yy]esterday|[Ll]ast (?:week|month|year|night|winter|spring|summer|fall|weekend)|\\d+ (?:days|weeks|months|years) ago|` +
+  `(?:[Ss]ince|[Ii]n) (?:19|20)\\d{2}|\\d{1,2}/\\d{1,2}(?:/\\d{2,4})?)\\b`,
+  "g"
+);
+const DATE_WORD = new RegExp(`\\b(?:${MONTHS}|${WEEKDAYS})\\b`);
+
+const NUMBER_WORDS = "two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|twenty|thirty|fifty|hundred|hundreds|thousand|thousands|dozen|dozens";
+const NUMBER_PATTERN = new RegExp(`\\b(?:\\d[\\d,.]*(?:st|nd|rd|th|%)?|${NUMBER_WORDS})\\b`, "gi");
+
+// Personal stories and incidents, which the model must not make up
+const CLAIM_PATTERNS = [
+  /\bmy (?:son|daughter|child|children|kids?|wife|husband|partner|mother|mom|father|dad|parents?|grand\w+|neighbou?rs?|family|friend)\b/gi,
+  /\b(?:several|many|multiple|numerous|countless|dozens of|hundreds of) (?:\w+ )?(?:residents|people|neighbou?rs|complaints|accidents|incidents|injuries|children|drivers|pedestrians|cyclists)\b/gi,
+  /\b(?:accidents?|crash(?:es|ed)?|collisions?|injur(?:y|ies|ed)|fell|tripped|was hit|were hit|near[- ]miss(?:es)?)\b/gi
+];
+// Hedged risks ("this could cause an accident") aren't claims
+const HEDGE = /\b(?:could|may|might|risk|potential(?:ly)?|before|prevent|avoid|possible|likely)\b[^.!?]*$/i;
+
+const URGENCY_PATTERN = /\b(?:urgent(?:ly)?|emergency|immediate(?:ly)?|life[- ]threatening|as soon as possible|asap)\b/gi;
+
+function normalizeWord(word: string): string {
+  const lower = word.toLowerCase().replace(/[‘’]/g, "'").replace(/[^a-z0-9'&%]/g, "");
+  return STREET_SUFFIXES[lower] ?? lower;
+}
+
+function words(text: string): string[] {
+  return text.split(/[^A-Za-z0-9'‘’&%]+/).filter(Boolean).map(normalizeWord);
+}
+
+// Whether every significant word of a phrase appears in the sources
+function isSupported(phrase: string, sourceWords: Set<string>, sourceText: string): boolean {
+  if (sourceText.includes(phrase.toLowerCase())) return true;
+  const significant = words(phrase).filter(word => !COMMON_CAPITALIZED.has(word));
+  return significant.length > 0 && significant.every(word => sourceWords.has(word) || sourceWords.has(word.replace(/s$/, "")));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap(line => line.split(/(?<=[.!?])\s+(?=[A-Z"“(¿¡])/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+// Runs of capitalized words, like "Central High School" or "Officer Smith"
+function capitalizedPhrases(sentence: string): { phrase: string; index: number }[] {
+  const phrases: { phrase: string; index: number }[] = [];
+  const pattern = /\b[A-Z][A-Za-z'’.-]*(?:\s+(?:of|de|del|la|&)?\s*[A-Z][A-Za-z'’.-]*)*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(sentence))) {
+    let phrase = match[0].replace(/[.]+$/, "");
+    let index = match.index;
+    // A sentence's first word is capitalized anyway, so on its own it's
+    // only a name if it continues into one
+    if (/^[\s"“(¿¡]*$/.test(sentence.slice(0, index))) {
+      const [first, ...rest] = phrase.split(/\s+/);
+      if (rest.length === 0) continue;
+      if (COMMON_CAPITALIZED.has(normalizeWord(first))) {
+        phrase = rest.join(" ");
+        index += match[0].indexOf(rest[0], first.length);
+      }
+    }
+    if (words(phrase).every(word => COMMON_CAPITALIZED.has(word))) continue;
+    phrases.push({ phrase, index });
+  }
+  return phrases;
+}
+
+function isPlace(sentence: string, phrase: string, index: number): boolean {
+  return PLACE_SUFFIX.test(phrase) || /\b(?:at|on|near|along|in|by|across from|outside|behind)\s+$/i.test(sentence.slice(0, index));
+}
+
+/**
+ * Check an email against the details it was written from. `sources` are the
+ * submitted fields, the recipient and anything else the email may mention,
+ * such as the original email for a tone rewrite. Placeholders in square
+ * brackets are ignored.
+ */
+export function checkGrounding(
+  email: { subject?: string; body: string },
+  sources: (string | null | undefined)[],
+  options: { urgent?: boolean } = {}
+): GroundingCheck {
+  const sourceText = sources.filter(Boolean).join("\n").toLowerCase().replace(/[‘’]/g, "'");
+  const sourceWords = new Set(words(sourceText));
+  const warnings: GroundingWarning[] = [];
+  const flagged = new Set<string>();
+
+  const flag = (kind: GroundingWarning["kind"], text: string, sentence: string) => {
+    flagged.add(sentence);
+    if (!warnings.some(warning => warning.kind === kind && warning.text.toLowerCase() === text.toLowerCase())) {
+      warnings.push({ kind, text, sentence });
+    }
+  };
+
+  const check = (sentence: string) => {
+    const text = sentence.replace(/\[[^\]]*\]/g, " ");
+
+    for (const match of Array.from(text.matchAll(DATE_PATTERN))) {
+      if (!isSupported(match[0], sourceWords, sourceText)) flag("date", match[0], sentence);
+    }
+
+    const dates = Array.from(text.matchAll(DATE_PATTERN)).map(match => match[0]).join(" ");
+    for (const match of Array.from(text.matchAll(NUMBER_PATTERN))) {
+      const number = match[0].replace(/[.,]+$/, "");
+      if (dates.includes(number)) continue;
+      if (!sourceWords.has(normalizeWord(number)) && !sourceText.includes(number.toLowerCase())) flag("number", number, sentence);
+    }
+
+    for (const { phrase, index } of capitalizedPhrases(text)) {
+      // Dates are checked above
+      if (DATE_WORD.test(phrase)) continue;
+      if (!isSupported(phrase, sourceWords, sourceText)) {
+        flag(isPlace(text, phrase, index) ? "place" : "name", phrase, sentence);
+      }
+    }
+
+    for (const pattern of CLAIM_PATTERNS) {
+      for (const match of Array.from(text.matchAll(pattern))) {
+        if (HEDGE.test(text.slice(0, match.index))) continue;
+        if (!isSupported(match[0], sourceWords, sourceText)) flag("claim", match[0], sentence);
+      }
+    }
+
+    if (!options.urgent) {
+      for (const match of Array.from(text.matchAll(URGENCY_PATTERN))) {
+        if (!sourceText.includes(match[0].toLowerCase())) flag("urgency", match[0], sentence);
+      }
+    }
+  };
+
+  if (email.subject) check(email.subject);
+  for (const sentence of splitSentences(email.body)) check(sentence);
+
+  // The body without flagged sentences, keeping its paragraphs
+  const groundedBody = email.body
+    .split(/\n/)
+    .map(line => {
+      if (!line.trim()) return line;
+      const kept = line.trim().split(/(?<=[.!?])\s+(?=[A-Z"“(¿¡])/).filter(sentence => !flagged.has(sentence.trim()));
+      return kept.length > 0 ? kept.join(" ") : null;
+    })
+    .filter((line): line is string => line !== null)
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n");
+
+  return { warnings, groundedBody };
+}
@@ -0,0 +1,71 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+
+// Modules read their configuration when imported
+process.env.STORAGE_BACKEND = "memory";
+process.env.INBOUND_EMAIL_SECRET = "inbound-test-secret";
+
+let server: Server;
+let baseUrl: string;
+let reply: (messageId: string) => string;
+
+before(async () => {
+  const { default: express } = await import("express");
+  const { registerRoutes } = await import("./routes");
+  const { storage } = await import("./storage");
+  const { projectReplyAddress } = await import("./inbound-email");
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const [project] = await storage.getAllProjects();
+  reply = (messageId) => [
+    `From: Streets <${project.emailRecipient}>`,
+    `To: ${projectReplyAddress(project.id)}`,
+    "Subject: Re: your report",
+    `Message-ID: <${messageId}@city.example>`,
+    "",
+    "We've scheduled a crew."
+  ].join("\r\n");
+});
+
+after(() => {
+  server.close();
+});
+
+function postReply(messageId: string, options: { bearer?: string; key?: string }): Promise<Response> {
+  return fetch(`${baseUrl}/api/inbound-email${options.key ? `?key=${options.key}` : ""}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "message/rfc822",
+      ...(options.bearer ? { Authorization: `Bearer ${options.bearer}` } : {})
+    },
+    body: reply(messageId)
+  });
+}
+
+test("the webhook accepts the secret as a bearer token", async () => {
+  const response = await postReply("bearer", { bearer: "inbound-test-secret" });
+  assert.equal(response.status, 201);
+  assert.equal((await response.json()).body, "We've scheduled a crew.");
+});
+
+test("the webhook accepts the secret as ?key=", async () => {
+  const response = await postReply("key", { key: "inbound-test-secret" });
+  assert.equal(response.status, 201);
+});
+
+test("the webhook refuses a wrong bearer token", async () => {
+  const response = await postReply("wrong", { bearer: "not-the-secret" });
+  assert.equal(response.status, 401);
+});
+
+test("the webhook refuses a request without the secret", async () => {
+  const response = await postReply("missing", {});
+  assert.equal(response.status, 401);
+});
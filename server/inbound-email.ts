@@ -0,0 +1,248 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { simpleParser, type AddressObject } from "mailparser";
+import { SMTPServer } from "smtp-server";
+import { OfficialResponse, Project } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { EMAIL_FROM, normalizeEmail } from "./email";
+import { isRecipientAllowed, recordSecurityEvent } from "./recipient-policy";
+import { acknowledgedStatus } from "./progress";
+
+// Inbound email: officials' replies to supporters' emails. Each outgoing
+// email carries a Reply-To plus-address tagged with its project and signed,
+// e.g. replies+p12-3f9c0a1b2d4e5f60@civicvoice.org. Replies reach the app as
+// raw RFC 822 messages, through the webhook or the local SMTP listener, and
+// are stored as official responses, acknowledging the project.
+// INBOUND_EMAIL_SECRET enables all of this; it signs the tags and
+// authenticates the webhook.
+
+const INBOUND_EMAIL_SECRET = process.env.INBOUND_EMAIL_SECRET;
+
+// Mailbox whose plus-addresses receive replies; defaults to the From address
+const INBOUND_EMAIL_ADDRESS = process.env.INBOUND_EMAIL_ADDRESS || EMAIL_FROM;
+
+// Optional SMTP listener, for local testing or an MTA on the same host.
+// It has no authentication, so it only listens on localhost by default.
+const INBOUND_SMTP_PORT = process.env.INBOUND_SMTP_PORT
+  ? parseInt(process.env.INBOUND_SMTP_PORT)
+  : undefined;
+const INBOUND_SMTP_HOST = process.env.INBOUND_SMTP_HOST || '127.0.0.1';
+
+if (INBOUND_EMAIL_SECRET && !normalizeEmail(INBOUND_EMAIL_ADDRESS)) {
+  throw new Error(`INBOUND_EMAIL_ADDRESS must be a valid email address, got "${INBOUND_EMAIL_ADDRESS}"`);
+}
+
+/**
+ * A message that can't be recorded as an official response. Retrying it
+ * won't help, so senders should not redeliver it.
+ */
+export class InboundEmailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InboundEmailError";
+  }
+}
+
+export function isInboundEmailEnabled(): boolean {
+  return !!INBOUND_EMAIL_SECRET;
+}
+
+/**
+ * Check a webhook caller's credential against INBOUND_EMAIL_SECRET
+ */
+export function isInboundSecret(candidate: string | undefined): boolean {
+  if (!INBOUND_EMAIL_SECRET || !candidate) return false;
+  const expected = Buffer.from(INBOUND_EMAIL_SECRET);
+  const actual = Buffer.from(candidate);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function tagSignature(projectId: number): string {
+  return createHmac('sha256', INBOUND_EMAIL_SECRET!).update(`project:${projectId}`).digest('hex').slice(0, 16);
+}
+
+function splitAddress(address: string): [string, string] {
+  const at = address.lastIndexOf('@');
+  return [address.slice(0, at), address.slice(at + 1)];
+}
+
+/**
+ * The tagged address officials' replies about a project should go to, or
+ * undefined when inbound email is disabled
+ */
+export function projectReplyAddress(projectId: number): string | undefined {
+  if (!INBOUND_EMAIL_SECRET) return undefined;
+
+  const [local, domain] = splitAddress(INBOUND_EMAIL_ADDRESS);
+  return `${local}+p${projectId}-${tagSignature(projectId)}@${domain}`;
+}
+
+// The project a tagged reply address belongs to, if its signature is valid
+function projectIdFromAddress(address: string): number | undefined {
+  const [inboxLocal, inboxDomain] = splitAddress(INBOUND_EMAIL_ADDRESS.toLowerCase());
+  const [local, domain] = splitAddress(address.toLowerCase());
+  if (domain !== inboxDomain) return undefined;
+
+  const match = local.match(/^(.+)\+p(\d+)-([0-9a-f]{16})$/);
+  if (!match || match[1] !== inboxLocal) return undefined;
+
+  const projectId = parseInt(match[2]);
+  const signature = Buffer.from(match[3]);
+  const expected = Buffer.from(tagSignature(projectId));
+  return timingSafeEqual(signature, expected) ? projectId : undefined;
+}
+
+function addresses(field: AddressObject | AddressObject[] | undefined): string[] {
+  if (!field) return [];
+  return (Array.isArray(field) ? field : [field])
+    .flatMap(group => group.value)
+    .map(entry => entry.address)
+    .filter((address): address is string => !!address);
+}
+
+function headerAddresses(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (value && typeof value === 'object' && 'value' in value) return addresses(value as AddressObject);
+  return [];
+}
+
+/**
+ * Drop the quoted original from a reply: everything from an "On ... wrote:"
+ * or "Original Message" line, or a trailing block of "> " lines
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const quoteStart = lines.findIndex(line =>
+    /^On .+ wrote:\s*$/.test(line.trim()) || /^-{2,}\s*Original Message\s*-{2,}$/i.test(line.trim())
+  );
+  const kept = quoteStart >= 0 ? lines.slice(0, quoteStart) : lines;
+
+  while (kept.length > 0 && (kept[kept.length - 1].startsWith('>') || kept[kept.length - 1].trim() === '')) {
+    kept.pop();
+  }
+  return kept.join('\n').trim();
+}
+
+/**
+ * Record a raw reply as an official response on the project its reply
+ * address is tagged with, and mark the project acknowledged. Envelope
+ * recipients, when the message arrived over SMTP, are checked along with the
+ * To, Cc and delivery headers. A message seen before (by Message-ID) returns
+ * the response already stored.
+ */
+export async function ingestInboundEmail(
+  storage: IStorage,
+  raw: Buffer | string,
+  envelopeRecipients: string[] = []
+): Promise<{ response: OfficialResponse; duplicate: boolean }> {
+  if (!INBOUND_EMAIL_SECRET) {
+    throw new InboundEmailError("Inbound email is not enabled");
+  }
+
+  const message = await simpleParser(raw);
+
+  const recipients = [
+    ...envelopeRecipients,
+    ...addresses(message.to),
+    ...addresses(message.cc),
+    ...headerAddresses(message.headers.get('delivered-to')),
+    ...headerAddresses(message.headers.get('x-original-to'))
+  ];
+  const projectId = recipients.map(projectIdFromAddress).find(id => id !== undefined);
+  if (projectId === undefined) {
+    throw new InboundEmailError("No project reply address among the recipients");
+  }
+
+  let project: Project | undefined = await storage.getProjectById(projectId);
+  // Replies about a merged project belong to the project it was merged into
+  if (project?.mergedIntoId != null) {
+    project = await storage.getProjectById(project.mergedIntoId);
+  }
+  if (!project) {
+    throw new InboundEmailError(`Project ${projectId} no longer exists`);
+  }
+
+  if (message.messageId) {
+    const existing = await storage.getOfficialResponseByMessageId(message.messageId);
+    if (existing) return { response: existing, duplicate: true };
+  }
+
+  // Only the project's recipient, or another address the recipient policy
+  // allows, counts as an official
+  const sender = message.from?.value[0];
+  const fromAddress = normalizeEmail(sender?.address);
+  const departments = await storage.getDepartments();
+  const official = !!fromAddress && (
+    fromAddress === normalizeEmail(project.emailRecipient) || isRecipientAllowed(fromAddress, departments)
+  );
+  if (!official) {
+    await recordSecurityEvent(storage, {
+      eventType: 'unofficial_reply',
+      description: `Ignored a reply about project #${project.id} from ${fromAddress || 'an unknown sender'}, which is not an official address`,
+      projectId: project.id
+    });
+    throw new InboundEmailError("The sender is not an official address for this project");
+  }
+
+  const response = await storage.createOfficialResponse({
+    projectId: project.id,
+    fromAddress,
+    fromName: sender?.name || null,
+    subject: message.subject || project.emailSubject,
+    body: stripQuotedReply(message.text || ''),
+    messageId: message.messageId || null
+  });
+
+  await storage.createActivity({
+    projectId: project.id,
+    activityType: 'official_response',
+    actorName: sender?.name || fromAddress,
+    description: `Official response received on project: ${project.title}`
+  });
+
+  const progressStatus = acknowledgedStatus(project.progressStatus);
+  if (progressStatus !== project.progressStatus) {
+    await storage.updateProject(project.id, { progressStatus });
+  }
+
+  return { response, duplicate: false };
+}
+
+/**
+ * Start the SMTP listener if INBOUND_SMTP_PORT is set. Messages are ingested
+ * as they arrive; ones that can't be recorded are refused with a 550.
+ */
+export function startInboundSmtp(storage: IStorage): void {
+  if (!INBOUND_SMTP_PORT) return;
+
+  if (!INBOUND_EMAIL_SECRET) {
+    console.warn("INBOUND_SMTP_PORT is set but INBOUND_EMAIL_SECRET is not; not receiving email");
+    return;
+  }
+
+  const server = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ['AUTH', 'STARTTLS'],
+    size: 25 * 1024 * 1024,
+    onData(stream, session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => {
+        const envelopeRecipients = session.envelope.rcptTo.map(recipient => recipient.address);
+        ingestInboundEmail(storage, Buffer.concat(chunks), envelopeRecipients)
+          .then(() => callback())
+          .catch(error => {
+            if (error instanceof InboundEmailError) {
+              return callback(Object.assign(new Error(error.message), { responseCode: 550 }));
+            }
+            console.error("Error receiving inbound email:", error);
+            callback(new Error("Failed to record message"));
+          });
+      });
+    }
+  });
+
+  server.on('error', error => console.error("Inbound SMTP error:", error));
+  server.listen(INBOUND_SMTP_PORT, INBOUND_SMTP_HOST, () => {
+    console.log(`Receiving inbound email on ${INBOUND_SMTP_HOST}:${INBOUND_SMTP_PORT}`);
+  });
+}
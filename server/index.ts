@@ -3,6 +3,12 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Behind a reverse proxy, set TRUST_PROXY (a hop count such as "1", or
+// "loopback") so req.ip is the client's address for rate limits and upvotes
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy);
+}
 // Increase JSON body parser limit to accommodate larger images
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
@@ -0,0 +1,23 @@
+import fs from "fs";
+import path from "path";
+import { GeoPoint, Jurisdiction, jurisdictionSchema } from "@shared/schema";
+import { isWithinPolygon } from "./geo";
+
+// Path of the jurisdiction config, relative to the working directory
+const JURISDICTION_CONFIG = process.env.JURISDICTION_CONFIG || "config/jurisdiction.json";
+
+function loadJurisdiction(filename: string): Jurisdiction {
+  const raw = JSON.parse(fs.readFileSync(path.resolve(filename), "utf8"));
+  const result = jurisdictionSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid jurisdiction config ${filename}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+export const jurisdiction = loadJurisdiction(JURISDICTION_CONFIG);
+
+export function isWithinJurisdiction(point: GeoPoint): boolean {
+  return isWithinPolygon(point, jurisdiction.boundary);
+}
+
@@ -0,0 +1,67 @@
+import { createHash } from "crypto";
+import type { LlmRequest, LlmResponse } from "./llm-providers";
+
+// Cache of model replies by a hash of the request, so repeating a tone
+// change, uploading the same photo again or translating the same email for
+// another send doesn't call the model twice.
+// Entries live in memory and expire after AI_CACHE_TTL_MS; the oldest are
+// dropped once there are more than AI_CACHE_MAX_ENTRIES.
+
+const CACHE_TTL_MS = process.env.AI_CACHE_TTL_MS
+  ? parseInt(process.env.AI_CACHE_TTL_MS)
+  : 24 * 60 * 60 * 1000;
+
+const MAX_ENTRIES = process.env.AI_CACHE_MAX_ENTRIES
+  ? parseInt(process.env.AI_CACHE_MAX_ENTRIES)
+  : 500;
+
+interface CacheEntry {
+  response: LlmResponse;
+  expiresAt: number;
+}
+
+// Maps keep insertion order, so the first entry is the least recently used
+const entries = new Map<string, CacheEntry>();
+let hits = 0;
+let misses = 0;
+
+/**
+ * Hash of everything that decides a reply: the provider, function, model,
+ * messages (images included) and options. The mock's structured input isn't
+ * sent to real models, but it decides the mock's reply, so it's hashed too.
+ */
+export function cacheKey(provider: string, request: LlmRequest): string {
+  const { task, model, messages, json, temperature, input } = request;
+  return createHash("sha256")
+    .update(JSON.stringify({ provider, task, model, messages, json: !!json, temperature, input }))
+    .digest("hex");
+}
+
+export function getCachedResponse(key: string, now = Date.now()): LlmResponse | undefined {
+  const entry = entries.get(key);
+  if (!entry || entry.expiresAt <= now) {
+    if (entry) entries.delete(key);
+    misses++;
+    return undefined;
+  }
+
+  // Move to the end as the most recently used
+  entries.delete(key);
+  entries.set(key, entry);
+  hits++;
+  return entry.response;
+}
+
+export function cacheResponse(key: string, response: LlmResponse, now = Date.now()): void {
+  if (MAX_ENTRIES <= 0) return;
+
+  entries.delete(key);
+  entries.set(key, { response, expiresAt: now + CACHE_TTL_MS });
+  while (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value!);
+  }
+}
+
+export function getCacheStats(): { entries: number; hits: number; misses: number } {
+  return { entries: entries.size, hits, misses };
+}
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MockProvider, createLlmProvider } from "./llm-providers";
+
+const request = {
+  task: "tone_rewrite",
+  model: "mock",
+  messages: [
+    { role: "system" as const, content: "Rewrite the email." },
+    { role: "user" as const, content: "Dear Streets, the light is out." }
+  ],
+  input: { tone: "formal" }
+};
+
+test("the mock answers from the task's responder", async () => {
+  const mock = new MockProvider({ tone_rewrite: (input) => `Rewritten in the ${input.tone} tone` });
+  const response = await mock.chat(request);
+  assert.equal(response.content, "Rewritten in the formal tone");
+  assert.deepEqual(response.usage, { promptTokens: 0, completionTokens: 0 });
+});
+
+test("the mock echoes the last user message without a responder", async () => {
+  const mock = new MockProvider();
+  assert.equal((await mock.chat(request)).content, "Dear Streets, the light is out.");
+  assert.equal((await mock.chat({ ...request, json: true })).content, JSON.stringify({ echo: "Dear Streets, the light is out." }));
+});
+
+test("the mock is used when no provider is configured", () => {
+  assert.equal(createLlmProvider({}).name, "mock");
+  assert.equal(createLlmProvider({ LLM_PROVIDER: "mock", OPENAI_API_KEY: "sk-test" }).name, "mock");
+});
+
+test("OpenAI is used when only its key is set", () => {
+  assert.equal(createLlmProvider({ OPENAI_API_KEY: "sk-test" }).name, "openai");
+});
+
+test("a local provider needs its URL and model", () => {
+  assert.equal(createLlmProvider({ LLM_PROVIDER: "local", LLM_BASE_URL: "http://127.0.0.1:11434/v1", LLM_MODEL: "llama3" }).name, "local");
+  assert.throws(() => createLlmProvider({ LLM_PROVIDER: "local", LLM_MODEL: "llama3" }), /Invalid LLM provider configuration/);
+  assert.throws(() => createLlmProvider({ LLM_PROVIDER: "local", LLM_BASE_URL: "not a url", LLM_MODEL: "llama3" }), /Invalid LLM provider configuration/);
+});
+
+test("an unknown provider is refused", () => {
+  assert.throws(() => createLlmProvider({ LLM_PROVIDER: "anthropic" }), /Invalid LLM provider configuration/);
+});
@@ -0,0 +1,234 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+
+// LLM providers: the ways the AI features reach a language model. One is
+// selected with LLM_PROVIDER and its settings are validated at startup.
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  // Images for vision models, as data: or https: URLs
+  images?: string[];
+}
+
+export interface LlmRequest {
+  // Which AI function is asking, such as "email_template"
+  task: string;
+  model: string;
+  messages: LlmMessage[];
+  // Ask for a single JSON object as the reply
+  json?: boolean;
+  temperature?: number;
+  // The structured input the prompt was written from. Only the mock reads it.
+  input?: Record<string, unknown>;
+}
+
+export interface LlmResponse {
+  content: string;
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+export interface LlmStreamOptions {
+  // Called with each piece of the reply as the model writes it
+  onToken: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  // Identifies the provider in logs and responses
+  readonly name: string;
+  // Model used when none is configured for a function
+  readonly defaultModel: string;
+  // Complete a chat, throwing if the model gave no usable reply
+  chat(request: LlmRequest): Promise<LlmResponse>;
+  // Like chat, passing the reply on as it's written. Providers that can't
+  // stream leave this out.
+  stream?(request: LlmRequest, options: LlmStreamOptions): Promise<LlmResponse>;
+}
+
+// Builds the mock's reply to a task from the request's input
+export type MockResponder = (input: Record<string, unknown>) => string;
+
+function toOpenAiMessages(messages: LlmMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map(message => {
+    if (message.role === 'user' && message.images?.length) {
+      return {
+        role: 'user',
+        content: [
+          { type: 'text', text: message.content },
+          ...message.images.map(url => ({ type: 'image_url' as const, image_url: { url } }))
+        ]
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Calls the OpenAI chat completions API
+ */
+export class OpenAiProvider implements LlmProvider {
+  readonly name: string = 'openai';
+  readonly defaultModel: string = 'gpt-4o';
+  private client: OpenAI;
+
+  constructor(options: { apiKey: string; baseUrl?: string }) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl });
+  }
+
+  async chat(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: toOpenAiMessages(request.messages),
+      response_format: request.json ? { type: 'json_object' } : undefined,
+      temperature: request.temperature
+    });
+
+    const content = response.choices[0]?.message.content;
+    if (!content) {
+      throw new Error(`No content returned from ${this.name}`);
+    }
+
+    return {
+      content,
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens
+      }
+    };
+  }
+
+  async stream(request: LlmRequest, options: LlmStreamOptions): Promise<LlmResponse> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: toOpenAiMessages(request.messages),
+      response_format: request.json ? { type: 'json_object' } : undefined,
+      temperature: request.temperature,
+      stream: true,
+      // Usage arrives in a last chunk without choices
+      stream_options: { include_usage: true }
+    }, { signal: options.signal });
+
+    let content = '';
+    let usage: LlmResponse['usage'];
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        content += token;
+        options.onToken(token);
+      }
+      if (chunk.usage) {
+        usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    if (!content) {
+      throw new Error(`No content returned from ${this.name}`);
+    }
+
+    return { content, usage };
+  }
+}
+
+// The outermost {...} in a reply, for servers that wrap JSON in prose or
+// code fences
+function extractJsonObject(content: string): string {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  return start >= 0 && end > start ? content.slice(start, end + 1) : content;
+}
+
+/**
+ * Calls a self-hosted server with an OpenAI-compatible API, such as
+ * llama.cpp, vLLM or Ollama. Not all of them enforce JSON mode, so JSON
+ * replies are trimmed to the object they contain.
+ */
+export class LocalProvider extends OpenAiProvider {
+  readonly name = 'local';
+  readonly defaultModel: string;
+
+  constructor(options: { baseUrl: string; model: string; apiKey?: string }) {
+    // Most local servers ignore the key, but the client requires one
+    super({ apiKey: options.apiKey || 'local', baseUrl: options.baseUrl });
+    this.defaultModel = options.model;
+  }
+
+  async chat(request: LlmRequest): Promise<LlmResponse> {
+    const response = await super.chat(request);
+    return request.json ? { ...response, content: extractJsonObject(response.content) } : response;
+  }
+
+  async stream(request: LlmRequest, options: LlmStreamOptions): Promise<LlmResponse> {
+    const response = await super.stream(request, options);
+    return request.json ? { ...response, content: extractJsonObject(response.content) } : response;
+  }
+}
+
+/**
+ * Answers without any model, for development and tests. Replies come from
+ * the responder registered for the request's task, or echo the last user
+ * message, so the same request always gets the same reply. Replies are
+ * instant, so the mock doesn't stream.
+ */
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock';
+  readonly defaultModel = 'mock';
+
+  constructor(private responders: Record<string, MockResponder> = {}) {}
+
+  async chat(request: LlmRequest): Promise<LlmResponse> {
+    const responder = this.responders[request.task];
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user')?.content ?? '';
+    const content = responder
+      ? responder(request.input ?? {})
+      : request.json ? JSON.stringify({ echo: lastUserMessage }) : lastUserMessage;
+
+    return { content, usage: { promptTokens: 0, completionTokens: 0 } };
+  }
+}
+
+const providerConfigSchema = z.discriminatedUnion('LLM_PROVIDER', [
+  z.object({
+    LLM_PROVIDER: z.literal('openai'),
+    OPENAI_API_KEY: z.string().min(1),
+    OPENAI_BASE_URL: z.string().url().optional(),
+  }),
+  z.object({
+    LLM_PROVIDER: z.literal('local'),
+    LLM_BASE_URL: z.string().url(),
+    LLM_MODEL: z.string().min(1),
+    LLM_API_KEY: z.string().optional(),
+  }),
+  z.object({
+    LLM_PROVIDER: z.literal('mock'),
+  }),
+]);
+
+/**
+ * Create the provider selected by LLM_PROVIDER ("openai", "local" or
+ * "mock"). When unset, OpenAI is used if OPENAI_API_KEY is set and the mock
+ * otherwise. `mockResponders` supply the mock's replies. Throws if the
+ * selected provider's settings are missing or invalid.
+ */
+export function createLlmProvider(
+  env: NodeJS.ProcessEnv = process.env,
+  mockResponders: Record<string, MockResponder> = {}
+): LlmProvider {
+  const selected = env.LLM_PROVIDER || (env.OPENAI_API_KEY ? 'openai' : 'mock');
+
+  const parsed = providerConfigSchema.safeParse({ ...env, LLM_PROVIDER: selected });
+  if (!parsed.success) {
+    throw new Error(`Invalid LLM provider configuration: ${fromZodError(parsed.error).message}`);
+  }
+
+  const config = parsed.data;
+  switch (config.LLM_PROVIDER) {
+    case 'openai':
+      return new OpenAiProvider({ apiKey: config.OPENAI_API_KEY, baseUrl: config.OPENAI_BASE_URL });
+    case 'local':
+      return new LocalProvider({ baseUrl: config.LLM_BASE_URL, model: config.LLM_MODEL, apiKey: config.LLM_API_KEY });
+    case 'mock':
+      return new MockProvider(mockResponders);
+  }
+}
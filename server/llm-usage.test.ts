@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+// Modules read their configuration when imported
+process.env.STORAGE_BACKEND = "memory";
+process.env.LLM_PROVIDER = "mock";
+process.env.AI_DAILY_TOKEN_BUDGET = "100000";
+process.env.AI_DAILY_BUDGET_USD = "0.01";
+
+const { MemStorage, storage } = await import("./storage");
+const { getBudgetStatus, recordAiCall, usageDay } = await import("./llm-usage");
+const { regenerateEmailWithTone } = await import("./openai");
+
+const today = new Date("2026-03-10T15:00:00Z");
+const yesterday = new Date("2026-03-09T15:00:00Z");
+
+test("the budget is exhausted once the day's tokens reach it", async () => {
+  const ledger = new MemStorage();
+  await recordAiCall(ledger, "email_template", { outcome: "provider", model: "local", usage: { promptTokens: 60000, completionTokens: 30000 } }, today);
+  assert.equal((await getBudgetStatus(ledger, today)).exhausted, false);
+
+  await recordAiCall(ledger, "translation", { outcome: "provider", model: "local", usage: { promptTokens: 5000, completionTokens: 5000 } }, today);
+  const status = await getBudgetStatus(ledger, today);
+  assert.equal(status.tokens, 100000);
+  assert.equal(status.exhausted, true);
+});
+
+test("the budget is exhausted once the day's spend reaches it", async () => {
+  const ledger = new MemStorage();
+  await recordAiCall(ledger, "email_template", { outcome: "provider", model: "gpt-4o", usage: { promptTokens: 100, completionTokens: 100 } }, today);
+  assert.equal((await getBudgetStatus(ledger, today)).exhausted, false);
+
+  // Far below the token budget, but $0.009 more
+  await recordAiCall(ledger, "email_template", { outcome: "provider", model: "gpt-4o-2024-08-06", usage: { promptTokens: 0, completionTokens: 900 } }, today);
+  assert.equal((await getBudgetStatus(ledger, today)).exhausted, true);
+});
+
+test("the budget starts over each day", async () => {
+  const ledger = new MemStorage();
+  await recordAiCall(ledger, "email_template", { outcome: "provider", model: "local", usage: { promptTokens: 200000, completionTokens: 0 } }, yesterday);
+  assert.equal((await getBudgetStatus(ledger, yesterday)).exhausted, true);
+
+  const status = await getBudgetStatus(ledger, today);
+  assert.equal(status.tokens, 0);
+  assert.equal(status.exhausted, false);
+});
+
+test("calls over the budget are refused, recorded and fall back", async () => {
+  await recordAiCall(storage, "email_template", { outcome: "provider", model: "local", usage: { promptTokens: 100000, completionTokens: 0 } });
+
+  const original = "Dear Streets,\n\nThe light is out.\n\nThanks for your consideration,\n[Your Name]";
+  const result = await regenerateEmailWithTone(original, "formal");
+  assert.equal(result.error, "Unable to adjust email tone because today's AI usage limit has been reached.");
+  assert.equal(result.emailBody, "Dear Streets:\n\nThe light is out.\n\nRespectfully,\n[Your Name]");
+
+  const [toneRewrites] = (await storage.getAiUsage(usageDay())).filter(usage => usage.task === "tone_rewrite");
+  assert.equal(toneRewrites.budgetFallbacks, 1);
+  assert.equal(toneRewrites.requests, 0);
+});
@@ -0,0 +1,167 @@
+import type { AiUsage } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getCacheStats } from "./llm-cache";
+
+// Ledger and daily budget for AI calls. Every call is added to the day's
+// totals for its function: tokens, estimated cost, cache hits and calls
+// refused by the budget. Once the day's spend reaches AI_DAILY_BUDGET_USD,
+// or its tokens AI_DAILY_TOKEN_BUDGET, calls are refused until midnight UTC
+// and the AI functions use their fallbacks.
+
+const DAILY_BUDGET_USD = process.env.AI_DAILY_BUDGET_USD
+  ? parseFloat(process.env.AI_DAILY_BUDGET_USD)
+  : undefined;
+
+const DAILY_TOKEN_BUDGET = process.env.AI_DAILY_TOKEN_BUDGET
+  ? parseInt(process.env.AI_DAILY_TOKEN_BUDGET)
+  : undefined;
+
+// USD per million prompt and completion tokens. Models are matched by
+// prefix, so dated versions such as gpt-4o-2024-08-06 are priced too.
+const MODEL_PRICES: Record<string, [prompt: number, completion: number]> = {
+  "gpt-4o-mini": [0.15, 0.6],
+  "gpt-4o": [2.5, 10],
+  "gpt-4.1-nano": [0.1, 0.4],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "gpt-4.1": [2, 8],
+};
+
+// Prices for other models, such as ones served locally, are configured
+const CONFIGURED_PRICE: [prompt: number, completion: number] | undefined =
+  process.env.LLM_PROMPT_PRICE_PER_MILLION || process.env.LLM_COMPLETION_PRICE_PER_MILLION
+    ? [parseFloat(process.env.LLM_PROMPT_PRICE_PER_MILLION || "0"), parseFloat(process.env.LLM_COMPLETION_PRICE_PER_MILLION || "0")]
+    : undefined;
+
+export class AiBudgetError extends Error {
+  constructor() {
+    super("The daily AI usage budget has been reached");
+    this.name = "AiBudgetError";
+  }
+}
+
+export interface AiBudgetStatus {
+  dailyUsd: number | null;
+  dailyTokens: number | null;
+  spentUsd: number;
+  tokens: number;
+  exhausted: boolean;
+}
+
+// The UTC day a call is counted in
+export function usageDay(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Estimated cost of a call in USD. Unknown models without a configured
+ * price cost nothing, though their tokens still count.
+ */
+export function estimateCost(model: string, usage: { promptTokens: number; completionTokens: number }): number {
+  const price = CONFIGURED_PRICE ?? Object.entries(MODEL_PRICES)
+    .sort((a, b) => b[0].length - a[0].length)
+    .find(([prefix]) => model.startsWith(prefix))?.[1];
+  if (!price) return 0;
+  return (usage.promptTokens * price[0] + usage.completionTokens * price[1]) / 1_000_000;
+}
+
+/**
+ * Rough token counts for a call the provider reported no usage for, such as
+ * one cancelled or failed partway, at about four characters a token.
+ * Images aren't counted.
+ */
+export function estimateUsage(
+  messages: { content: string }[],
+  completion: string
+): { promptTokens: number; completionTokens: number } {
+  const tokens = (text: string) => Math.ceil(text.length / 4);
+  return {
+    promptTokens: messages.reduce((sum, message) => sum + tokens(message.content), 0),
+    completionTokens: tokens(completion)
+  };
+}
+
+/**
+ * Add a call to the ledger: one that reached the provider, was answered
+ * from the cache, or was refused by the budget
+ */
+export async function recordAiCall(
+  storage: IStorage,
+  task: string,
+  call:
+    | { outcome: "provider"; model: string; usage?: { promptTokens: number; completionTokens: number } }
+    | { outcome: "cached" }
+    | { outcome: "budget_exceeded" },
+  now = new Date()
+): Promise<void> {
+  const day = usageDay(now);
+
+  switch (call.outcome) {
+    case "provider": {
+      const usage = call.usage ?? { promptTokens: 0, completionTokens: 0 };
+      await storage.recordAiUsage({
+        day,
+        task,
+        requests: 1,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        costUsd: estimateCost(call.model, usage)
+      });
+      break;
+    }
+    case "cached":
+      await storage.recordAiUsage({ day, task, cachedRequests: 1 });
+      break;
+    case "budget_exceeded":
+      await storage.recordAiUsage({ day, task, budgetFallbacks: 1 });
+      break;
+  }
+}
+
+/**
+ * Today's spend against the configured budgets
+ */
+export async function getBudgetStatus(storage: IStorage, now = new Date()): Promise<AiBudgetStatus> {
+  const today = (await storage.getAiUsage(usageDay(now))).filter(usage => usage.day === usageDay(now));
+  const spentUsd = today.reduce((sum, usage) => sum + usage.costUsd, 0);
+  const tokens = today.reduce((sum, usage) => sum + usage.promptTokens + usage.completionTokens, 0);
+
+  return {
+    dailyUsd: DAILY_BUDGET_USD ?? null,
+    dailyTokens: DAILY_TOKEN_BUDGET ?? null,
+    spentUsd,
+    tokens,
+    exhausted:
+      (DAILY_BUDGET_USD !== undefined && spentUsd >= DAILY_BUDGET_USD) ||
+      (DAILY_TOKEN_BUDGET !== undefined && tokens >= DAILY_TOKEN_BUDGET)
+  };
+}
+
+/**
+ * Usage over the last `days` days including today, per day and function,
+ * with today's budget and the cache's hit rate
+ */
+export async function getUsageReport(storage: IStorage, days: number, now = new Date()): Promise<{
+  budget: AiBudgetStatus;
+  cache: { entries: number; hits: number; misses: number };
+  totals: Omit<AiUsage, "day" | "task">;
+  usage: AiUsage[];
+}> {
+  const since = new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  const usage = await storage.getAiUsage(usageDay(since));
+
+  const totals = usage.reduce((sum, row) => ({
+    requests: sum.requests + row.requests,
+    cachedRequests: sum.cachedRequests + row.cachedRequests,
+    budgetFallbacks: sum.budgetFallbacks + row.budgetFallbacks,
+    promptTokens: sum.promptTokens + row.promptTokens,
+    completionTokens: sum.completionTokens + row.completionTokens,
+    costUsd: sum.costUsd + row.costUsd
+  }), { requests: 0, cachedRequests: 0, budgetFallbacks: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 });
+
+  return {
+    budget: await getBudgetStatus(storage, now),
+    cache: getCacheStats(),
+    totals,
+    usage
+  };
+}
@@ -1,83 +1,254 @@
-import OpenAI from "openai";
+import type { Department, EmailLanguage } from "@shared/schema";
+import { jurisdiction } from "./jurisdiction";
+import { createLlmProvider, type LlmRequest, type LlmResponse, type LlmStreamOptions, type MockResponder } from "./llm-providers";
+import { cacheKey, cacheResponse, getCachedResponse } from "./llm-cache";
+import { AiBudgetError, estimateUsage, getBudgetStatus, recordAiCall } from "./llm-usage";
+import { storage } from "./storage";
+import { readPartialNumber, readPartialString } from "./partial-json";
+import { renderPrompt } from "./prompts";
+import { rewriteTone } from "./tone-rewriter";
 
-// Debug statement to check if the API key is loaded (masking it for security)
-const apiKey = process.env.OPENAI_API_KEY;
-console.log("OpenAI API Key status:", 
-  apiKey ? 
-  `Key loaded (starts with ${apiKey.substring(0, 3)}...)` : 
-  "No API key found"
-);
+// The AI functions behind email generation and photo analysis. Each renders
+// its prompt from the registry (see prompts.ts), goes through the configured
+// LLM provider (see createLlmProvider) and falls back to a template when the
+// model fails.
 
-const openai = new OpenAI({ 
-  apiKey: apiKey || "sk-dummy-key-for-development"
-});
+export type LlmTask = 'email_template' | 'tone_rewrite' | 'photo_analysis' | 'translation' | 'test';
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+// How prompts name each language emails can be written in
+const languageNames: Record<EmailLanguage, string> = {
+  en: "English",
+  es: "Spanish"
+};
+
+// Deterministic replies for the mock provider, built from each function's input
+const mockResponders: Record<LlmTask, MockResponder> = {
+  email_template: (input) => {
+    const template = getFallbackEmailTemplate(
+      input.issueType as string,
+      input.location as string,
+      input.description as string,
+      input.urgencyLevel as string,
+      input.department as Department,
+      input.language as EmailLanguage
+    );
+    return JSON.stringify({
+      emailSubject: template.emailSubject,
+      departmentId: template.departmentId,
+      emailBody: template.emailBody
+    });
+  },
+  tone_rewrite: (input) => input.language === 'en'
+    ? rewriteTone(input.originalEmail as string, input.tone as string)
+    : input.originalEmail as string,
+  photo_analysis: () => JSON.stringify({
+    issueType: "other",
+    confidence: 0,
+    description: "Photo analysis is not available with the mock AI provider. Please select the issue type manually."
+  }),
+  // Tagged rather than translated, so mock translations are easy to spot
+  translation: (input) => JSON.stringify({
+    emailSubject: input.subject ? `[${input.to}] ${input.subject}` : "",
+    emailBody: `[${input.to}] ${input.body}`
+  }),
+  test: () => "Mock AI provider is working!"
+};
+
+// Provider selected and validated at startup
+const llm = createLlmProvider(process.env, mockResponders);
+console.log(`AI provider: ${llm.name}`);
+
+/**
+ * Model for a function: LLM_MODEL_<FUNCTION> (e.g. LLM_MODEL_PHOTO_ANALYSIS),
+ * then LLM_MODEL, then the provider's default
+ */
+function modelFor(task: LlmTask): string {
+  return process.env[`LLM_MODEL_${task.toUpperCase()}`] || process.env.LLM_MODEL || llm.defaultModel;
+}
+
+// Functions whose replies are cached. The provider test must reach the
+// provider, so it never is.
+const CACHED_TASKS: LlmTask[] = ['email_template', 'tone_rewrite', 'photo_analysis', 'translation'];
+
+// The ledger is bookkeeping, so failing to write it mustn't fail the call
+function recordCall(task: LlmTask, call: Parameters<typeof recordAiCall>[2]) {
+  return recordAiCall(storage, task, call).catch(error => {
+    console.error("Error recording AI usage:", error);
+  });
+}
+
+/**
+ * Call the provider, answering repeated requests from the cache. Throws
+ * AiBudgetError once the daily budget is used up, so callers fall back.
+ * With `stream`, the reply is passed on as it's written when the provider
+ * can stream, and all at once when it can't or the reply was cached.
+ */
+async function chat(
+  task: LlmTask,
+  request: Omit<LlmRequest, "task" | "model">,
+  stream?: LlmStreamOptions
+): Promise<LlmResponse> {
+  const fullRequest: LlmRequest = { task, model: modelFor(task), ...request };
+
+  const key = CACHED_TASKS.includes(task) ? cacheKey(llm.name, fullRequest) : undefined;
+  const cached = key ? getCachedResponse(key) : undefined;
+  if (cached) {
+    await recordCall(task, { outcome: "cached" });
+    stream?.onToken(cached.content);
+    return cached;
+  }
+
+  if ((await getBudgetStatus(storage)).exhausted) {
+    await recordCall(task, { outcome: "budget_exceeded" });
+    throw new AiBudgetError();
+  }
+
+  // Calls that fail or are cancelled partway still cost tokens, so every
+  // call is recorded, with usage estimated when the provider reports none
+  let response: LlmResponse | undefined;
+  let streamed = '';
+  try {
+    if (stream && llm.stream) {
+      response = await llm.stream(fullRequest, {
+        ...stream,
+        onToken: (token) => {
+          streamed += token;
+          stream.onToken(token);
+        }
+      });
+    } else {
+      response = await llm.chat(fullRequest);
+      stream?.onToken(response.content);
+    }
+  } finally {
+    await recordCall(task, {
+      outcome: "provider",
+      model: fullRequest.model,
+      usage: response?.usage ?? estimateUsage(fullRequest.messages, response?.content ?? streamed)
+    });
+  }
+  if (key) cacheResponse(key, response);
+  return response;
+}
+
+// Whether the provider can pass replies on as they're written
+export function supportsStreaming(): boolean {
+  return typeof llm.stream === "function";
+}
+
+// Whether replies are the mock provider's placeholders rather than a model's
+export function isMockProvider(): boolean {
+  return llm.name === 'mock';
+}
+
+/**
+ * Ask the model for a one-line reply, to check the provider works
+ */
+export async function testLlmProvider(): Promise<{ provider: string; model: string; reply: string; usage?: { promptTokens: number; completionTokens: number } }> {
+  const prompt = await renderPrompt(storage, 'test', {});
+  const response = await chat('test', { messages: prompt.messages });
+  return { provider: llm.name, model: modelFor('test'), reply: response.content, usage: response.usage };
+}
+
+// Parts of an email passed on while the model writes it. Each may be
+// revised by the finished email, for instance when the model fails partway
+// and the fallback template is used.
+export interface EmailTemplateStream {
+  signal?: AbortSignal;
+  onSubject: (emailSubject: string) => void;
+  onRecipient: (recipient: { emailTo: string; departmentId: number }) => void;
+  // The next piece of the body
+  onBody: (text: string) => void;
+}
+
+// Follows the model's JSON reply as it grows, passing on each field once
+// it can be read
+function emailTemplateReader(departments: Department[], stream: EmailTemplateStream): LlmStreamOptions {
+  let content = "";
+  let subjectSent = false;
+  let recipientSent = false;
+  let bodySent = 0;
+
+  return {
+    signal: stream.signal,
+    onToken: (token) => {
+      content += token;
+
+      const subject = readPartialString(content, "emailSubject");
+      if (!subjectSent && subject?.complete) {
+        subjectSent = true;
+        stream.onSubject(subject.value);
+      }
+
+      const departmentId = readPartialNumber(content, "departmentId");
+      if (!recipientSent && departmentId !== undefined) {
+        recipientSent = true;
+        const department = departments.find(candidate => candidate.id === departmentId) ?? departments[0];
+        stream.onRecipient({ emailTo: department.email, departmentId: department.id });
+      }
+
+      const body = readPartialString(content, "emailBody");
+      if (body && body.value.length > bodySent) {
+        stream.onBody(body.value.slice(bodySent));
+        bodySent = body.value.length;
+      }
+    }
+  };
+}
+
+// `departments` are the candidate recipients, best match first (see rankDepartments).
+// The recipient always comes from this list, never from the model's own guess.
 export async function generateEmailTemplate(
   issueType: string,
   location: string,
   description: string,
-  urgencyLevel: string
-): Promise<{ emailBody: string; emailSubject: string; emailTo: string }> {
-  // Check if we need to use fallback due to lack of API key or account issues
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey || apiKey === "sk-dummy-key-for-development") {
-    console.log("Using fallback email template due to missing API key");
-    return getFallbackEmailTemplate(issueType, location, description, urgencyLevel);
-  }
-
+  urgencyLevel: string,
+  departments: Department[],
+  language: EmailLanguage = 'en',
+  stream?: EmailTemplateStream
+): Promise<{ emailBody: string; emailSubject: string; emailTo: string; departmentId: number; promptVersion?: string }> {
   try {
     // Log that we're attempting to generate an email
-    console.log("Attempting to generate email template with OpenAI for issue:", issueType);
+    console.log(`Attempting to generate email template with ${llm.name} for issue:`, issueType);
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an assistant helping citizens write brief, friendly emails to local officials about infrastructure issues. Create short, fact-based emails that sound natural but ONLY use the information provided. Avoid overly formal language and stick strictly to the details given. Never add fictional scenarios, personal stories, or made-up examples. Limit emails to 2-3 short paragraphs. Include a subject line and determine the most appropriate municipal department to address the email to.",
-        },
-        {
-          role: "user",
-          content: `Please write a clear, concise email to a local city official about a ${issueType} issue at ${location}. The urgency level is ${urgencyLevel}. Here's a description of the issue: "${description}". Use ONLY the information provided - do not add fictional details or scenarios. Format your response as JSON with fields: emailSubject, emailTo (department email), and emailBody.`,
-        },
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.7,
+    const prompt = await renderPrompt(storage, 'email_template', {
+      jurisdiction: jurisdiction.name,
+      issueType,
+      location,
+      urgencyLevel,
+      description,
+      departments: departments
+        .map(department => `- id ${department.id}: ${department.name} (handles ${department.issueTypes.join(", ") || "general issues"})`)
+        .join("\n"),
+      language: languageNames[language]
     });
+    
+    const response = await chat('email_template', {
+      messages: prompt.messages,
+      json: true,
+      temperature: 0.7,
+      input: { issueType, location, description, urgencyLevel, department: departments[0], language }
+    }, stream && emailTemplateReader(departments, stream));
 
-    // Parse the JSON response
-    const content = response.choices[0].message.content;
-    if (!content) {
-      throw new Error("No content returned from OpenAI");
-    }
-
-    const result = JSON.parse(content);
+    const result = JSON.parse(response.content);
     
-    // Default email recipient if OpenAI doesn't provide one
-    if (!result.emailTo) {
-      // Map issue types to default department emails
-      const departmentEmails: Record<string, string> = {
-        crosswalk: "transportation@cityname.gov",
-        pothole: "streetmaintenance@cityname.gov",
-        sidewalk: "publicworks@cityname.gov",
-        streetlight: "utilities@cityname.gov",
-        other: "cityhall@cityname.gov"
-      };
-      
-      result.emailTo = departmentEmails[issueType] || "cityhall@cityname.gov";
-    }
+    // Only accept a department from the list; otherwise use the best match
+    const department = departments.find(candidate => candidate.id === Number(result.departmentId)) ?? departments[0];
 
     return {
       emailBody: result.emailBody,
       emailSubject: result.emailSubject,
-      emailTo: result.emailTo
+      emailTo: department.email,
+      departmentId: department.id,
+      promptVersion: prompt.id
     };
   } catch (error) {
+    // Nobody is waiting for a cancelled email
+    if (stream?.signal?.aborted) throw error;
     console.error("Error generating email template:", error);
     
-    // Return a fallback template if OpenAI fails
-    return getFallbackEmailTemplate(issueType, location, description, urgencyLevel);
+    // Return a fallback template if the model fails
+    return getFallbackEmailTemplate(issueType, location, description, urgencyLevel, departments[0], language);
   }
 }
 
@@ -85,24 +256,15 @@ function getFallbackEmailTemplate(
   issueType: string,
   location: string,
   description: string,
-  urgencyLevel: string
-): { emailBody: string; emailSubject: string; emailTo: string } {
-  // Map issue types to departments
-  const departmentEmails: Record<string, string> = {
-    crosswalk: "transportation@cityname.gov",
-    pothole: "streetmaintenance@cityname.gov",
-    sidewalk: "publicworks@cityname.gov",
-    streetlight: "utilities@cityname.gov",
-    other: "cityhall@cityname.gov"
-  };
-  
-  const departments: Record<string, string> = {
-    crosswalk: "Transportation Department",
-    pothole: "Street Maintenance Department",
-    sidewalk: "Public Works Department",
-    streetlight: "Utilities Department",
-    other: "City Hall"
-  };
+  urgencyLevel: string,
+  recipient: Department,
+  language: EmailLanguage = 'en'
+): { emailBody: string; emailSubject: string; emailTo: string; departmentId: number } {
+  if (language === 'es') {
+    return getSpanishFallbackEmailTemplate(issueType, location, description, urgencyLevel, recipient);
+  }
+
+  const { name: department, email: emailTo } = recipient;
 
   const issueNames: Record<string, string> = {
     crosswalk: "crosswalk",
@@ -113,8 +275,6 @@ function getFallbackEmailTemplate(
   };
 
   const issueName = issueNames[issueType] || "infrastructure issue";
-  const department = departments[issueType] || "City Official";
-  const emailTo = departmentEmails[issueType] || "cityhall@cityname.gov";
   
   const emailSubject = `${location} ${issueName} needs attention`;
   
@@ -133,7 +293,86 @@ Thanks for your consideration,
   return {
     emailBody,
     emailSubject,
-    emailTo
+    emailTo,
+    departmentId: recipient.id
+  };
+}
+
+function getSpanishFallbackEmailTemplate(
+  issueType: string,
+  location: string,
+  description: string,
+  urgencyLevel: string,
+  recipient: Department
+): { emailBody: string; emailSubject: string; emailTo: string; departmentId: number } {
+  const { name: department, email: emailTo } = recipient;
+
+  // Each with its article, which depends on the noun's gender
+  const issueNames: Record<string, [string, string]> = {
+    crosswalk: ["un", "paso peatonal"],
+    pothole: ["un", "bache"],
+    sidewalk: ["una", "banqueta"],
+    streetlight: ["una", "luminaria"],
+    other: ["un", "problema de infraestructura"]
+  };
+
+  const [article, issueName] = issueNames[issueType] || issueNames.other;
+
+  const emailSubject = `${location}: ${issueName} necesita atención`;
+
+  const emailBody = `Estimado/a ${department}:
+
+Le escribo sobre ${article} ${issueName} en ${location} que necesita su atención. ${urgencyLevel === 'high' ? "Se trata de un problema de seguridad urgente." : ""}
+
+${description}
+
+¿Podría alguien de su oficina revisar este asunto? Quedo a su disposición para proporcionar cualquier información adicional.
+
+Gracias por su atención,
+[Su nombre]`;
+
+  return {
+    emailBody,
+    emailSubject,
+    emailTo,
+    departmentId: recipient.id
+  };
+}
+
+/**
+ * Translate an email between languages, keeping its facts, tone and
+ * placeholders such as [Your Name]. Throws if the model fails, since there
+ * is no fallback translation.
+ */
+export async function translateEmail(
+  email: { subject?: string; body: string },
+  from: EmailLanguage,
+  to: EmailLanguage
+): Promise<{ emailSubject: string; emailBody: string }> {
+  console.log(`Translating email from ${from} to ${to} using ${llm.name}...`);
+
+  const prompt = await renderPrompt(storage, 'translation', {
+    from: languageNames[from],
+    to: languageNames[to],
+    subject: email.subject ?? "",
+    body: email.body
+  });
+
+  const response = await chat('translation', {
+    messages: prompt.messages,
+    json: true,
+    temperature: 0.2,
+    input: { subject: email.subject, body: email.body, from, to }
+  });
+
+  const result = JSON.parse(response.content);
+  if (typeof result.emailBody !== "string" || !result.emailBody.trim()) {
+    throw new Error(`No translation returned from ${llm.name}`);
+  }
+
+  return {
+    emailSubject: typeof result.emailSubject === "string" ? result.emailSubject : "",
+    emailBody: result.emailBody
   };
 }
 
@@ -152,55 +391,17 @@ export async function analyzePhotoForIssueType(
   };
 }> {
   try {
-    // Only attempt to call OpenAI if we have a valid API key
-    if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === "sk-dummy-key-for-development") {
-      console.log("Using fallback issue classification due to missing API key");
-      return {
-        issueType: "other",
-        confidence: 0,
-        description: "Unable to analyze image. Please select the issue type manually."
-      };
-    }
-    
-    console.log("Attempting to analyze photo with OpenAI API...");
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
-      messages: [
-        {
-          role: "system",
-          content: `You are an AI specialized in identifying urban infrastructure issues. 
-          Analyze the provided photo and determine which category the issue falls into: 
-          'pothole', 'sidewalk', 'crosswalk', 'streetlight', or 'other'. 
-          Provide a confidence score (0-1) for your classification and a brief description of what you see.
-          Format your response as a JSON object with keys: issueType, confidence, and description.`
-        },
-        {
-          role: "user",
-          content: [
-            { 
-              type: "text", 
-              text: "Analyze this infrastructure issue and classify it based on what you see." 
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`
-              }
-            }
-          ],
-        }
-      ],
-      response_format: { type: "json_object" }
-    });
+    console.log(`Attempting to analyze photo with ${llm.name}...`);
 
-    // Parse the JSON response
-    const content = response.choices[0].message.content;
-    if (!content) {
-      throw new Error("No content returned from OpenAI");
-    }
+    const prompt = await renderPrompt(storage, 'photo_analysis', {});
+    const image = `data:image/jpeg;base64,${base64Image}`;
+
+    const response = await chat('photo_analysis', {
+      messages: prompt.messages.map(message => message.role === "user" ? { ...message, images: [image] } : message),
+      json: true
+    });
 
-    const result = JSON.parse(content);
+    const result = JSON.parse(response.content);
     
     return {
       issueType: result.issueType,
@@ -209,7 +410,7 @@ export async function analyzePhotoForIssueType(
       location: {} // EXIF data would be processed client-side
     };
   } catch (error) {
-    console.error("Error analyzing photo with OpenAI:", error);
+    console.error(`Error analyzing photo with ${llm.name}:`, error);
     
     // Extract more specific error information
     let errorMessage = "Unable to analyze the image.";
@@ -218,11 +419,11 @@ export async function analyzePhotoForIssueType(
       errorMessage = error.message;
       // Check for rate limiting or quota exceeded errors
       if (error.message.includes("429") || error.message.includes("quota")) {
-        errorMessage = "OpenAI API rate limit exceeded or quota used up. Please try again later.";
+        errorMessage = "AI provider rate limit exceeded or quota used up. Please try again later.";
       }
       // Check for invalid API key
       else if (error.message.includes("401") || error.message.includes("authentication")) {
-        errorMessage = "Invalid OpenAI API key. Please check your API key configuration.";
+        errorMessage = "Invalid AI provider API key. Please check your API key configuration.";
       }
       // Check for invalid image format
       else if (error.message.includes("image") && error.message.includes("format")) {
@@ -243,36 +444,26 @@ export async function analyzePhotoForIssueType(
 // Function to regenerate an email with a different tone
 export async function regenerateEmailWithTone(
   originalEmail: string,
-  tone: string
+  tone: string,
+  language: EmailLanguage = 'en'
 ): Promise<{ emailBody: string; error?: string }> {
   try {
-    // Only attempt to call OpenAI if we have a valid API key
-    if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === "sk-dummy-key-for-development") {
-      console.log("Using fallback tone adjustment due to missing API key");
-      return {
-        emailBody: applyFallbackToneAdjustment(originalEmail, tone),
-      };
-    }
+    console.log(`Attempting to regenerate email with tone: ${tone} using ${llm.name}...`);
     
-    console.log(`Attempting to regenerate email with tone: ${tone} using OpenAI API...`);
+    const prompt = await renderPrompt(storage, 'tone_rewrite', {
+      tone,
+      originalEmail,
+      language: languageNames[language]
+    });
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are an assistant helping citizens write brief emails to local officials. You'll be given an existing email and asked to rewrite it with a ${tone} tone. IMPORTANT: Don't add any fictional details, names, or scenarios that weren't in the original email. Only adjust the tone and writing style without embellishing or adding new information. Keep it short (2-3 paragraphs) and ensure you only use facts from the original email.`,
-        },
-        {
-          role: "user",
-          content: `Please rewrite this email with a ${tone} tone. Keep it brief and stick ONLY to the information provided in the original email. DO NOT add any fictional details, people, or scenarios:\n\n${originalEmail}`,
-        },
-      ],
+    const response = await chat('tone_rewrite', {
+      messages: prompt.messages,
       temperature: 0.7,
+      input: { originalEmail, tone, language }
     });
 
     return {
-      emailBody: response.choices[0].message.content || originalEmail
+      emailBody: response.content
     };
   } catch (error) {
     console.error("Error regenerating email with tone:", error);
@@ -280,68 +471,20 @@ export async function regenerateEmailWithTone(
     // Provide a more helpful error message
     let errorMessage = "Unable to adjust email tone due to a service error.";
     
+    if (error instanceof AiBudgetError) {
+      errorMessage = "Unable to adjust email tone because today's AI usage limit has been reached.";
+    }
     // Check if error is an object with a code property
-    if (error && typeof error === 'object' && 'code' in error) {
+    else if (error && typeof error === 'object' && 'code' in error) {
       if (error.code === "insufficient_quota") {
         errorMessage = "Unable to adjust email tone due to API usage limits.";
       }
     }
     
+    // The fallback only knows English phrasing
     return {
-      emailBody: applyFallbackToneAdjustment(originalEmail, tone),
+      emailBody: language === 'en' ? rewriteTone(originalEmail, tone) : originalEmail,
       error: errorMessage
     };
   }
 }
-
-// Fallback function to adjust email tone without using OpenAI
-function applyFallbackToneAdjustment(email: string, tone: string): string {
-  // Extract parts of the email - we'll use these to construct a completely new email
-  
-  // Extract the salutation (Dear...)
-  const salutationMatch = email.match(/^(Dear.*?)(?=\n)/);
-  const salutation = salutationMatch ? salutationMatch[0] : "Dear City Official";
-  
-  // Extract the signoff (Sincerely...)
-  const signoffMatch = email.match(/\n(Sincerely|Regards|Thank you|Best regards|Yours truly|Respectfully).*$/);
-  const signoff = signoffMatch ? signoffMatch[0].trim() : "\n\nSincerely,\n[Your Name]";
-  
-  // Extract key information from the email to preserve in the tone-adjusted version
-  const locationMatch = email.match(/\b(?:at|near|on|in|by)\s+([A-Za-z0-9\s\.]+(?:Street|Avenue|Road|Place|Blvd|Boulevard|Lane|Drive|Way|Intersection|Park|Plaza|Square|Ave\.|Rd\.|St\.|Dr\.))/i);
-  const location = locationMatch ? locationMatch[0] : "in our community";
-  
-  // Extract type of issue from the original email
-  const issueTypeMatch = email.match(/\b(?:pothole|crosswalk|sidewalk|streetlight|traffic light|sign|infrastructure|safety hazard|drainage|flooding|accessibility)\b/i);
-  const issueType = issueTypeMatch ? issueTypeMatch[0].toLowerCase() : "infrastructure issue";
-  
-  // Apply tone adjustments - adjust only the tone without adding fictional details
-  let adjustedEmail = "";
-  
-  switch(tone.toLowerCase()) {
-    case "professional":
-      adjustedEmail = `${salutation},\n\nI'm writing to inform you about a ${issueType} ${location} that requires attention. This presents a safety concern for residents using this area.\n\nWould your department be able to address this matter? I'm available to provide any additional information that might be helpful.\n\n${signoff}`;
-      break;
-      
-    case "formal":
-      adjustedEmail = `${salutation},\n\nI'm writing to request your department's attention to a ${issueType} ${location}.\n\nThis infrastructure issue falls under your department's responsibility and should be addressed per municipal standards.\n\n${signoff}`;
-      break;
-      
-    case "assertive":
-      adjustedEmail = `${salutation},\n\nThe ${issueType} ${location} needs immediate attention. This presents a clear safety risk that should be addressed promptly.\n\nI expect this matter to be resolved soon. Please inform me of what steps will be taken to fix this issue.\n\n${signoff}`;
-      break;
-      
-    case "concerned":
-      adjustedEmail = `${salutation},\n\nI'm concerned about the ${issueType} ${location} in our community. This issue creates difficulties for residents and could lead to injuries if not addressed.\n\nPlease consider the safety impact this has on our community and address it soon.\n\n${signoff}`;
-      break;
-      
-    case "personal":
-      adjustedEmail = `${salutation},\n\nI wanted to reach out about the ${issueType} ${location} that I frequently encounter. This has been causing problems for myself and others in the area.\n\nOur neighborhood would really benefit from having this fixed. I appreciate your consideration of this request.\n\n${signoff}`;
-      break;
-      
-    default:
-      // If unknown tone, return original
-      return email;
-  }
-  
-  return adjustedEmail;
-}
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readPartialNumber, readPartialString } from "./partial-json";
+
+// A reply as a model streams it, with escapes in the body
+const reply = JSON.stringify({
+  subject: "Pothole at Main St & 4th Ave",
+  body: "Dear Streets,\n\nThe \"deep\" hole is 2 feet wide \u2014 see C:\\photos.\n\nThanks",
+  departmentId: 3
+});
+
+test("a truncated string reads as far as it has arrived", () => {
+  const cut = reply.slice(0, reply.indexOf("Main St") + "Main".length);
+  assert.deepEqual(readPartialString(cut, "subject"), { value: "Pothole at Main", complete: false });
+  assert.equal(readPartialString(cut, "body"), undefined);
+});
+
+test("a complete string reads in full, with its escapes", () => {
+  assert.deepEqual(readPartialString(reply, "body"), {
+    value: "Dear Streets,\n\nThe \"deep\" hole is 2 feet wide \u2014 see C:\\photos.\n\nThanks",
+    complete: true
+  });
+});
+
+test("every prefix of a stream reads a prefix of the final value", () => {
+  const final = JSON.parse(reply).body as string;
+  let previous = "";
+  for (let length = 0; length <= reply.length; length++) {
+    const read = readPartialString(reply.slice(0, length), "body");
+    if (!read) continue;
+    assert.ok(final.startsWith(read.value), `at ${length}: ${JSON.stringify(read.value)}`);
+    assert.ok(read.value.length >= previous.length, `at ${length}: went back`);
+    previous = read.value;
+  }
+  assert.equal(previous, final);
+});
+
+test("an escape cut off at the end is left for the next read", () => {
+  assert.deepEqual(readPartialString('{"body": "a\\', "body"), { value: "a", complete: false });
+  assert.deepEqual(readPartialString('{"body": "a\\u20', "body"), { value: "a", complete: false });
+  assert.deepEqual(readPartialString('{"body": "a\\u2014', "body"), { value: "a\u2014", complete: false });
+});
+
+test("a field name inside a string value isn't taken for the field", () => {
+  const json = '{"body": "say \\"subject\\": no", "subject": "Yes"}';
+  assert.deepEqual(readPartialString(json, "subject"), { value: "Yes", complete: true });
+});
+
+test("a number is read once something follows it", () => {
+  assert.equal(readPartialNumber('{"departmentId": 1', "departmentId"), undefined);
+  assert.equal(readPartialNumber('{"departmentId": 12', "departmentId"), undefined);
+  assert.equal(readPartialNumber('{"departmentId": 12}', "departmentId"), 12);
+  assert.equal(readPartialNumber(reply, "departmentId"), 3);
+});
+
+test("a number written as a string is read once its quote closes", () => {
+  assert.equal(readPartialNumber('{"departmentId": "12', "departmentId"), undefined);
+  assert.equal(readPartialNumber('{"departmentId": "12", ', "departmentId"), 12);
+  assert.equal(readPartialNumber('{"departmentId": "none"}', "departmentId"), undefined);
+});
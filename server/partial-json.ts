@@ -0,0 +1,63 @@
+// Reading fields from a JSON object while a model is still writing it, so a
+// streamed reply can be shown before it's complete. Only top-level string
+// and number fields are read; nested values aren't needed.
+
+const ESCAPES: Record<string, string> = {
+  '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t"
+};
+
+// Where a field's value starts, after `"field":`
+function valueStart(json: string, field: string): number | undefined {
+  const match = new RegExp(`(?<!\\\\)"${field}"\\s*:\\s*`).exec(json);
+  return match ? match.index + match[0].length : undefined;
+}
+
+/**
+ * The text of a string field so far, and whether its closing quote has
+ * arrived. An escape sequence cut off at the end is left for the next read.
+ */
+export function readPartialString(json: string, field: string): { value: string; complete: boolean } | undefined {
+  const start = valueStart(json, field);
+  if (start === undefined || json[start] !== '"') return undefined;
+
+  let value = "";
+  for (let index = start + 1; index < json.length; index++) {
+    const char = json[index];
+    if (char === '"') return { value, complete: true };
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+
+    const escape = json[index + 1];
+    if (escape === undefined) break;
+    if (escape === "u") {
+      const hex = json.slice(index + 2, index + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      index += 5;
+    } else {
+      value += ESCAPES[escape] ?? escape;
+      index += 1;
+    }
+  }
+  return { value, complete: false };
+}
+
+/**
+ * A number field, once it's complete. Numbers written as strings, as
+ * models sometimes do, are read too.
+ */
+export function readPartialNumber(json: string, field: string): number | undefined {
+  const start = valueStart(json, field);
+  if (start === undefined) return undefined;
+
+  if (json[start] === '"') {
+    const text = readPartialString(json, field);
+    return text?.complete && text.value.trim() !== "" && !isNaN(Number(text.value)) ? Number(text.value) : undefined;
+  }
+
+  // Only complete once something follows the digits
+  const match = /^-?\d+(?:\.\d+)?(?=\s*[,}])/.exec(json.slice(start));
+  return match ? Number(match[0]) : undefined;
+}
@@ -0,0 +1,49 @@
+import { Project } from "@shared/schema";
+
+export type ProgressStatus = Project["progressStatus"];
+
+// Statuses that are set by officials or moderators and never downgraded
+// by community activity
+const OFFICIAL_STATUSES: ProgressStatus[] = [
+  'official_acknowledgment',
+  'planning_stage',
+  'implementation',
+  'completed'
+];
+
+/**
+ * Whether officials or moderators have moved a project along
+ */
+export function isOfficialStatus(status: ProgressStatus): boolean {
+  return OFFICIAL_STATUSES.includes(status);
+}
+
+/**
+ * Determine a project's progress status based on upvotes and emails
+ */
+export function determineProgressStatus(
+  upvotes: number,
+  emailsSent: number,
+  currentStatus: ProgressStatus
+): ProgressStatus {
+  // Don't downgrade from these statuses
+  if (OFFICIAL_STATUSES.includes(currentStatus)) {
+    return currentStatus;
+  }
+  
+  if (emailsSent >= 50) {
+    return 'email_campaign_active';
+  } else if (upvotes >= 25) {
+    return 'community_support';
+  } else {
+    return 'idea_submitted';
+  }
+}
+
+/**
+ * Status after an official replied about a project. Projects officials have
+ * already moved further along keep their status.
+ */
+export function acknowledgedStatus(currentStatus: ProgressStatus): ProgressStatus {
+  return OFFICIAL_STATUSES.includes(currentStatus) ? currentStatus : 'official_acknowledgment';
+}
@@ -0,0 +1,60 @@
+import { progressStatusEnum, Project, Upvote } from "@shared/schema";
+import { determineProgressStatus, type ProgressStatus } from "./progress";
+
+// Helpers shared by the storage backends to implement IStorage.mergeProjects
+
+export class ProjectMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectMergeError";
+  }
+}
+
+/**
+ * Reject merges that would lose data or create redirect loops
+ */
+export function checkMerge(target: Project, source: Project): void {
+  if (target.id === source.id) {
+    throw new ProjectMergeError("A project cannot be merged into itself");
+  }
+  if (source.mergedIntoId !== null) {
+    throw new ProjectMergeError(`Project ${source.id} has already been merged`);
+  }
+  if (target.mergedIntoId !== null) {
+    throw new ProjectMergeError(`Project ${target.id} has been merged and cannot receive merges`);
+  }
+}
+
+// Two upvotes count as the same person when they share an IP address or user
+export function isSameUpvoter(a: Upvote, b: Upvote): boolean {
+  return a.ipAddress === b.ipAddress || (a.userId !== null && a.userId === b.userId);
+}
+
+/**
+ * Upvotes of the source project that duplicate one already on the target
+ */
+export function duplicateUpvotes(targetUpvotes: Upvote[], sourceUpvotes: Upvote[]): Upvote[] {
+  return sourceUpvotes.filter(upvote => targetUpvotes.some(existing => isSameUpvoter(existing, upvote)));
+}
+
+/**
+ * Progress status of the merged project: the further along of the two,
+ * re-evaluated against the combined counters
+ */
+export function mergedProgressStatus(
+  target: Project,
+  source: Project,
+  upvotes: number,
+  emailsSent: number
+): ProgressStatus {
+  const order = progressStatusEnum.enumValues;
+  const furthest = order.indexOf(source.progressStatus) > order.indexOf(target.progressStatus)
+    ? source.progressStatus
+    : target.progressStatus;
+  
+  return determineProgressStatus(upvotes, emailsSent, furthest);
+}
+
+export function mergeActivityDescription(source: Project): string {
+  return `Merged duplicate project #${source.id} (${source.title}) into this project`;
+}
@@ -0,0 +1,261 @@
+import { and, asc, desc, eq, gt, gte, isNull, lt, lte, or, sql, type SQL, type SQLWrapper } from "drizzle-orm";
+import {
+  projects as pgProjects,
+  Project, ProjectQuery, ProjectQueryResult, ProjectSortKey,
+  GeoBounds, GeoPoint, ProjectWithDistance
+} from "@shared/schema";
+import { projects as sqliteProjects } from "@shared/sqlite-schema";
+import { boundsAround, distanceMeters, isWithinBounds, projectPoint, withDistances, METERS_PER_DEGREE, DEFAULT_RADIUS_METERS } from "./geo";
+
+// Helpers shared by the storage backends to implement IStorage.queryProjects
+// and the geospatial lookups
+
+export type ProjectsTable = typeof pgProjects | typeof sqliteProjects;
+
+// Position in a sorted listing: the sort key's value and the project id as tie-breaker
+interface ProjectCursor {
+  value: number;
+  id: number;
+}
+
+const URGENCY_RANK: Record<Project["urgencyLevel"], number> = {
+  low: 1,
+  medium: 2,
+  high: 3
+};
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid pagination cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export function encodeCursor(project: Project, sort: ProjectSortKey): string {
+  const cursor: ProjectCursor = { value: projectSortValue(project, sort), id: project.id };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): ProjectCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof parsed.value === "number" && typeof parsed.id === "number") {
+      return parsed;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+function projectSortValue(project: Project, sort: ProjectSortKey): number {
+  switch (sort) {
+    case "upvotes":
+      return project.upvotes;
+    case "emailsSent":
+      return project.emailsSent;
+    case "createdAt":
+      return project.createdAt.getTime();
+    case "urgency":
+      return URGENCY_RANK[project.urgencyLevel];
+  }
+}
+
+// Build the paginated result from a page fetched with one extra row
+export function toQueryResult(rows: Project[], total: number, query: ProjectQuery): ProjectQueryResult {
+  const items = rows.slice(0, query.limit);
+  const hasMore = rows.length > query.limit;
+
+  return {
+    items,
+    total,
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1], query.sort) : null
+  };
+}
+
+/**
+ * Run a project query against an in-memory list of projects
+ */
+export function queryProjectsInMemory(allProjects: Project[], query: ProjectQuery): ProjectQueryResult {
+  const search = query.search?.toLowerCase();
+  const center = query.lat !== undefined && query.lng !== undefined ? { lat: query.lat, lng: query.lng } : undefined;
+  const radius = query.radiusMeters ?? DEFAULT_RADIUS_METERS;
+
+  const matching = allProjects.filter(project =>
+    project.mergedIntoId === null &&
+    (!search ||
+      project.title.toLowerCase().includes(search) ||
+      project.description.toLowerCase().includes(search) ||
+      project.location.toLowerCase().includes(search)) &&
+    (!query.issueType || project.issueType === query.issueType) &&
+    (!query.status || project.progressStatus === query.status) &&
+    (!query.urgency || project.urgencyLevel === query.urgency) &&
+    (!query.createdAfter || project.createdAt >= query.createdAfter) &&
+    (!query.createdBefore || project.createdAt <= query.createdBefore) &&
+    (query.createdBy === undefined || project.createdBy === query.createdBy) &&
+    (!center || distanceMeters(center, projectPoint(project)) <= radius)
+  );
+
+  const direction = query.order === "asc" ? 1 : -1;
+  const compare = (a: Project, b: Project) =>
+    direction * (projectSortValue(a, query.sort) - projectSortValue(b, query.sort) || a.id - b.id);
+  matching.sort(compare);
+
+  let page = matching;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    page = matching.filter(project => {
+      const value = projectSortValue(project, query.sort);
+      return direction * (value - cursor.value || project.id - cursor.id) > 0;
+    });
+  } else if (query.offset) {
+    page = matching.slice(query.offset);
+  }
+
+  return toQueryResult(page.slice(0, query.limit + 1), matching.length, query);
+}
+
+// LIKE pattern for text containing `search`, with its wildcards and escape
+// character taken literally. Used with ESCAPE '\', which SQLite needs
+// spelled out.
+function containsPattern(search: string): string {
+  return `%${search.toLowerCase().replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+/**
+ * WHERE clause for the filters of a project query (excluding the cursor)
+ */
+export function projectQueryFilters(table: ProjectsTable, query: ProjectQuery): SQL | undefined {
+  // Merged projects are redirect stubs and never listed
+  const conditions: (SQL | undefined)[] = [isNull(table.mergedIntoId)];
+
+  if (query.search) {
+    const pattern = containsPattern(query.search);
+    conditions.push(or(
+      sql`lower(${table.title}) like ${pattern} escape '\\'`,
+      sql`lower(${table.description}) like ${pattern} escape '\\'`,
+      sql`lower(${table.location}) like ${pattern} escape '\\'`
+    ));
+  }
+  if (query.issueType) conditions.push(eq(table.issueType, query.issueType));
+  if (query.status) conditions.push(eq(table.progressStatus, query.status));
+  if (query.urgency) conditions.push(eq(table.urgencyLevel, query.urgency));
+  if (query.createdAfter) conditions.push(gte(table.createdAt, query.createdAfter));
+  if (query.createdBefore) conditions.push(lte(table.createdAt, query.createdBefore));
+  if (query.createdBy !== undefined) conditions.push(eq(table.createdBy, query.createdBy));
+  if (query.lat !== undefined && query.lng !== undefined) {
+    conditions.push(withinRadius(table, { lat: query.lat, lng: query.lng }, query.radiusMeters ?? DEFAULT_RADIUS_METERS));
+  }
+
+  return and(...conditions);
+}
+
+function sortExpression(table: ProjectsTable, sort: ProjectSortKey): SQLWrapper {
+  switch (sort) {
+    case "upvotes":
+      return table.upvotes;
+    case "emailsSent":
+      return table.emailsSent;
+    case "createdAt":
+      // Cursors hold milliseconds, but Postgres timestamps keep microseconds.
+      // Sorting and comparing at the cursor's precision keeps rows created
+      // within a millisecond from repeating or being skipped between pages.
+      return table === pgProjects ? sql`date_trunc('milliseconds', ${table.createdAt})` : table.createdAt;
+    case "urgency":
+      return sql<number>`case ${table.urgencyLevel} when 'low' then 1 when 'medium' then 2 when 'high' then 3 end`;
+  }
+}
+
+/**
+ * WHERE clause selecting the rows after the query's cursor, if it has one
+ */
+export function projectQueryCursor(table: ProjectsTable, query: ProjectQuery): SQL | undefined {
+  if (!query.cursor) return undefined;
+
+  const cursor = decodeCursor(query.cursor);
+  const expression = sortExpression(table, query.sort);
+  // The Postgres sort expression isn't a column, so its value is bound the
+  // way the timestamp column would bind it
+  const value = query.sort !== "createdAt"
+    ? cursor.value
+    : table === pgProjects ? new Date(cursor.value).toISOString() : new Date(cursor.value);
+  const after = query.order === "asc" ? gt : lt;
+
+  return or(
+    after(expression, value),
+    and(eq(expression, value), after(table.id, cursor.id))
+  );
+}
+
+/**
+ * ORDER BY clause for a project query, with the id as a stable tie-breaker
+ */
+export function projectQueryOrder(table: ProjectsTable, query: ProjectQuery): SQL[] {
+  const direction = query.order === "asc" ? asc : desc;
+  return [direction(sortExpression(table, query.sort)), direction(table.id)];
+}
+
+/**
+ * WHERE clause selecting projects inside a bounding box
+ */
+export function withinBounds(table: ProjectsTable, bounds: GeoBounds): SQL {
+  return and(
+    gte(table.latitude, bounds.south),
+    lte(table.latitude, bounds.north),
+    gte(table.longitude, bounds.west),
+    lte(table.longitude, bounds.east)
+  )!;
+}
+
+/**
+ * Approximate squared distance in metres from a point, using an
+ * equirectangular projection. Accurate to well under 1% at city scale and
+ * needs no trigonometry in SQL, so it works the same on Postgres and SQLite.
+ */
+export function squaredDistance(table: ProjectsTable, center: GeoPoint): SQL<number> {
+  const latScale = METERS_PER_DEGREE;
+  const lngScale = METERS_PER_DEGREE * Math.cos(center.lat * Math.PI / 180);
+  const dy = sql`((${table.latitude} - ${center.lat}) * ${latScale})`;
+  const dx = sql`((${table.longitude} - ${center.lng}) * ${lngScale})`;
+  return sql<number>`(${dx} * ${dx} + ${dy} * ${dy})`;
+}
+
+/**
+ * WHERE clause selecting projects within a radius of a point. The bounding
+ * box lets the coordinates index narrow the scan before the distance check.
+ */
+export function withinRadius(table: ProjectsTable, center: GeoPoint, radiusMeters: number): SQL {
+  return and(
+    withinBounds(table, boundsAround(center, radiusMeters)),
+    sql`${squaredDistance(table, center)} <= ${radiusMeters * radiusMeters}`
+  )!;
+}
+
+/**
+ * Projects within a radius of a point, nearest first, optionally only those
+ * of one issue type
+ */
+export function findNearbyInMemory(
+  allProjects: Project[],
+  center: GeoPoint,
+  radiusMeters: number,
+  limit: number,
+  issueType?: Project["issueType"]
+): ProjectWithDistance[] {
+  const nearby = allProjects.filter(project =>
+    project.mergedIntoId === null &&
+    (!issueType || project.issueType === issueType) &&
+    distanceMeters(center, projectPoint(project)) <= radiusMeters
+  );
+  return withDistances(nearby, center).slice(0, limit);
+}
+
+/**
+ * Projects inside a bounding box, most upvoted first
+ */
+export function findInBoundsInMemory(allProjects: Project[], bounds: GeoBounds, limit: number): Project[] {
+  return allProjects
+    .filter(project => project.mergedIntoId === null && isWithinBounds(projectPoint(project), bounds))
+    .sort((a, b) => b.upvotes - a.upvotes)
+    .slice(0, limit);
+}
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { PromptRollout } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { isPromptName, renderPrompt, signPromptVersion, verifyPromptVersion } from "./prompts";
+
+const details = {
+  issueType: "pothole",
+  location: "Main St & 4th Ave",
+  description: "Deep hole near the bus stop",
+  urgencyLevel: "high",
+  language: "en"
+};
+
+const variables = {
+  jurisdiction: "Imperial Valley, CA",
+  issueType: details.issueType,
+  location: details.location,
+  urgencyLevel: details.urgencyLevel,
+  description: details.description,
+  departments: "1: Streets",
+  language: "English"
+};
+
+// Only the rollout lookup is needed to render a prompt
+function storageWithRollout(rollout?: PromptRollout): IStorage {
+  return { getPromptRollout: async () => rollout } as unknown as IStorage;
+}
+
+test("a signed version verifies for the details it was signed for", () => {
+  const signed = signPromptVersion("email_template@2", details);
+  assert.equal(verifyPromptVersion(signed, details), "email_template@2");
+});
+
+test("a signed version doesn't verify for other details", () => {
+  const signed = signPromptVersion("email_template@2", details);
+  assert.equal(verifyPromptVersion(signed, { ...details, location: "500 Elm St" }), null);
+  assert.equal(verifyPromptVersion(signed, { ...details, language: "es" }), null);
+});
+
+test("a signed version expires after a day", () => {
+  const now = Date.now();
+  const signed = signPromptVersion("email_template@1", details, now);
+  assert.equal(verifyPromptVersion(signed, details, now + 23 * 60 * 60 * 1000), "email_template@1");
+  assert.equal(verifyPromptVersion(signed, details, now + 25 * 60 * 60 * 1000), null);
+});
+
+test("a changed version or expiry doesn't verify", () => {
+  const signed = signPromptVersion("email_template@1", details);
+  const [, expiresAt, signature] = signed.split(".");
+  assert.equal(verifyPromptVersion(`email_template@2.${expiresAt}.${signature}`, details), null);
+  assert.equal(verifyPromptVersion(`email_template@1.${Number(expiresAt) + 1000}.${signature}`, details), null);
+});
+
+test("versions that aren't signed don't verify", () => {
+  assert.equal(verifyPromptVersion("email_template@1", details), null);
+  assert.equal(verifyPromptVersion(null, details), null);
+  assert.equal(verifyPromptVersion(undefined, details), null);
+});
+
+test("only registered prompts are prompt names", () => {
+  assert.equal(isPromptName("email_template"), true);
+  assert.equal(isPromptName("constructor"), false);
+  assert.equal(isPromptName("toString"), false);
+});
+
+test("prompts render their current version without a rollout", async () => {
+  const prompt = await renderPrompt(storageWithRollout(), "email_template", variables);
+  assert.equal(prompt.id, "email_template@1");
+  assert.ok(prompt.messages.every(message => !message.content.includes("{{")));
+  assert.ok(prompt.messages[1].content.includes("Main St & 4th Ave"));
+});
+
+test("a rollout renders its version for its share of requests", async () => {
+  const storage = storageWithRollout({ name: "email_template", version: 2, percent: 25, updatedAt: new Date() });
+  assert.equal((await renderPrompt(storage, "email_template", variables, () => 0.1)).id, "email_template@2");
+  assert.equal((await renderPrompt(storage, "email_template", variables, () => 0.5)).id, "email_template@1");
+});
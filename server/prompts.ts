@@ -0,0 +1,252 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { PromptRollout } from "@shared/schema";
+import type { LlmMessage } from "./llm-providers";
+import type { IStorage } from "./storage";
+
+// Prompt registry: the system and user prompts the AI functions send, by name
+// and version. Templates mark variables as {{name}}, and each prompt declares
+// the variables it takes, so callers must supply all of them and templates
+// can't use others. Wording changes are added as new versions rather than
+// edited in place, so the version recorded with an email names the exact
+// words that wrote it. A prompt renders its current version, except for the
+// share of requests an admin has rolled another version out to. Clients get
+// the version of the prompt that wrote their email signed, along with the
+// issue details it was written from and an expiry, and send it back with
+// the project. Projects only record versions the server rendered for their
+// own details.
+
+export const PROMPT_VARIABLES = {
+  email_template: ["jurisdiction", "issueType", "location", "urgencyLevel", "description", "departments", "language"],
+  tone_rewrite: ["tone", "originalEmail", "language"],
+  photo_analysis: [],
+  translation: ["from", "to", "subject", "body"],
+  test: []
+} as const;
+
+export type PromptName = keyof typeof PROMPT_VARIABLES;
+
+// The variables a prompt is rendered with, all as text
+export type PromptVariables<N extends PromptName> = Record<typeof PROMPT_VARIABLES[N][number], string>;
+
+export interface PromptTemplate {
+  version: number;
+  system?: string;
+  user: string;
+}
+
+interface PromptDefinition {
+  // Version rendered unless a rollout applies
+  current: number;
+  versions: PromptTemplate[];
+}
+
+// Without SESSION_SECRET, versions signed before a restart no longer verify
+// and their projects record none
+const PROMPT_SIGNING_SECRET = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
+
+// How long a signed version can be sent back with a new project
+const SIGNED_VERSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// The issue details an email was written from, which a signed version is
+// tied to
+export interface PromptVersionDetails {
+  issueType: string;
+  location: string;
+  description: string;
+  urgencyLevel: string;
+  language: string;
+}
+
+export class PromptRolloutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptRolloutError";
+  }
+}
+
+const PROMPTS: Record<PromptName, PromptDefinition> = {
+  email_template: {
+    current: 1,
+    versions: [
+      {
+        version: 1,
+        system: "You are an assistant helping citizens write brief, friendly emails to local officials about infrastructure issues. Create short, fact-based emails that sound natural but ONLY use the information provided. Avoid overly formal language and stick strictly to the details given. Never add fictional scenarios, personal stories, or made-up examples. Limit emails to 2-3 short paragraphs. Include a subject line and choose the most appropriate municipal department from the list you are given. Write the subject and email in {{language}}.",
+        user: "Please write a clear, concise email to a local city official in {{jurisdiction}} about a {{issueType}} issue at {{location}}. The urgency level is {{urgencyLevel}}. Here's a description of the issue: \"{{description}}\". Use ONLY the information provided - do not add fictional details or scenarios. Write it in {{language}}.\n\nChoose the recipient from these departments only:\n{{departments}}\n\nFormat your response as JSON with fields: emailSubject, departmentId (the id of the chosen department), and emailBody."
+      },
+      {
+        // Keeps the sender's name as a placeholder and the urgency as given
+        version: 2,
+        system: "You are an assistant helping citizens write brief, friendly emails to local officials about infrastructure issues. Create short, fact-based emails that sound natural but ONLY use the information provided. Avoid overly formal language and stick strictly to the details given. Never add fictional scenarios, personal stories, or made-up examples. Limit emails to 2-3 short paragraphs. Include a subject line and choose the most appropriate municipal department from the list you are given. Sign off with the placeholder [Your Name], which the sender replaces, and never invent a name. Don't describe the issue as more urgent than the urgency level you are given. Write the subject and email in {{language}}.",
+        user: "Please write a clear, concise email to a local city official in {{jurisdiction}} about a {{issueType}} issue at {{location}}. The urgency level is {{urgencyLevel}}. Here's a description of the issue: \"{{description}}\". Use ONLY the information provided - do not add fictional details or scenarios. Write it in {{language}}.\n\nChoose the recipient from these departments only:\n{{departments}}\n\nFormat your response as JSON with fields: emailSubject, departmentId (the id of the chosen department), and emailBody."
+      }
+    ]
+  },
+  tone_rewrite: {
+    current: 1,
+    versions: [
+      {
+        version: 1,
+        system: "You are an assistant helping citizens write brief emails to local officials. You'll be given an existing email and asked to rewrite it with a {{tone}} tone. IMPORTANT: Don't add any fictional details, names, or scenarios that weren't in the original email. Only adjust the tone and writing style without embellishing or adding new information. Keep it short (2-3 paragraphs) and ensure you only use facts from the original email. Write it in {{language}}.",
+        user: "Please rewrite this email with a {{tone}} tone. Keep it brief and stick ONLY to the information provided in the original email. DO NOT add any fictional details, people, or scenarios:\n\n{{originalEmail}}"
+      }
+    ]
+  },
+  photo_analysis: {
+    current: 1,
+    versions: [
+      {
+        version: 1,
+        system: "You are an AI specialized in identifying urban infrastructure issues.\nAnalyze the provided photo and determine which category the issue falls into:\n'pothole', 'sidewalk', 'crosswalk', 'streetlight', or 'other'.\nProvide a confidence score (0-1) for your classification and a brief description of what you see.\nFormat your response as a JSON object with keys: issueType, confidence, and description.",
+        user: "Analyze this infrastructure issue and classify it based on what you see."
+      }
+    ]
+  },
+  translation: {
+    current: 1,
+    versions: [
+      {
+        version: 1,
+        system: "You translate emails from residents to local officials from {{from}} to {{to}}. Translate faithfully: keep every fact, name, address and number, keep the tone and paragraph breaks, and don't add or leave out anything. Keep placeholders in square brackets, translating only the words inside them. Format your response as JSON with fields: emailSubject and emailBody.",
+        user: "Subject: {{subject}}\n\n{{body}}"
+      }
+    ]
+  },
+  test: {
+    current: 1,
+    versions: [
+      {
+        version: 1,
+        user: "Say 'AI provider is working!'"
+      }
+    ]
+  }
+};
+
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+// Check the registry when the server starts rather than when a prompt is
+// first rendered
+for (const [name, prompt] of Object.entries(PROMPTS) as [PromptName, PromptDefinition][]) {
+  const declared: readonly string[] = PROMPT_VARIABLES[name];
+  for (const template of prompt.versions) {
+    for (const [, variable] of Array.from(`${template.system ?? ""}${template.user}`.matchAll(VARIABLE_PATTERN))) {
+      if (!declared.includes(variable)) {
+        throw new Error(`Prompt ${name}@${template.version} uses undeclared variable {{${variable}}}`);
+      }
+    }
+  }
+  if (!prompt.versions.some(template => template.version === prompt.current)) {
+    throw new Error(`Prompt ${name} has no current version ${prompt.current}`);
+  }
+}
+
+export function isPromptName(name: string): name is PromptName {
+  return Object.hasOwn(PROMPTS, name);
+}
+
+function findVersion(name: PromptName, version: number): PromptTemplate | undefined {
+  return PROMPTS[name].versions.find(template => template.version === version);
+}
+
+function fill(template: string, variables: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (_, variable: string) => variables[variable]);
+}
+
+/**
+ * Render a prompt as chat messages. The version is the rollout's for its
+ * share of requests and the current one otherwise. `id`, such as
+ * "email_template@2", is what's recorded with the email it writes.
+ */
+export async function renderPrompt<N extends PromptName>(
+  storage: IStorage,
+  name: N,
+  variables: PromptVariables<N>,
+  random = Math.random
+): Promise<{ id: string; messages: LlmMessage[] }> {
+  const rollout = await storage.getPromptRollout(name);
+  const rolledOut = rollout && random() * 100 < rollout.percent ? findVersion(name, rollout.version) : undefined;
+  const template = rolledOut ?? findVersion(name, PROMPTS[name].current)!;
+
+  const messages: LlmMessage[] = [];
+  if (template.system) {
+    messages.push({ role: "system", content: fill(template.system, variables) });
+  }
+  messages.push({ role: "user", content: fill(template.user, variables) });
+
+  return { id: `${name}@${template.version}`, messages };
+}
+
+function versionSignature(id: string, expiresAt: number, details: PromptVersionDetails): string {
+  const detailsHash = createHash('sha256')
+    .update(JSON.stringify([details.issueType, details.location, details.description, details.urgencyLevel, details.language]))
+    .digest('hex');
+  return createHmac('sha256', PROMPT_SIGNING_SECRET)
+    .update(`prompt:${id}:${expiresAt}:${detailsHash}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * A rendered prompt's id, signed for the client to send back with the
+ * project whose details it wrote an email for, such as
+ * "email_template@2.1760976000000.3f9c0a1b2d4e5f60"
+ */
+export function signPromptVersion(id: string, details: PromptVersionDetails, now = Date.now()): string {
+  const expiresAt = now + SIGNED_VERSION_TTL_MS;
+  return `${id}.${expiresAt}.${versionSignature(id, expiresAt, details)}`;
+}
+
+/**
+ * The prompt id in a signed version, or null unless this server signed it
+ * for these details and it hasn't expired
+ */
+export function verifyPromptVersion(
+  signed: string | null | undefined,
+  details: PromptVersionDetails,
+  now = Date.now()
+): string | null {
+  const match = signed?.match(/^([a-z_]+@\d+)\.(\d+)\.([0-9a-f]{16})$/);
+  if (!match) return null;
+
+  const expiresAt = parseInt(match[2]);
+  if (expiresAt < now) return null;
+
+  const signature = Buffer.from(match[3]);
+  const expected = Buffer.from(versionSignature(match[1], expiresAt, details));
+  return timingSafeEqual(signature, expected) ? match[1] : null;
+}
+
+/**
+ * Every prompt with its variables, versions and rollout, for admins
+ */
+export async function listPrompts(storage: IStorage): Promise<{
+  name: PromptName;
+  variables: readonly string[];
+  current: number;
+  versions: PromptTemplate[];
+  rollout: PromptRollout | null;
+}[]> {
+  const rollouts = await storage.getPromptRollouts();
+  return (Object.keys(PROMPTS) as PromptName[]).map(name => ({
+    name,
+    variables: PROMPT_VARIABLES[name],
+    current: PROMPTS[name].current,
+    versions: PROMPTS[name].versions,
+    rollout: rollouts.find(rollout => rollout.name === name) ?? null
+  }));
+}
+
+/**
+ * Render `version` of a prompt for `percent` of requests. Throws
+ * PromptRolloutError if the prompt has no such version.
+ */
+export async function rolloutPromptVersion(
+  storage: IStorage,
+  name: PromptName,
+  rollout: { version: number; percent: number }
+): Promise<PromptRollout> {
+  if (!findVersion(name, rollout.version)) {
+    throw new PromptRolloutError(`Prompt ${name} has no version ${rollout.version}`);
+  }
+  return storage.setPromptRollout({ name, ...rollout });
+}
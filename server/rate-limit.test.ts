@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+// Limits are read when the module is imported
+process.env.SEND_LIMIT_PER_IP = "3";
+process.env.SEND_LIMIT_PER_SENDER = "2";
+process.env.SEND_LIMIT_PER_USER = "0";
+process.env.SEND_LIMIT_PER_PROJECT = "5";
+process.env.PREVIEW_LIMIT_PER_IP = "2";
+
+const { MemStorage } = await import("./storage");
+const { SqliteStorage } = await import("./sqlite-storage");
+const { RateLimitError, consumePreviewLimit, consumeSendLimits } = await import("./rate-limit");
+
+const now = new Date("2026-03-10T18:00:00Z");
+const nextDay = new Date("2026-03-11T00:00:00Z");
+
+const backends = {
+  memory: () => new MemStorage(),
+  sqlite: () => new SqliteStorage(":memory:")
+};
+
+for (const [backend, createStorage] of Object.entries(backends)) {
+  test(`${backend}: sends are refused once an address reaches its limit`, async () => {
+    const storage = createStorage();
+    await consumeSendLimits(storage, { projectId: 1, ipAddress: "10.0.0.1", senderEmail: "Pat@Example.com" }, now);
+    await consumeSendLimits(storage, { projectId: 1, ipAddress: "10.0.0.2", senderEmail: "pat@example.com" }, now);
+
+    await assert.rejects(
+      consumeSendLimits(storage, { projectId: 1, ipAddress: "10.0.0.3", senderEmail: "pat@example.com " }, now),
+      (error: unknown) => {
+        assert.ok(error instanceof RateLimitError);
+        assert.equal(error.message, "Too many emails have been sent from pat@example.com today (limit 2)");
+        assert.equal(error.retryAfterSeconds, 6 * 60 * 60);
+        return true;
+      }
+    );
+
+    // The refused send wasn't counted against its IP address
+    await consumeSendLimits(storage, { projectId: 1, ipAddress: "10.0.0.3" }, now);
+  });
+
+  test(`${backend}: sends without a proven address count against their IP address`, async () => {
+    const storage = createStorage();
+    for (let send = 0; send < 3; send++) {
+      await consumeSendLimits(storage, { projectId: 1, ipAddress: "10.0.0.1", senderEmail: null }, now);
+    }
+    await assert.rejects(
+      consumeSendLimits(storage, { projectId: 2, ipAddress: "10.0.0.1" }, now),
+      /Too many emails have been sent from your network today \(limit 3\)/
+    );
+  });
+
+  test(`${backend}: a project is limited across senders`, async () => {
+    const storage = createStorage();
+    for (let send = 0; send < 5; send++) {
+      await consumeSendLimits(storage, { projectId: 7, ipAddress: `10.0.1.${send}` }, now);
+    }
+    await assert.rejects(
+      consumeSendLimits(storage, { projectId: 7, ipAddress: "10.0.2.1" }, now),
+      /This project has reached its limit of 5 emails for today/
+    );
+    await consumeSendLimits(storage, { projectId: 8, ipAddress: "10.0.2.1" }, now);
+  });
+
+  test(`${backend}: a limit of 0 isn't checked`, async () => {
+    const storage = createStorage();
+    for (let send = 0; send < 5; send++) {
+      await consumeSendLimits(storage, { projectId: send, userId: 1 }, now);
+    }
+  });
+
+  test(`${backend}: counts start over each day`, async () => {
+    const storage = createStorage();
+    for (let send = 0; send < 3; send++) {
+      await consumeSendLimits(storage, { projectId: 1, ipAddress: "10.0.0.1" }, now);
+    }
+    await assert.rejects(consumeSendLimits(storage, { projectId: 1, ipAddress: "10.0.0.1" }, now), RateLimitError);
+    await consumeSendLimits(storage, { projectId: 1, ipAddress: "10.0.0.1" }, nextDay);
+  });
+
+  test(`${backend}: previews are limited per IP address, apart from sends`, async () => {
+    const storage = createStorage();
+    await consumePreviewLimit(storage, "10.0.0.1", now);
+    await consumePreviewLimit(storage, "10.0.0.1", now);
+    await assert.rejects(
+      consumePreviewLimit(storage, "10.0.0.1", now),
+      /Too many email previews have been requested from your network today \(limit 2\)/
+    );
+    await consumePreviewLimit(storage, "10.0.0.2", now);
+    await consumeSendLimits(storage, { projectId: 1, ipAddress: "10.0.0.1" }, now);
+  });
+}
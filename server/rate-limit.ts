@@ -0,0 +1,86 @@
+import type { IStorage } from "./storage";
+import { normalizeEmail } from "./email";
+
+// Daily limits on supporter emails, so a script can't inflate a project's
+// email count. Sends are counted per IP address, sender address, signed-in
+// user and project, in storage so the counts survive restarts. Only an
+// address the requester's session has proven it owns is counted, since
+// anyone could type someone else's address to use up their quota, or a new
+// one to dodge the limit; the IP limit covers the other sends. Email
+// previews are limited per IP address as well, since they can translate and
+// so spend AI budget. Windows are UTC days. A limit of 0 turns that check
+// off.
+
+function limitFromEnv(name: string, fallback: number): number {
+  return process.env[name] ? parseInt(process.env[name]!) : fallback;
+}
+
+const LIMIT_PER_IP = limitFromEnv("SEND_LIMIT_PER_IP", 20);
+const LIMIT_PER_SENDER = limitFromEnv("SEND_LIMIT_PER_SENDER", 10);
+const LIMIT_PER_USER = limitFromEnv("SEND_LIMIT_PER_USER", 20);
+const LIMIT_PER_PROJECT = limitFromEnv("SEND_LIMIT_PER_PROJECT", 500);
+const PREVIEW_LIMIT_PER_IP = limitFromEnv("PREVIEW_LIMIT_PER_IP", 200);
+
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export class RateLimitError extends Error {
+  constructor(message: string, readonly retryAfterSeconds: number) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+interface LimitCheck {
+  key: string;
+  limit: number;
+  message: string;
+}
+
+export interface SendOrigin {
+  projectId: number;
+  ipAddress?: string;
+  // Only an address the requester has proven they own
+  senderEmail?: string | null;
+  userId?: number;
+}
+
+/**
+ * Count a supporter email against the daily limits, throwing a
+ * RateLimitError if any of them has been reached
+ */
+export async function consumeSendLimits(storage: IStorage, origin: SendOrigin, now = new Date()): Promise<void> {
+  const senderEmail = normalizeEmail(origin.senderEmail);
+
+  const checks = [
+    { key: `project:${origin.projectId}`, limit: LIMIT_PER_PROJECT, message: `This project has reached its limit of ${LIMIT_PER_PROJECT} emails for today` },
+    origin.ipAddress && { key: `ip:${origin.ipAddress}`, limit: LIMIT_PER_IP, message: `Too many emails have been sent from your network today (limit ${LIMIT_PER_IP})` },
+    senderEmail && { key: `sender:${senderEmail}`, limit: LIMIT_PER_SENDER, message: `Too many emails have been sent from ${senderEmail} today (limit ${LIMIT_PER_SENDER})` },
+    origin.userId !== undefined && { key: `user:${origin.userId}`, limit: LIMIT_PER_USER, message: `You have reached today's limit of ${LIMIT_PER_USER} emails` },
+  ];
+
+  await consume(storage, checks, now);
+}
+
+/**
+ * Count an email preview against the daily limit for its IP address,
+ * throwing a RateLimitError once it has been reached
+ */
+export async function consumePreviewLimit(storage: IStorage, ipAddress: string | undefined, now = new Date()): Promise<void> {
+  await consume(storage, [
+    ipAddress && { key: `preview-ip:${ipAddress}`, limit: PREVIEW_LIMIT_PER_IP, message: `Too many email previews have been requested from your network today (limit ${PREVIEW_LIMIT_PER_IP})` }
+  ], now);
+}
+
+// Count against every applicable check, skipping absent ones and limits of 0
+async function consume(storage: IStorage, candidates: (LimitCheck | false | "" | null | undefined)[], now: Date): Promise<void> {
+  const checks = candidates.filter((check): check is LimitCheck => !!check && check.limit > 0);
+  if (checks.length === 0) return;
+
+  const windowStart = new Date(Math.floor(now.getTime() / WINDOW_MS) * WINDOW_MS);
+  const exceeded = await storage.consumeRateLimits(checks, windowStart);
+  if (!exceeded) return;
+
+  const retryAfterSeconds = Math.ceil((windowStart.getTime() + WINDOW_MS - now.getTime()) / 1000);
+  const { message } = checks.find(check => check.key === exceeded)!;
+  throw new RateLimitError(message, retryAfterSeconds);
+}
@@ -0,0 +1,73 @@
+import { Department, InsertSecurityEvent, Project, RecipientStatus } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { jurisdiction } from "./jurisdiction";
+import { normalizeEmail } from "./email";
+
+// Recipient policy, so projects can't turn CivicVoice into an open mail relay.
+// A project may email an address from the departments directory, including
+// the contacts in its escalation rules, or any address in one of the
+// jurisdiction's recipientDomains. Other recipients
+// need a moderator's approval before any email is sent to them.
+
+/**
+ * Whether the policy allows emailing an address without moderator approval
+ */
+export function isRecipientAllowed(recipient: string, departments: Department[]): boolean {
+  const address = normalizeEmail(recipient);
+  if (!address) return false;
+
+  const listed = departments.some(department =>
+    normalizeEmail(department.email) === address ||
+    department.escalationRules.some(rule => normalizeEmail(rule.email) === address)
+  );
+  if (listed) {
+    return true;
+  }
+
+  const domain = address.slice(address.lastIndexOf("@") + 1);
+  return jurisdiction.recipientDomains.some(allowed => {
+    allowed = allowed.toLowerCase();
+    return domain === allowed || domain.endsWith(`.${allowed}`);
+  });
+}
+
+/**
+ * Recipient status for a new project
+ */
+export async function recipientStatusFor(storage: IStorage, recipient: string): Promise<RecipientStatus> {
+  const departments = await storage.getDepartments();
+  return isRecipientAllowed(recipient, departments) ? 'allowed' : 'pending_approval';
+}
+
+/**
+ * Whether emails may be sent for a project
+ */
+export function canEmailRecipient(project: Project): boolean {
+  return project.recipientStatus === 'allowed' || project.recipientStatus === 'approved';
+}
+
+/**
+ * Re-apply the policy after the directory changed. Moderator decisions stand;
+ * other projects become allowed or pending depending on their recipient.
+ */
+export async function refreshRecipientStatuses(storage: IStorage): Promise<void> {
+  const departments = await storage.getDepartments();
+  const projects = await storage.getAllProjects();
+
+  for (const project of projects) {
+    if (project.recipientStatus !== 'allowed' && project.recipientStatus !== 'pending_approval') continue;
+
+    const recipientStatus = isRecipientAllowed(project.emailRecipient, departments) ? 'allowed' : 'pending_approval';
+    if (recipientStatus !== project.recipientStatus) {
+      await storage.updateProject(project.id, { recipientStatus });
+    }
+  }
+}
+
+/**
+ * Store a security event for admins and log it
+ */
+export async function recordSecurityEvent(storage: IStorage, event: InsertSecurityEvent): Promise<void> {
+  console.warn(`Security event [${event.eventType}]: ${event.description}`);
+  await storage.createSecurityEvent(event);
+}
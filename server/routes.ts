@@ -1,60 +1,176 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { generateEmailTemplate, regenerateEmailWithTone, analyzePhotoForIssueType } from "./openai";
-import { sendEmail, normalizeEmail } from "./email";
-import { insertProjectSchema, insertEmailSchema, insertUpvoteSchema, insertCommentSchema } from "@shared/schema";
+import { generateEmailTemplate, regenerateEmailWithTone, analyzePhotoForIssueType, supportsStreaming, testLlmProvider } from "./openai";
+import { processEmailQueue, retryFailedEmail, startEmailQueue, EmailQueueError } from "./email-queue";
+import { confirmSender, provenSender, rememberProvenSender, senderVerificationFields, sendVerificationRequest } from "./sender-verification";
+import { insertProjectSchema, sendEmailSchema, emailLanguageSchema, emailDetailsSchema, insertUpvoteSchema, insertCommentSchema, projectQuerySchema, nearbyQuerySchema, duplicateCheckSchema, mergeProjectsSchema, insertDepartmentSchema, emailStatusQuerySchema, recipientReviewSchema, deliveryModeSchema, emailPreviewSchema, escalationPauseSchema, aiUsageQuerySchema, promptRolloutSchema } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
-import { setupAuth } from "./auth";
-import OpenAI from "openai";
+import { setupAuth, requireRole } from "./auth";
+import { InvalidCursorError } from "./project-query";
+import { boundsCenter, withDistances } from "./geo";
+import { findDuplicateCandidates } from "./duplicates";
+import { ProjectMergeError } from "./project-merge";
+import { jurisdiction, isWithinJurisdiction } from "./jurisdiction";
+import { rankDepartments, seedDepartments } from "./departments";
+import { canEmailRecipient, recipientStatusFor, recordSecurityEvent, refreshRecipientStatuses } from "./recipient-policy";
+import { consumePreviewLimit, consumeSendLimits, RateLimitError } from "./rate-limit";
+import { startDigestScheduler } from "./digests";
+import { getEscalationSchedule, startEscalationScheduler } from "./escalations";
+import { renderProjectEmail } from "./email-render";
+import { normalizeEmail } from "./email";
+import { checkGrounding } from "./grounding";
+import { getUsageReport } from "./llm-usage";
+import { isPromptName, listPrompts, PromptRolloutError, rolloutPromptVersion, signPromptVersion, verifyPromptVersion } from "./prompts";
+import { getProjectTranslation, supporterEmailContent, TranslationError } from "./translations";
+import { ingestInboundEmail, isInboundEmailEnabled, isInboundSecret, startInboundSmtp, InboundEmailError } from "./inbound-email";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
+  // Inbound email webhook: the body is a raw RFC 822 message, and the caller
+  // authenticates with INBOUND_EMAIL_SECRET as a bearer token or ?key=.
+  // Registered ahead of the auth middleware, which would take the bearer
+  // token for a JWT and refuse it.
+  app.post("/api/inbound-email", express.raw({ type: () => true, limit: '25mb' }), async (req: Request, res: Response) => {
+    try {
+      if (!isInboundEmailEnabled()) {
+        return res.status(503).json({ message: "Inbound email is not enabled" });
+      }
+      
+      const bearer = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+      if (!isInboundSecret(bearer ?? (typeof req.query.key === "string" ? req.query.key : undefined))) {
+        return res.status(401).json({ message: "Invalid inbound email credentials" });
+      }
+      
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Expected a raw email message as the request body" });
+      }
+      
+      const { response, duplicate } = await ingestInboundEmail(storage, req.body);
+      res.status(duplicate ? 200 : 201).json(response);
+    } catch (error) {
+      // Unmatched or unofficial messages are refused without a retryable status
+      if (error instanceof InboundEmailError) {
+        return res.status(422).json({ message: error.message });
+      }
+      
+      console.error("Error receiving inbound email:", error);
+      res.status(500).json({ message: "Failed to receive inbound email" });
+    }
+  });
+  
   // Set up authentication
   setupAuth(app);
   
-  // Test endpoint for OpenAI API
+  // Fill an empty departments directory from the jurisdiction config
+  await seedDepartments(storage);
+  await refreshRecipientStatuses(storage);
+  
+  // Deliver queued supporter emails in the background
+  await startEmailQueue(storage);
+  
+  // Send daily digests for projects collecting signatures
+  startDigestScheduler(storage);
+  
+  // Copy in more officials when projects go unanswered
+  startEscalationScheduler(storage);
+  
+  // Receive officials' replies over SMTP, when INBOUND_SMTP_PORT is set
+  startInboundSmtp(storage);
+  
+  // Test endpoint for the configured AI provider
   app.get("/api/test-openai", async (req: Request, res: Response) => {
     try {
-      const apiKey = process.env.OPENAI_API_KEY;
-      console.log("API Key available for testing:", apiKey ? "Yes (begins with " + apiKey.substring(0, 3) + "...)" : "No");
-      
-      // Create a new OpenAI instance directly
-      const openai = new OpenAI({
-        apiKey: apiKey || "sk-dummy-key-for-development"
-      });
-      
-      // Simple test call
-      console.log("Making test call to OpenAI API...");
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          { role: "user", content: "Say 'OpenAI API is working!'" }
-        ],
-      });
-      
-      console.log("OpenAI API response:", response);
+      console.log("Making test call to the AI provider...");
+      const result = await testLlmProvider();
       
       res.json({
         status: "success",
-        message: "OpenAI API test completed",
-        response: response.choices[0].message.content,
-        usage: response.usage
+        message: `AI provider test completed (${result.provider}, ${result.model})`,
+        response: result.reply,
+        usage: result.usage
       });
     } catch (error) {
-      console.error("OpenAI API test error:", error);
+      console.error("AI provider test error:", error);
       // Handle error
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       res.status(500).json({
         status: "error",
-        message: "OpenAI API test failed",
+        message: "AI provider test failed",
         error: errorMessage
       });
     }
   });
 
+  // AI calls, tokens and estimated cost per day and function, with today's
+  // budget and the cache's hit rate (admins only)
+  app.get("/api/ai-usage", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const { days } = aiUsageQuerySchema.parse(req.query);
+      res.json(await getUsageReport(storage, days));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      console.error("Error getting AI usage:", error);
+      res.status(500).json({ message: "Failed to get AI usage" });
+    }
+  });
+
+  // The prompt registry: each prompt's versions and rollout (admins only)
+  app.get("/api/prompts", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      res.json(await listPrompts(storage));
+    } catch (error) {
+      console.error("Error listing prompts:", error);
+      res.status(500).json({ message: "Failed to list prompts" });
+    }
+  });
+  
+  // Render a prompt version for a share of requests; 100 rolls it out to
+  // all of them (admins only)
+  app.put("/api/prompts/:name/rollout", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      if (!isPromptName(req.params.name)) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      
+      const rollout = await rolloutPromptVersion(storage, req.params.name, promptRolloutSchema.parse(req.body));
+      res.json(rollout);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      if (error instanceof PromptRolloutError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      console.error("Error rolling out prompt:", error);
+      res.status(500).json({ message: "Failed to roll out prompt" });
+    }
+  });
+  
+  // End a rollout, so every request gets the prompt's current version again
+  // (admins only)
+  app.delete("/api/prompts/:name/rollout", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deletePromptRollout(req.params.name);
+      if (!deleted) {
+        return res.status(404).json({ message: "Rollout not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error ending prompt rollout:", error);
+      res.status(500).json({ message: "Failed to end prompt rollout" });
+    }
+  });
+
   // Analyze photo to determine issue type
   app.post("/api/analyze-photo", async (req: Request, res: Response) => {
     try {
@@ -72,7 +188,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Log that we're processing the request
       console.log("Processing photo for analysis, data length:", base64Data.length);
       
-      // Analyze the photo using OpenAI Vision
+      // Analyze the photo with the AI provider's vision model
       const analysis = await analyzePhotoForIssueType(base64Data);
       
       console.log("Photo analysis completed successfully:", analysis);
@@ -89,30 +205,148 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all projects with optional filters
-  app.get("/api/projects", async (req: Request, res: Response) => {
+  // Get the jurisdiction this deployment serves (map area, timezone). Its
+  // departments only seed the directory, so they are not exposed here.
+  app.get("/api/jurisdiction", (req: Request, res: Response) => {
+    const { departments, ...settings } = jurisdiction;
+    res.json(settings);
+  });
+  
+  // List the departments directory
+  app.get("/api/departments", async (req: Request, res: Response) => {
     try {
-      const { issueType, status, search } = req.query;
+      const departments = await storage.getDepartments();
+      res.json(departments);
+    } catch (error) {
+      console.error("Error fetching departments:", error);
+      res.status(500).json({ message: "Failed to fetch departments" });
+    }
+  });
+  
+  // Add a department to the directory (admins only)
+  app.post("/api/departments", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const departmentData = insertDepartmentSchema.parse(req.body);
+      const department = await storage.createDepartment(departmentData);
+      await refreshRecipientStatuses(storage);
       
-      let projects;
+      res.status(201).json(department);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
       
-      if (search && typeof search === "string") {
-        projects = await storage.searchProjects(search);
-      } else if (issueType && typeof issueType === "string") {
-        projects = await storage.getProjectsByType(issueType);
-      } else if (status && typeof status === "string") {
-        projects = await storage.getProjectsByStatus(status);
-      } else {
-        projects = await storage.getAllProjects();
+      console.error("Error creating department:", error);
+      res.status(500).json({ message: "Failed to create department" });
+    }
+  });
+  
+  // Update a department (admins only)
+  app.patch("/api/departments/:id", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid department ID" });
       }
       
-      res.json(projects);
+      const updates = insertDepartmentSchema.partial().parse(req.body);
+      const department = await storage.updateDepartment(id, updates);
+      
+      if (!department) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      
+      await refreshRecipientStatuses(storage);
+      res.json(department);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      console.error("Error updating department:", error);
+      res.status(500).json({ message: "Failed to update department" });
+    }
+  });
+  
+  // Remove a department (admins only). The last one can't be removed, since
+  // every issue email needs a recipient from the directory.
+  app.delete("/api/departments/:id", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid department ID" });
+      }
+      
+      const departments = await storage.getDepartments();
+      if (departments.length === 1 && departments[0].id === id) {
+        return res.status(409).json({ message: "Cannot remove the last department" });
+      }
+      
+      const deleted = await storage.deleteDepartment(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      
+      await refreshRecipientStatuses(storage);
+      res.status(204).end();
     } catch (error) {
+      console.error("Error deleting department:", error);
+      res.status(500).json({ message: "Failed to delete department" });
+    }
+  });
+  
+  // Query projects with any combination of filters, sorting and pagination
+  app.get("/api/projects", async (req: Request, res: Response) => {
+    try {
+      const query = projectQuerySchema.parse(req.query);
+      const result = await storage.queryProjects(query);
+      
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
       console.error("Error getting projects:", error);
       res.status(500).json({ message: "Failed to get projects" });
     }
   });
   
+  // Find projects near a point or inside the visible map area
+  app.get("/api/projects/nearby", async (req: Request, res: Response) => {
+    try {
+      const { lat, lng, radiusMeters, bbox, limit } = nearbyQuerySchema.parse(req.query);
+      
+      if (bbox) {
+        // Distances are measured from the given point, or the centre of the box
+        const center = lat !== undefined && lng !== undefined ? { lat, lng } : boundsCenter(bbox);
+        const projects = await storage.findProjectsInBounds(bbox, limit);
+        return res.json(withDistances(projects, center));
+      }
+      
+      const projects = await storage.findProjectsNearby({ lat: lat!, lng: lng! }, radiusMeters, limit);
+      res.json(projects);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      console.error("Error finding nearby projects:", error);
+      res.status(500).json({ message: "Failed to find nearby projects" });
+    }
+  });
+  
   // Get a single project by ID
   app.get("/api/projects/:id", async (req: Request, res: Response) => {
     try {
@@ -135,14 +369,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Find existing projects that may duplicate a draft issue
+  app.post("/api/projects/duplicates", async (req: Request, res: Response) => {
+    try {
+      const draft = duplicateCheckSchema.parse(req.body);
+      const candidates = await findDuplicateCandidates(storage, draft);
+      
+      res.json(candidates);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      console.error("Error checking for duplicate projects:", error);
+      res.status(500).json({ message: "Failed to check for duplicate projects" });
+    }
+  });
+  
   // Create a new project
   app.post("/api/projects", async (req: Request, res: Response) => {
     try {
       // Validate request body against schema
       const validatedData = insertProjectSchema.parse(req.body);
       
-      // Create the project
-      const project = await storage.createProject(validatedData);
+      if (!isWithinJurisdiction({ lat: validatedData.latitude, lng: validatedData.longitude })) {
+        return res.status(400).json({ message: `Location is outside ${jurisdiction.name}` });
+      }
+      
+      // Look for likely duplicates before the new project joins the candidates
+      const candidates = await findDuplicateCandidates(storage, validatedData);
+      const possibleDuplicates = candidates.filter(candidate => candidate.likely);
+      
+      // Create the project. Recipients outside the allowlist wait for a moderator.
+      const recipientStatus = await recipientStatusFor(storage, validatedData.emailRecipient);
+      const { signedPromptVersion, ...projectData } = validatedData;
+      const project = await storage.createProject({
+        ...projectData,
+        recipientStatus,
+        createdBy: req.user?.id ?? null,
+        promptVersion: verifyPromptVersion(signedPromptVersion, {
+          issueType: projectData.issueType,
+          location: projectData.location,
+          description: projectData.description,
+          urgencyLevel: projectData.urgencyLevel ?? 'medium',
+          language: projectData.language ?? 'en'
+        })
+      });
+      
+      if (recipientStatus === 'pending_approval') {
+        await recordSecurityEvent(storage, {
+          eventType: 'unlisted_recipient',
+          description: `Project #${project.id} "${project.title}" addresses ${project.emailRecipient}, which is not in the recipient allowlist; emails are held for moderator approval`,
+          projectId: project.id,
+          userId: req.user?.id,
+          ipAddress: req.ip || req.socket.remoteAddress
+        });
+      }
+      
+      if (possibleDuplicates.length > 0) {
+        return res.status(201).json({
+          ...project,
+          warning: "A similar issue has already been reported nearby. Consider supporting the existing campaign instead.",
+          possibleDuplicates
+        });
+      }
       
       res.status(201).json(project);
     } catch (error) {
@@ -156,6 +447,197 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Merge a duplicate project into this one (moderators only)
+  app.post("/api/projects/:id/merge", requireRole("moderator", "admin"), async (req: Request, res: Response) => {
+    try {
+      const targetId = parseInt(req.params.id);
+      
+      if (isNaN(targetId)) {
+        return res.status(400).json({ message: "Invalid project ID" });
+      }
+      
+      const { sourceId } = mergeProjectsSchema.parse(req.body);
+      const actorName = req.user!.fullName || req.user!.username;
+      const project = await storage.mergeProjects(targetId, sourceId, actorName);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      res.json(project);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      if (error instanceof ProjectMergeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      
+      console.error("Error merging projects:", error);
+      res.status(500).json({ message: "Failed to merge projects" });
+    }
+  });
+  
+  // Approve or reject a project's recipient outside the allowlist (moderators only)
+  app.post("/api/projects/:id/recipient-review", requireRole("moderator", "admin"), async (req: Request, res: Response) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      
+      if (isNaN(projectId)) {
+        return res.status(400).json({ message: "Invalid project ID" });
+      }
+      
+      const { approved } = recipientReviewSchema.parse(req.body);
+      const existing = await storage.getProjectById(projectId);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (existing.recipientStatus === 'allowed') {
+        return res.status(409).json({ message: "This recipient is already allowed" });
+      }
+      
+      const project = await storage.updateProject(projectId, { recipientStatus: approved ? 'approved' : 'rejected' });
+      
+      await storage.createActivity({
+        projectId,
+        activityType: 'recipient_review',
+        actorName: req.user!.fullName || req.user!.username,
+        description: `Recipient ${existing.emailRecipient} ${approved ? "approved" : "rejected"} by a moderator`
+      });
+      
+      res.json(project);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      console.error("Error reviewing recipient:", error);
+      res.status(500).json({ message: "Failed to review recipient" });
+    }
+  });
+  
+  // Choose whether supporters' emails go out individually or as a daily digest (moderators only)
+  app.post("/api/projects/:id/delivery-mode", requireRole("moderator", "admin"), async (req: Request, res: Response) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      
+      if (isNaN(projectId)) {
+        return res.status(400).json({ message: "Invalid project ID" });
+      }
+      
+      const { deliveryMode } = deliveryModeSchema.parse(req.body);
+      const existing = await storage.getProjectById(projectId);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (existing.deliveryMode === deliveryMode) {
+        return res.json(existing);
+      }
+      
+      // Signatures already collected still go out in the next digest
+      const project = await storage.updateProject(projectId, { deliveryMode });
+      
+      await storage.createActivity({
+        projectId,
+        activityType: 'delivery_mode',
+        actorName: req.user!.fullName || req.user!.username,
+        description: deliveryMode === 'digest'
+          ? "Supporters' emails will be sent as a daily digest"
+          : "Supporters' emails will be sent individually"
+      });
+      
+      res.json(project);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      console.error("Error changing delivery mode:", error);
+      res.status(500).json({ message: "Failed to change delivery mode" });
+    }
+  });
+  
+  // Get a project's escalation steps and whether they are running
+  app.get("/api/projects/:id/escalation", async (req: Request, res: Response) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      
+      if (isNaN(projectId)) {
+        return res.status(400).json({ message: "Invalid project ID" });
+      }
+      
+      const project = await storage.getProjectById(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const schedule = await getEscalationSchedule(storage, project);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error getting escalation schedule:", error);
+      res.status(500).json({ message: "Failed to get escalation schedule" });
+    }
+  });
+  
+  // Pause or resume a project's escalations (its creator or moderators)
+  app.post("/api/projects/:id/escalation", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      const projectId = parseInt(req.params.id);
+      
+      if (isNaN(projectId)) {
+        return res.status(400).json({ message: "Invalid project ID" });
+      }
+      
+      const { paused } = escalationPauseSchema.parse(req.body);
+      const existing = await storage.getProjectById(projectId);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const isModerator = req.user.role === 'moderator' || req.user.role === 'admin';
+      if (existing.createdBy !== req.user.id && !isModerator) {
+        return res.status(403).json({ message: "Only the project's creator or a moderator can change its escalations" });
+      }
+      
+      let project = existing;
+      if (existing.escalationPaused !== paused) {
+        project = await storage.updateProject(projectId, { escalationPaused: paused }) ?? existing;
+        
+        await storage.createActivity({
+          projectId,
+          activityType: 'escalation_paused',
+          actorName: req.user.fullName || req.user.username,
+          description: paused ? "Escalations paused" : "Escalations resumed"
+        });
+      }
+      
+      const schedule = await getEscalationSchedule(storage, project);
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      console.error("Error changing escalations:", error);
+      res.status(500).json({ message: "Failed to change escalations" });
+    }
+  });
+  
   // Generate email template for a given issue
   app.post("/api/generate-email", async (req: Request, res: Response) => {
     try {
@@ -164,12 +646,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         location, 
         description, 
         urgencyLevel,
+        latitude,
+        longitude,
         // Optional customization fields
         impactDescription,
         affectedGroups,
         desiredOutcome,
         proposedSolution
       } = req.body;
+      const language = emailLanguageSchema.default('en').parse(req.body.language);
       
       if (!issueType || !location || !description || !urgencyLevel) {
         return res.status(400).json({ message: "Missing required fields" });
@@ -206,15 +691,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
         enhancedDescription += `\n\nProposed Solution: ${proposedSolution}`;
       }
       
+      // The recipient is always picked from the departments directory
+      const point = latitude && longitude
+        ? { lat: parseFloat(latitude), lng: parseFloat(longitude) }
+        : undefined;
+      const departments = rankDepartments(
+        await storage.getDepartments(),
+        issueType,
+        point && !isNaN(point.lat) && !isNaN(point.lng) ? point : undefined
+      );
+      
+      if (departments.length === 0) {
+        return res.status(503).json({ message: "No departments are configured to receive issue emails" });
+      }
+      
+      // Flag details the model added to what the user submitted
+      const groundingFor = (email: { emailSubject: string; emailBody: string }) => checkGrounding(
+        { subject: email.emailSubject, body: email.emailBody },
+        [issueType, location, enhancedDescription, jurisdiction.name, ...departments.map(department => department.name)],
+        { urgent: urgencyLevel === 'high' }
+      );
+      
+      // The finished email, with its prompt version signed for the client to
+      // send back when it creates a project with these details
+      const withSignedPromptVersion = (email: Awaited<ReturnType<typeof generateEmailTemplate>>) => ({
+        ...email,
+        grounding: groundingFor(email),
+        signedPromptVersion: email.promptVersion
+          ? signPromptVersion(email.promptVersion, { issueType, location, description, urgencyLevel, language })
+          : undefined
+      });
+      
+      // Clients that accept events get the email as it's written: "subject"
+      // and "recipient" once known, "body" for each new piece of the body,
+      // then "done" with the finished email. Providers that can't stream
+      // get the single JSON reply below.
+      if (req.get("Accept")?.includes("text/event-stream") && supportsStreaming()) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive"
+        });
+        const send = (event: string, data: unknown) => {
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+        
+        // Stop the model when the client cancels, such as when the user edits the issue
+        const controller = new AbortController();
+        res.on("close", () => controller.abort());
+        
+        try {
+          const emailTemplate = await generateEmailTemplate(
+            issueType,
+            location,
+            enhancedDescription,
+            urgencyLevel,
+            departments,
+            language,
+            {
+              signal: controller.signal,
+              onSubject: (emailSubject) => send("subject", { emailSubject }),
+              onRecipient: (recipient) => send("recipient", recipient),
+              onBody: (text) => send("body", { text })
+            }
+          );
+          send("done", withSignedPromptVersion(emailTemplate));
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            console.error("Error streaming email:", error);
+            send("error", { message: "Failed to generate email template" });
+          }
+        }
+        return res.end();
+      }
+      
       const emailTemplate = await generateEmailTemplate(
         issueType,
         location,
         enhancedDescription,
-        urgencyLevel
+        urgencyLevel,
+        departments,
+        language
       );
       
-      res.json(emailTemplate);
+      res.json(withSignedPromptVersion(emailTemplate));
     } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
       console.error("Error generating email:", error);
       res.status(500).json({ message: "Failed to generate email template" });
     }
@@ -224,32 +790,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/regenerate-email", async (req: Request, res: Response) => {
     try {
       const { emailBody, tone } = req.body;
+      const language = emailLanguageSchema.default('en').parse(req.body.language);
+      const details = emailDetailsSchema.optional().parse(req.body.details);
       
       if (!emailBody || !tone) {
         return res.status(400).json({ message: "Missing required fields" });
       }
       
-      const result = await regenerateEmailWithTone(emailBody, tone);
+      const result = await regenerateEmailWithTone(emailBody, tone, language);
+      
+      // A rewrite of a generated email is checked against the details it was
+      // generated from, and any other rewrite against the email as it was
+      const grounding = details
+        ? checkGrounding(
+            { body: result.emailBody },
+            [...Object.values(details), jurisdiction.name, ...(await storage.getDepartments()).map(department => department.name)],
+            { urgent: details.urgencyLevel === 'high' }
+          )
+        : checkGrounding({ body: result.emailBody }, [emailBody]);
       
       // If there's an error message but we still have an email body, return a 200 with both
       if (result.error && result.emailBody) {
         return res.json({ 
           emailBody: result.emailBody,
-          warning: result.error 
+          warning: result.error,
+          grounding
         });
       }
       
-      res.json({ emailBody: result.emailBody });
+      res.json({ emailBody: result.emailBody, grounding });
     } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
       console.error("Error regenerating email:", error);
       res.status(500).json({ message: "Failed to regenerate email" });
     }
   });
   
-  // Send an email
+  // A project's email subject and template in another language
+  app.get("/api/projects/:id/translations/:language", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid project ID" });
+      }
+      
+      const language = emailLanguageSchema.parse(req.params.language);
+      const project = await storage.getProjectById(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      res.json(await getProjectTranslation(storage, project, language));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      if (error instanceof TranslationError) {
+        return res.status(503).json({ message: error.message });
+      }
+      
+      console.error("Error translating project:", error);
+      res.status(500).json({ message: "Failed to translate project" });
+    }
+  });
+  
+  // Send an email, optionally in the supporter's language
   app.post("/api/send-email", async (req: Request, res: Response) => {
     try {
-      const validatedData = insertEmailSchema.parse(req.body);
+      const { language, appendTranslation, ...validatedData } = sendEmailSchema.parse(req.body);
       
       // Get the project to which this email relates
       const project = await storage.getProjectById(validatedData.projectId);
@@ -258,66 +872,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Send the email
-      const emailContent = validatedData.customContent || project.emailTemplate;
-      
-      // Prepare photo attachment if available
-      let attachments = [];
-      if (project.photoData) {
-        // Extract the base64 data (remove the data URL prefix)
-        const matches = project.photoData.match(/^data:([A-Za-z-+/]+);base64,(.+)$/);
-        
-        if (matches && matches.length === 3) {
-          const contentType = matches[1];
-          const imageData = matches[2];
-          
-          // Determine file extension based on content type
-          let fileExtension = 'jpg';
-          if (contentType.includes('png')) fileExtension = 'png';
-          else if (contentType.includes('gif')) fileExtension = 'gif';
-          
-          attachments.push({
-            filename: `issue-photo.${fileExtension}`,
-            content: Buffer.from(imageData, 'base64'),
-            contentType,
-            encoding: 'base64'
-          });
-        }
+      // Merged projects are read-only redirects to the project they were merged into
+      if (project.mergedIntoId !== null) {
+        return res.status(409).json({ message: "This project has been merged", mergedIntoId: project.mergedIntoId });
       }
       
-      // Use the sender's email if provided, otherwise use a default
-      const from = normalizeEmail(validatedData.senderEmail) || "noreply@civicvoice.org";
-      // Make sure senderName is a string if present, otherwise undefined
-      const senderName = validatedData.senderName ? String(validatedData.senderName) : undefined;
+      if (!canEmailRecipient(project)) {
+        await recordSecurityEvent(storage, {
+          eventType: 'blocked_send',
+          description: `Blocked an email for project #${project.id} to ${project.emailRecipient} (recipient ${project.recipientStatus})`,
+          projectId: project.id,
+          userId: req.user?.id,
+          ipAddress: req.ip || req.socket.remoteAddress
+        });
+        return res.status(403).json({ message: "Emails for this project are on hold until a moderator approves its recipient" });
+      }
       
-      const result = await sendEmail({
-        from,
-        to: project.emailRecipient,
-        subject: project.emailSubject,
-        text: emailContent,
-        senderName,
-        attachments
+      // Counted before translating, so sends over a limit don't spend AI budget
+      await consumeSendLimits(storage, {
+        projectId: project.id,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        senderEmail: provenSender(req.session, validatedData.senderEmail),
+        userId: req.user?.id
       });
       
-      if (!result.success) {
-        return res.status(500).json({ message: result.message });
+      const { content, warning } = await supporterEmailContent(
+        storage,
+        project,
+        validatedData.customContent,
+        { language, appendTranslation }
+      );
+      validatedData.customContent = content;
+      
+      // Digest-mode projects record a signature for the next digest instead
+      if (project.deliveryMode === 'digest') {
+        const signature = await storage.createSignature({
+          projectId: project.id,
+          signerName: validatedData.senderName || null,
+          signerEmail: normalizeEmail(validatedData.senderEmail),
+          message: validatedData.customContent || null
+        });
+        return res.status(201).json({ ...signature, warning });
       }
       
-      // Record the email in the database
-      const email = await storage.createEmail(validatedData);
+      // Queue the email and start delivering it right away; the queue
+      // retries transient failures in the background. A new supporter address
+      // holds the email until it is confirmed or the window passes.
+      const email = await storage.createEmail({
+        ...validatedData,
+        ...await senderVerificationFields(storage, req.session, validatedData.senderEmail)
+      });
+      processEmailQueue(storage).catch(error => console.error("Error processing email queue:", error));
+      
+      const baseUrl = process.env.PUBLIC_URL || `${req.protocol}://${req.get("host")}`;
+      sendVerificationRequest(storage, email, project, baseUrl)
+        .catch(error => console.error("Error sending verification request:", error));
       
-      res.status(201).json(email);
+      // The token is only for the supporter's inbox
+      const { verificationToken, ...queuedEmail } = email;
+      res.status(202).json({ ...queuedEmail, warning });
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         return res.status(400).json({ message: validationError.message });
       }
       
+      if (error instanceof RateLimitError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+      }
+      
       console.error("Error sending email:", error);
       res.status(500).json({ message: "Failed to send email" });
     }
   });
   
+  // Render a supporter's email exactly as it will be sent, with images inlined
+  app.post("/api/email-preview", async (req: Request, res: Response) => {
+    try {
+      const { projectId, customContent, language, appendTranslation } = emailPreviewSchema.parse(req.body);
+      const project = await storage.getProjectById(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      await consumePreviewLimit(storage, req.ip || req.socket.remoteAddress);
+      
+      const { content, warning } = await supporterEmailContent(storage, project, customContent, { language, appendTranslation });
+      const { html, text } = await renderProjectEmail(storage, project, content || project.emailTemplate, { inlineImages: "data" });
+      res.json({ to: project.emailRecipient, subject: project.emailSubject, html, text, warning });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      if (error instanceof RateLimitError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+      }
+      
+      console.error("Error rendering email preview:", error);
+      res.status(500).json({ message: "Failed to render email preview" });
+    }
+  });
+  
+  // Confirm a supporter's address from the link in their verification email
+  app.get("/api/emails/verify/:token", async (req: Request, res: Response) => {
+    try {
+      const email = await confirmSender(storage, req.params.token);
+      
+      if (!email) {
+        return res.status(404).json({ message: "This confirmation link is invalid or has already been used" });
+      }
+      
+      processEmailQueue(storage).catch(error => console.error("Error processing email queue:", error));
+      
+      // Whoever opened the link owns the address, so this browser's later
+      // emails can use it without confirming again
+      if (email.senderEmail) {
+        rememberProvenSender(req.session, email.senderEmail);
+      }
+      
+      const outcome = email.senderVerification === 'verified' ? "confirmed" : "late";
+      res.redirect(`/projects/${email.projectId}?senderVerification=${outcome}`);
+    } catch (error) {
+      console.error("Error confirming sender:", error);
+      res.status(500).json({ message: "Failed to confirm email address" });
+    }
+  });
+  
+  // Recent security events, most recent first (admins only)
+  app.get("/api/security-events", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const events = await storage.getSecurityEvents(limit);
+      res.json(events);
+    } catch (error) {
+      console.error("Error getting security events:", error);
+      res.status(500).json({ message: "Failed to get security events" });
+    }
+  });
+  
+  // List emails by delivery status, most recent first (admins only)
+  app.get("/api/emails", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const { status, limit } = emailStatusQuerySchema.parse(req.query);
+      const emails = await storage.getEmailsByStatus(status, limit);
+      
+      res.json(emails);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      console.error("Error fetching emails:", error);
+      res.status(500).json({ message: "Failed to fetch emails" });
+    }
+  });
+  
+  // Re-drive a failed email (admins only)
+  app.post("/api/emails/:id/retry", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid email ID" });
+      }
+      
+      const email = await retryFailedEmail(storage, id);
+      
+      if (!email) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      
+      processEmailQueue(storage).catch(error => console.error("Error processing email queue:", error));
+      res.json(email);
+    } catch (error) {
+      if (error instanceof EmailQueueError) {
+        return res.status(409).json({ message: error.message });
+      }
+      
+      console.error("Error retrying email:", error);
+      res.status(500).json({ message: "Failed to retry email" });
+    }
+  });
+  
+  // Re-drive every failed email (admins only)
+  app.post("/api/emails/retry-failed", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const failed = await storage.getEmailsByStatus('failed', Number.MAX_SAFE_INTEGER);
+      for (const email of failed) {
+        await retryFailedEmail(storage, email.id);
+      }
+      
+      processEmailQueue(storage).catch(error => console.error("Error processing email queue:", error));
+      res.json({ requeued: failed.length });
+    } catch (error) {
+      console.error("Error retrying failed emails:", error);
+      res.status(500).json({ message: "Failed to retry emails" });
+    }
+  });
+  
   // Upvote a project
   app.post("/api/projects/:id/upvote", async (req: Request, res: Response) => {
     try {
@@ -333,6 +1091,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
+      // Merged projects are read-only redirects to the project they were merged into
+      if (project.mergedIntoId !== null) {
+        return res.status(409).json({ message: "This project has been merged", mergedIntoId: project.mergedIntoId });
+      }
+      
       // Use IP address to prevent duplicate upvotes
       const ipAddress = req.ip || req.socket.remoteAddress || "unknown";
       
@@ -413,6 +1176,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Get official responses to a project, most recent first
+  app.get("/api/projects/:id/responses", async (req: Request, res: Response) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      
+      if (isNaN(projectId)) {
+        return res.status(400).json({ message: "Invalid project ID" });
+      }
+      
+      const project = await storage.getProjectById(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const responses = await storage.getOfficialResponsesByProject(projectId);
+      res.json(responses);
+    } catch (error) {
+      console.error("Error getting official responses:", error);
+      res.status(500).json({ message: "Failed to get official responses" });
+    }
+  });
+  
   // Create a comment for a project
   app.post("/api/projects/:id/comments", async (req: Request, res: Response) => {
     try {
@@ -428,6 +1214,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
+      // Merged projects are read-only redirects to the project they were merged into
+      if (project.mergedIntoId !== null) {
+        return res.status(409).json({ message: "This project has been merged", mergedIntoId: project.mergedIntoId });
+      }
+      
       // Merge the projectId from the URL with the request body
       const commentData = insertCommentSchema.parse({
         ...req.body,
@@ -0,0 +1,124 @@
+import { randomBytes } from "crypto";
+import type { Session, SessionData } from "express-session";
+import { Email, NewEmail, Project } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { sendEmail, normalizeEmail } from "./email";
+
+// Double opt-in for supporters' reply addresses. A supporter who gives an
+// email address is sent a confirmation link, and their email to the city is
+// held for a short window so a prompt confirmation can add it as Reply-To.
+// Unconfirmed emails go out when the window ends, without a reply address.
+// An address is sent at most one link per window: further emails from it
+// while a link is outstanding share that link, and confirming releases all.
+// Confirming also proves the address to the browser session that opened the
+// link, whose later emails use it straight away. Other sessions must confirm
+// again, so typing in someone else's confirmed address never makes it the
+// Reply-To.
+
+// How long a supporter's email waits for them to confirm their address
+const SENDER_VERIFICATION_WINDOW_MS = process.env.SENDER_VERIFICATION_WINDOW_MS
+  ? parseInt(process.env.SENDER_VERIFICATION_WINDOW_MS)
+  : 30 * 60 * 1000;
+
+type SenderSession = Session & Partial<SessionData>;
+
+/**
+ * The address a supporter gave, if their session has proven they own it
+ */
+export function provenSender(session: SenderSession | undefined, senderEmail: string | null | undefined): string | null {
+  const address = normalizeEmail(senderEmail);
+  return address && session?.provenSenders?.includes(address) ? address : null;
+}
+
+/**
+ * Remember that a session proved it owns an address
+ */
+export function rememberProvenSender(session: SenderSession | undefined, address: string): void {
+  if (!session || session.provenSenders?.includes(address)) return;
+  session.provenSenders = [...(session.provenSenders ?? []), address];
+}
+
+/**
+ * Queue fields for a supporter's email: addresses the sender's session has
+ * proven are trusted straight away, others wait for confirmation, reusing
+ * the token of a confirmation already sent in the window
+ */
+export async function senderVerificationFields(
+  storage: IStorage,
+  session: SenderSession | undefined,
+  senderEmail: string | null | undefined
+): Promise<Pick<NewEmail, "senderEmail" | "senderVerification" | "verificationToken" | "nextAttemptAt">> {
+  const address = normalizeEmail(senderEmail);
+  if (!address) {
+    return { senderEmail: null, senderVerification: 'unverified' };
+  }
+
+  if (provenSender(session, address)) {
+    return { senderEmail: address, senderVerification: 'verified' };
+  }
+
+  const now = Date.now();
+  const pending = await storage.getPendingSenderVerification(address, new Date(now - SENDER_VERIFICATION_WINDOW_MS));
+
+  return {
+    senderEmail: address,
+    senderVerification: 'pending',
+    verificationToken: pending?.verificationToken ?? randomBytes(32).toString('hex'),
+    nextAttemptAt: new Date(now + SENDER_VERIFICATION_WINDOW_MS)
+  };
+}
+
+/**
+ * Email the supporter a link confirming they own the address they gave,
+ * unless an earlier email already sent the link for its token
+ */
+export async function sendVerificationRequest(storage: IStorage, email: Email, project: Project, baseUrl: string): Promise<void> {
+  if (email.senderVerification !== 'pending' || !email.senderEmail || !email.verificationToken) return;
+
+  const [first] = await storage.getEmailsByVerificationToken(email.verificationToken);
+  if (first && first.id !== email.id) return;
+
+  const link = `${baseUrl}/api/emails/verify/${email.verificationToken}`;
+  const minutes = Math.round(SENDER_VERIFICATION_WINDOW_MS / 60000);
+
+  const result = await sendEmail({
+    to: email.senderEmail,
+    subject: `Confirm your email about "${project.title}"`,
+    text: `Hi${email.senderName ? ` ${email.senderName}` : ""},
+
+You asked to email the city about "${project.title}". Confirm this is your address so officials can reply to you directly:
+
+${link}
+
+If you don't confirm within ${minutes} minute${minutes === 1 ? "" : "s"}, your email will still be sent, but without your address. If you didn't ask for this, you can ignore this message.`
+  });
+
+  if (!result.success) {
+    console.warn(`Could not send verification request for email ${email.id}: ${result.message}`);
+  }
+}
+
+/**
+ * Confirm a supporter's address from their verification link, releasing
+ * every email waiting on it for delivery with a Reply-To. Returns the first
+ * email, unchanged if all of them already went out without the address.
+ */
+export async function confirmSender(storage: IStorage, token: string): Promise<Email | undefined> {
+  const emails = await storage.getEmailsByVerificationToken(token);
+  if (emails.length === 0) return undefined;
+
+  let confirmed: Email | undefined;
+  for (const email of emails) {
+    if (email.senderVerification !== 'pending' || email.status !== 'queued') continue;
+
+    const updated = await storage.updateEmail(email.id, {
+      senderVerification: 'verified',
+      senderVerifiedAt: new Date(),
+      verificationToken: null,
+      nextAttemptAt: new Date()
+    });
+    confirmed = confirmed ?? updated;
+  }
+
+  return confirmed ?? emails[0];
+}
@@ -0,0 +1,770 @@
+import { and, asc, count, desc, eq, gte, inArray, isNotNull, isNull, like, lt, lte, min, or, sql } from "drizzle-orm";
+import session from "express-session";
+import connectSqlite3 from "connect-sqlite3";
+import path from "path";
+import {
+  users, projects, upvotes, emails, signatures, digests, activities, comments, officialResponses, departments, securityEvents, rateLimits, aiUsage, promptRollouts, escalations, projectTranslations
+} from "@shared/sqlite-schema";
+import {
+  User, InsertUser,
+  Project, NewProject,
+  Upvote, InsertUpvote,
+  Email, NewEmail, EmailStatus,
+  Signature, InsertSignature,
+  Digest, InsertDigest,
+  Activity, InsertActivity,
+  Comment, InsertComment,
+  OfficialResponse, InsertOfficialResponse,
+  Department, InsertDepartment,
+  SecurityEvent, InsertSecurityEvent,
+  AiUsage, InsertAiUsage,
+  PromptRollout, InsertPromptRollout,
+  Escalation, InsertEscalation,
+  ProjectTranslation, InsertProjectTranslation, EmailLanguage,
+  ProjectQuery, ProjectQueryResult,
+  GeoBounds, GeoPoint, ProjectWithDistance
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { createSqliteDatabase, type SqliteDatabase, type SqliteTransaction } from "./sqlite";
+import { determineProgressStatus } from "./progress";
+import { checkMerge, duplicateUpvotes, mergeActivityDescription, mergedProgressStatus } from "./project-merge";
+import {
+  projectQueryCursor, projectQueryFilters, projectQueryOrder, toQueryResult,
+  squaredDistance, withinBounds, withinRadius
+} from "./project-query";
+import { withDistances } from "./geo";
+
+const SQLiteStore = connectSqlite3(session);
+
+// SQLite storage implementation for single-box deployments. Data and
+// sessions live in the same database file.
+export class SqliteStorage implements IStorage {
+  private db: SqliteDatabase;
+  sessionStore: session.Store;
+
+  constructor(filename: string) {
+    this.db = createSqliteDatabase(filename).db;
+    this.sessionStore = new SQLiteStore({
+      db: path.basename(filename),
+      dir: path.dirname(filename),
+      table: "sessions"
+    });
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.db.select().from(users).where(eq(users.id, id)).get();
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.username}) = ${username.toLowerCase()}`)
+      .get();
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`)
+      .get();
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.db.insert(users).values(insertUser).returning().get();
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const { id: _, ...changes } = updates;
+    return this.db
+      .update(users)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning()
+      .get();
+  }
+
+  // Project operations
+  async getAllProjects(): Promise<Project[]> {
+    return this.db.select().from(projects).orderBy(desc(projects.upvotes)).all();
+  }
+
+  async getProjectById(id: number): Promise<Project | undefined> {
+    return this.db.select().from(projects).where(eq(projects.id, id)).get();
+  }
+
+  async getProjectsByType(issueType: string): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(eq(projects.issueType, issueType as Project["issueType"]))
+      .orderBy(desc(projects.upvotes))
+      .all();
+  }
+
+  async getProjectsByStatus(progressStatus: string): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(eq(projects.progressStatus, progressStatus as Project["progressStatus"]))
+      .orderBy(desc(projects.upvotes))
+      .all();
+  }
+
+  async createProject(insertProject: NewProject): Promise<Project> {
+    return this.db.transaction((tx) => {
+      const project = tx.insert(projects).values(insertProject).returning().get();
+
+      // Create an activity for this new project
+      tx.insert(activities).values({
+        projectId: project.id,
+        activityType: 'project_created',
+        actorName: 'Anonymous User',
+        description: `New issue submitted: ${project.title}`
+      }).run();
+
+      return project;
+    });
+  }
+
+  async updateProject(id: number, updates: Partial<Project>): Promise<Project | undefined> {
+    return this.db.transaction((tx) => {
+      const project = tx.select().from(projects).where(eq(projects.id, id)).get();
+      if (!project) return undefined;
+
+      const { id: _, ...changes } = updates;
+      const updatedProject = tx
+        .update(projects)
+        .set(changes)
+        .where(eq(projects.id, id))
+        .returning()
+        .get();
+
+      // If progress status was updated, create an activity
+      if (updates.progressStatus && updates.progressStatus !== project.progressStatus) {
+        this.recordStatusChange(tx, id, updates.progressStatus);
+      }
+
+      return updatedProject;
+    });
+  }
+
+  async mergeProjects(targetId: number, sourceId: number, actorName: string): Promise<Project | undefined> {
+    return this.db.transaction((tx) => {
+      const target = tx.select().from(projects).where(eq(projects.id, targetId)).get();
+      const source = tx.select().from(projects).where(eq(projects.id, sourceId)).get();
+      if (!target || !source) return undefined;
+      checkMerge(target, source);
+
+      // Drop upvotes from people who already upvoted the target, then move the rest
+      const targetUpvotes = tx.select().from(upvotes).where(eq(upvotes.projectId, targetId)).all();
+      const sourceUpvotes = tx.select().from(upvotes).where(eq(upvotes.projectId, sourceId)).all();
+      const duplicates = duplicateUpvotes(targetUpvotes, sourceUpvotes);
+      if (duplicates.length > 0) {
+        tx.delete(upvotes).where(inArray(upvotes.id, duplicates.map(upvote => upvote.id))).run();
+      }
+      tx.update(upvotes).set({ projectId: targetId }).where(eq(upvotes.projectId, sourceId)).run();
+      tx.update(emails).set({ projectId: targetId }).where(eq(emails.projectId, sourceId)).run();
+      tx.update(comments).set({ projectId: targetId }).where(eq(comments.projectId, sourceId)).run();
+      tx.update(signatures).set({ projectId: targetId }).where(eq(signatures.projectId, sourceId)).run();
+      tx.update(officialResponses).set({ projectId: targetId }).where(eq(officialResponses.projectId, sourceId)).run();
+      tx.update(activities).set({ projectId: targetId }).where(eq(activities.projectId, sourceId)).run();
+
+      // Projects previously merged into the source now redirect to the target
+      tx.update(projects).set({ mergedIntoId: targetId }).where(eq(projects.mergedIntoId, sourceId)).run();
+
+      const upvoteCount = Math.max(target.upvotes + source.upvotes - duplicates.length, 0);
+      const emailsSent = target.emailsSent + source.emailsSent;
+      const progressStatus = mergedProgressStatus(target, source, upvoteCount, emailsSent);
+      const merged = tx
+        .update(projects)
+        .set({ upvotes: upvoteCount, emailsSent, progressStatus })
+        .where(eq(projects.id, targetId))
+        .returning()
+        .get();
+
+      // Leave the source as a redirect stub
+      tx.update(projects)
+        .set({ mergedIntoId: targetId, upvotes: 0, emailsSent: 0 })
+        .where(eq(projects.id, sourceId))
+        .run();
+
+      if (progressStatus !== target.progressStatus) {
+        this.recordStatusChange(tx, targetId, progressStatus);
+      }
+      tx.insert(activities).values({
+        projectId: targetId,
+        activityType: 'project_merged',
+        actorName,
+        description: mergeActivityDescription(source)
+      }).run();
+
+      return merged;
+    });
+  }
+
+  // Upvote operations
+  async createUpvote(insertUpvote: InsertUpvote): Promise<Upvote> {
+    return this.db.transaction((tx) => {
+      const upvote = tx.insert(upvotes).values(insertUpvote).returning().get();
+
+      // Increment upvote count for the project
+      const project = tx
+        .update(projects)
+        .set({ upvotes: sql`${projects.upvotes} + 1` })
+        .where(eq(projects.id, upvote.projectId))
+        .returning()
+        .get();
+
+      if (project) {
+        this.refreshProgressStatus(tx, project);
+
+        // Create an activity
+        tx.insert(activities).values({
+          projectId: project.id,
+          activityType: 'upvote',
+          actorName: 'Anonymous User',
+          description: `Someone upvoted: ${project.title}`
+        }).run();
+      }
+
+      return upvote;
+    });
+  }
+
+  async getUpvotesByProject(projectId: number): Promise<Upvote[]> {
+    return this.db.select().from(upvotes).where(eq(upvotes.projectId, projectId)).all();
+  }
+
+  async hasUserUpvoted(projectId: number, ipAddress: string): Promise<boolean> {
+    const upvote = this.db
+      .select({ id: upvotes.id })
+      .from(upvotes)
+      .where(and(eq(upvotes.projectId, projectId), eq(upvotes.ipAddress, ipAddress)))
+      .get();
+    return !!upvote;
+  }
+
+  // Email operations
+  async createEmail(insertEmail: NewEmail): Promise<Email> {
+    return this.db.insert(emails).values(insertEmail).returning().get();
+  }
+
+  async getEmailById(id: number): Promise<Email | undefined> {
+    return this.db.select().from(emails).where(eq(emails.id, id)).get();
+  }
+
+  async getEmailsByVerificationToken(token: string): Promise<Email[]> {
+    return this.db.select().from(emails).where(eq(emails.verificationToken, token)).orderBy(asc(emails.id)).all();
+  }
+
+  async getPendingSenderVerification(senderEmail: string, since: Date): Promise<Email | undefined> {
+    return this.db
+      .select()
+      .from(emails)
+      .where(and(
+        eq(emails.senderEmail, senderEmail),
+        eq(emails.senderVerification, 'pending'),
+        isNotNull(emails.verificationToken),
+        gte(emails.createdAt, since)
+      ))
+      .orderBy(desc(emails.id))
+      .limit(1)
+      .get();
+  }
+
+  async getEmailsByStatus(status: EmailStatus, limit: number): Promise<Email[]> {
+    return this.db
+      .select()
+      .from(emails)
+      .where(eq(emails.status, status))
+      .orderBy(desc(emails.createdAt))
+      .limit(limit)
+      .all();
+  }
+
+  async updateEmail(id: number, updates: Partial<Email>): Promise<Email | undefined> {
+    const { id: _, ...changes } = updates;
+    return this.db
+      .update(emails)
+      .set(changes)
+      .where(eq(emails.id, id))
+      .returning()
+      .get();
+  }
+
+  async claimDueEmails(now: Date, limit: number): Promise<Email[]> {
+    return this.db.transaction((tx) => {
+      const due = tx
+        .select({ id: emails.id })
+        .from(emails)
+        .where(and(eq(emails.status, 'queued'), lte(emails.nextAttemptAt, now)))
+        .orderBy(asc(emails.nextAttemptAt))
+        .limit(limit)
+        .all();
+      if (due.length === 0) return [];
+
+      return tx
+        .update(emails)
+        .set({ status: 'sending' })
+        .where(inArray(emails.id, due.map(email => email.id)))
+        .returning()
+        .all();
+    });
+  }
+
+  async markEmailSent(id: number): Promise<Email | undefined> {
+    return this.db.transaction((tx) => {
+      const email = tx
+        .update(emails)
+        .set({ status: 'sent', attempts: sql`${emails.attempts} + 1`, lastError: null, sentAt: new Date() })
+        .where(eq(emails.id, id))
+        .returning()
+        .get();
+      if (!email) return undefined;
+
+      // Increment email count for the project
+      const project = tx
+        .update(projects)
+        .set({ emailsSent: sql`${projects.emailsSent} + 1` })
+        .where(eq(projects.id, email.projectId))
+        .returning()
+        .get();
+
+      if (project) {
+        this.refreshProgressStatus(tx, project);
+
+        // Create an activity
+        tx.insert(activities).values({
+          projectId: project.id,
+          activityType: 'email_sent',
+          actorName: email.senderName || 'Anonymous User',
+          description: `Email sent regarding: ${project.title}`
+        }).run();
+      }
+
+      return email;
+    });
+  }
+
+  async getEmailsByProject(projectId: number): Promise<Email[]> {
+    return this.db
+      .select()
+      .from(emails)
+      .where(eq(emails.projectId, projectId))
+      .orderBy(desc(emails.createdAt))
+      .all();
+  }
+
+  // Signature and digest operations
+  async createSignature(insertSignature: InsertSignature): Promise<Signature> {
+    return this.db.transaction((tx) => {
+      const signature = tx.insert(signatures).values(insertSignature).returning().get();
+
+      // Each signature counts like an email sent
+      const project = tx
+        .update(projects)
+        .set({ emailsSent: sql`${projects.emailsSent} + 1` })
+        .where(eq(projects.id, signature.projectId))
+        .returning()
+        .get();
+
+      if (project) {
+        this.refreshProgressStatus(tx, project);
+
+        tx.insert(activities).values({
+          projectId: project.id,
+          activityType: 'signature',
+          actorName: signature.signerName || 'Anonymous User',
+          description: `Signed the digest regarding: ${project.title}`
+        }).run();
+      }
+
+      return signature;
+    });
+  }
+
+  async getPendingSignatures(): Promise<Signature[]> {
+    return this.db
+      .select()
+      .from(signatures)
+      .where(isNull(signatures.digestId))
+      .orderBy(asc(signatures.createdAt))
+      .all();
+  }
+
+  async getLatestDigest(projectId: number): Promise<Digest | undefined> {
+    return this.db
+      .select()
+      .from(digests)
+      .where(eq(digests.projectId, projectId))
+      .orderBy(desc(digests.sentAt))
+      .limit(1)
+      .get();
+  }
+
+  async createDigest(insertDigest: InsertDigest, signatureIds: number[]): Promise<Digest> {
+    return this.db.transaction((tx) => {
+      const digest = tx.insert(digests).values(insertDigest).returning().get();
+      if (signatureIds.length > 0) {
+        tx.update(signatures).set({ digestId: digest.id }).where(inArray(signatures.id, signatureIds)).run();
+      }
+      return digest;
+    });
+  }
+
+  // Activity operations
+  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+    return this.db.insert(activities).values(insertActivity).returning().get();
+  }
+
+  async getRecentActivities(limit: number): Promise<Activity[]> {
+    return this.db
+      .select()
+      .from(activities)
+      .orderBy(desc(activities.createdAt))
+      .limit(limit)
+      .all();
+  }
+
+  async getActivitiesByProject(projectId: number): Promise<Activity[]> {
+    return this.db
+      .select()
+      .from(activities)
+      .where(eq(activities.projectId, projectId))
+      .orderBy(desc(activities.createdAt))
+      .all();
+  }
+
+  // Stats operations
+  async getCommunityStats(): Promise<{
+    activeIssues: number;
+    emailsSent: number;
+    issuesResolved: number;
+    successRate: number;
+  }> {
+    const projectCounts = this.db
+      .select({
+        total: count(),
+        resolved: sql<number>`count(*) filter (where ${projects.progressStatus} = 'completed')`.mapWith(Number),
+      })
+      .from(projects)
+      .where(isNull(projects.mergedIntoId))
+      .get()!;
+    const emailCount = this.db.select({ total: count() }).from(emails).where(eq(emails.status, 'sent')).get()!;
+    // Signatures in digests count like emails
+    const signatureCount = this.db.select({ total: count() }).from(signatures).get()!;
+
+    const totalIssues = projectCounts.total;
+    const issuesResolved = projectCounts.resolved;
+    const successRate = totalIssues > 0 ? Math.round((issuesResolved / totalIssues) * 100) : 0;
+
+    return {
+      activeIssues: totalIssues - issuesResolved,
+      emailsSent: emailCount.total + signatureCount.total,
+      issuesResolved,
+      successRate
+    };
+  }
+
+  // Search and filter operations
+  async searchProjects(query: string): Promise<Project[]> {
+    // LIKE is case-insensitive for ASCII in SQLite
+    const pattern = `%${query}%`;
+    return this.db
+      .select()
+      .from(projects)
+      .where(or(
+        like(projects.title, pattern),
+        like(projects.description, pattern),
+        like(projects.location, pattern)
+      ))
+      .orderBy(desc(projects.upvotes))
+      .all();
+  }
+
+  async queryProjects(query: ProjectQuery): Promise<ProjectQueryResult> {
+    const filters = projectQueryFilters(projects, query);
+    const rows = this.db
+      .select()
+      .from(projects)
+      .where(and(filters, projectQueryCursor(projects, query)))
+      .orderBy(...projectQueryOrder(projects, query))
+      .limit(query.limit + 1)
+      .offset(query.cursor ? 0 : query.offset ?? 0)
+      .all();
+    const { total } = this.db.select({ total: count() }).from(projects).where(filters)
+      .get()!;
+
+    return toQueryResult(rows, total, query);
+  }
+
+  // Geospatial operations
+  async findProjectsNearby(center: GeoPoint, radiusMeters: number, limit: number, issueType?: Project["issueType"]): Promise<ProjectWithDistance[]> {
+    const rows = this.db
+      .select()
+      .from(projects)
+      .where(and(
+        isNull(projects.mergedIntoId),
+        withinRadius(projects, center, radiusMeters),
+        issueType ? eq(projects.issueType, issueType) : undefined
+      ))
+      .orderBy(squaredDistance(projects, center))
+      .limit(limit)
+      .all();
+
+    return withDistances(rows, center);
+  }
+
+  async findProjectsInBounds(bounds: GeoBounds, limit: number): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(and(isNull(projects.mergedIntoId), withinBounds(projects, bounds)))
+      .orderBy(desc(projects.upvotes))
+      .limit(limit)
+      .all();
+  }
+
+  // Comment operations
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    return this.db.transaction((tx) => {
+      const comment = tx.insert(comments).values(insertComment).returning().get();
+      const project = tx
+        .select({ title: projects.title })
+        .from(projects)
+        .where(eq(projects.id, comment.projectId))
+        .get();
+
+      // Create an activity for this new comment
+      tx.insert(activities).values({
+        projectId: comment.projectId,
+        activityType: 'comment_added',
+        actorName: comment.commenterName,
+        description: `New comment on project: ${project?.title || 'Unknown Project'}`
+      }).run();
+
+      return comment;
+    });
+  }
+
+  async getCommentsByProject(projectId: number): Promise<Comment[]> {
+    return this.db
+      .select()
+      .from(comments)
+      .where(eq(comments.projectId, projectId))
+      .orderBy(desc(comments.createdAt))
+      .all();
+  }
+
+  // Official response operations
+  async createOfficialResponse(insertResponse: InsertOfficialResponse): Promise<OfficialResponse> {
+    return this.db.insert(officialResponses).values(insertResponse).returning().get();
+  }
+
+  async getOfficialResponsesByProject(projectId: number): Promise<OfficialResponse[]> {
+    return this.db
+      .select()
+      .from(officialResponses)
+      .where(eq(officialResponses.projectId, projectId))
+      .orderBy(desc(officialResponses.receivedAt))
+      .all();
+  }
+
+  async getOfficialResponseByMessageId(messageId: string): Promise<OfficialResponse | undefined> {
+    return this.db.select().from(officialResponses).where(eq(officialResponses.messageId, messageId)).get();
+  }
+
+  // Department directory operations
+  async getDepartments(): Promise<Department[]> {
+    return this.db.select().from(departments).orderBy(departments.id).all();
+  }
+
+  async getDepartment(id: number): Promise<Department | undefined> {
+    return this.db.select().from(departments).where(eq(departments.id, id)).get();
+  }
+
+  async createDepartment(insertDepartment: InsertDepartment): Promise<Department> {
+    return this.db.insert(departments).values(insertDepartment).returning().get();
+  }
+
+  async updateDepartment(id: number, updates: Partial<InsertDepartment>): Promise<Department | undefined> {
+    return this.db
+      .update(departments)
+      .set(updates)
+      .where(eq(departments.id, id))
+      .returning()
+      .get();
+  }
+
+  async deleteDepartment(id: number): Promise<boolean> {
+    const deleted = this.db.delete(departments).where(eq(departments.id, id)).returning().all();
+    return deleted.length > 0;
+  }
+
+  // Security event operations
+  async createSecurityEvent(insertEvent: InsertSecurityEvent): Promise<SecurityEvent> {
+    return this.db.insert(securityEvents).values(insertEvent).returning().get();
+  }
+
+  async getSecurityEvents(limit: number): Promise<SecurityEvent[]> {
+    return this.db
+      .select()
+      .from(securityEvents)
+      .orderBy(desc(securityEvents.createdAt))
+      .limit(limit)
+      .all();
+  }
+
+  // Rate limit operations
+  async consumeRateLimits(limits: { key: string; limit: number }[], windowStart: Date): Promise<string | undefined> {
+    if (limits.length === 0) return undefined;
+    const keys = limits.map(({ key }) => key);
+    const inWindow = and(inArray(rateLimits.key, keys), eq(rateLimits.windowStart, windowStart));
+
+    return this.db.transaction((tx) => {
+      tx
+        .delete(rateLimits)
+        .where(lt(rateLimits.windowStart, windowStart))
+        .run();
+
+      const counters = tx
+        .select()
+        .from(rateLimits)
+        .where(inWindow)
+        .all();
+      const counts = new Map(counters.map(counter => [counter.key, counter.count]));
+
+      const exceeded = limits.find(({ key, limit }) => (counts.get(key) ?? 0) >= limit);
+      if (exceeded) return exceeded.key;
+
+      tx
+        .insert(rateLimits)
+        .values(keys.map(key => ({ key, windowStart, count: 1 })))
+        .onConflictDoUpdate({
+          target: [rateLimits.key, rateLimits.windowStart],
+          set: { count: sql`${rateLimits.count} + 1` }
+        })
+        .run();
+      return undefined;
+    });
+  }
+
+  // AI usage operations
+  async recordAiUsage(usage: InsertAiUsage): Promise<void> {
+    this.db
+      .insert(aiUsage)
+      .values(usage)
+      .onConflictDoUpdate({
+        target: [aiUsage.day, aiUsage.task],
+        set: {
+          requests: sql`${aiUsage.requests} + ${usage.requests ?? 0}`,
+          cachedRequests: sql`${aiUsage.cachedRequests} + ${usage.cachedRequests ?? 0}`,
+          budgetFallbacks: sql`${aiUsage.budgetFallbacks} + ${usage.budgetFallbacks ?? 0}`,
+          promptTokens: sql`${aiUsage.promptTokens} + ${usage.promptTokens ?? 0}`,
+          completionTokens: sql`${aiUsage.completionTokens} + ${usage.completionTokens ?? 0}`,
+          costUsd: sql`${aiUsage.costUsd} + ${usage.costUsd ?? 0}`
+        }
+      })
+      .run();
+  }
+
+  async getAiUsage(sinceDay: string): Promise<AiUsage[]> {
+    return this.db
+      .select()
+      .from(aiUsage)
+      .where(gte(aiUsage.day, sinceDay))
+      .orderBy(desc(aiUsage.day), asc(aiUsage.task))
+      .all();
+  }
+
+  // Prompt rollout operations
+  async getPromptRollouts(): Promise<PromptRollout[]> {
+    return this.db.select().from(promptRollouts).orderBy(asc(promptRollouts.name)).all();
+  }
+
+  async getPromptRollout(name: string): Promise<PromptRollout | undefined> {
+    return this.db.select().from(promptRollouts).where(eq(promptRollouts.name, name)).get();
+  }
+
+  async setPromptRollout(rollout: InsertPromptRollout): Promise<PromptRollout> {
+    return this.db
+      .insert(promptRollouts)
+      .values(rollout)
+      .onConflictDoUpdate({
+        target: promptRollouts.name,
+        set: { version: rollout.version, percent: rollout.percent, updatedAt: new Date() }
+      })
+      .returning()
+      .get();
+  }
+
+  async deletePromptRollout(name: string): Promise<boolean> {
+    const deleted = this.db.delete(promptRollouts).where(eq(promptRollouts.name, name)).returning().all();
+    return deleted.length > 0;
+  }
+
+  // Escalation operations
+  async getFirstDeliveryAt(projectId: number): Promise<Date | undefined> {
+    const email = this.db
+      .select({ sentAt: min(emails.sentAt) })
+      .from(emails)
+      .where(eq(emails.projectId, projectId))
+      .get();
+    const digest = this.db
+      .select({ sentAt: min(digests.sentAt) })
+      .from(digests)
+      .where(eq(digests.projectId, projectId))
+      .get();
+
+    const deliveries = [email?.sentAt, digest?.sentAt].filter((date): date is Date => !!date);
+    return deliveries.sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+
+  async createEscalation(insertEscalation: InsertEscalation): Promise<Escalation> {
+    return this.db.insert(escalations).values(insertEscalation).returning().get();
+  }
+
+  async getEscalationsByProject(projectId: number): Promise<Escalation[]> {
+    return this.db
+      .select()
+      .from(escalations)
+      .where(eq(escalations.projectId, projectId))
+      .orderBy(asc(escalations.sentAt))
+      .all();
+  }
+
+  // Translation operations
+  async getProjectTranslation(projectId: number, language: EmailLanguage): Promise<ProjectTranslation | undefined> {
+    return this.db
+      .select()
+      .from(projectTranslations)
+      .where(and(eq(projectTranslations.projectId, projectId), eq(projectTranslations.language, language)))
+      .get();
+  }
+
+  async saveProjectTranslation(insertTranslation: InsertProjectTranslation): Promise<ProjectTranslation> {
+    this.db.insert(projectTranslations).values(insertTranslation).onConflictDoNothing().run();
+    return (await this.getProjectTranslation(insertTranslation.projectId, insertTranslation.language))!;
+  }
+
+  // Recompute the progress status after a counter changed, within the same transaction
+  private refreshProgressStatus(tx: SqliteTransaction, project: Project): void {
+    const progressStatus = determineProgressStatus(project.upvotes, project.emailsSent, project.progressStatus);
+    if (progressStatus === project.progressStatus) return;
+
+    tx.update(projects).set({ progressStatus }).where(eq(projects.id, project.id)).run();
+    this.recordStatusChange(tx, project.id, progressStatus);
+  }
+
+  private recordStatusChange(tx: SqliteTransaction, projectId: number, progressStatus: string): void {
+    tx.insert(activities).values({
+      projectId,
+      activityType: 'status_change',
+      actorName: 'System',
+      description: `Project status updated to: ${progressStatus}`
+    }).run();
+  }
+}
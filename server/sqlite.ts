@@ -0,0 +1,26 @@
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import fs from "fs";
+import path from "path";
+import * as schema from "@shared/sqlite-schema";
+
+/**
+ * Open (creating if needed) an SQLite database file and apply pending migrations
+ */
+export function createSqliteDatabase(filename: string) {
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+  
+  const sqlite = new Database(filename);
+  // WAL lets the session store's connection read while we write
+  sqlite.pragma("journal_mode = WAL");
+  sqlite.pragma("busy_timeout = 5000");
+  
+  const db = drizzle({ client: sqlite, schema });
+  migrate(db, { migrationsFolder: path.resolve("migrations-sqlite") });
+  
+  return { sqlite, db };
+}
+
+export type SqliteDatabase = ReturnType<typeof createSqliteDatabase>["db"];
+export type SqliteTransaction = Parameters<Parameters<SqliteDatabase["transaction"]>[0]>[0];
@@ -0,0 +1,144 @@
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { Department, GeoPoint } from "@shared/schema";
+import { jurisdiction } from "./jurisdiction";
+
+// Static map images for emails, drawn as SVG without any outside service and
+// sent as PNG, since most email clients don't show SVG images. When
+// STATIC_MAP_TILE_DIR holds raster tiles laid out as {z}/{x}/{y}.png, the
+// map shows the streets around the pin. Otherwise it fits the jurisdiction
+// and draws its boundary and department areas.
+
+const TILE_DIR = process.env.STATIC_MAP_TILE_DIR;
+
+// Tile zoom used around the pin; defaults to a few levels closer than the
+// web map's default view
+const TILE_ZOOM = process.env.STATIC_MAP_ZOOM
+  ? parseInt(process.env.STATIC_MAP_ZOOM)
+  : Math.min(jurisdiction.defaultZoom + 4, 18);
+
+const WIDTH = 600;
+const HEIGHT = 300;
+const TILE_SIZE = 256;
+
+// Web Mercator pixel coordinates of a point at a (possibly fractional) zoom
+function toWorldPixels(point: GeoPoint, zoom: number): [number, number] {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin(point.lat * Math.PI / 180);
+  return [
+    (point.lng + 180) / 360 * scale,
+    (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale
+  ];
+}
+
+interface View {
+  zoom: number;
+  left: number;
+  top: number;
+}
+
+function toView(view: View, point: GeoPoint): [number, number] {
+  const [x, y] = toWorldPixels(point, view.zoom);
+  return [x - view.left, y - view.top];
+}
+
+// View centered on a point at the given zoom
+function viewAround(center: GeoPoint, zoom: number): View {
+  const [x, y] = toWorldPixels(center, zoom);
+  return { zoom, left: x - WIDTH / 2, top: y - HEIGHT / 2 };
+}
+
+// View fitting a polygon with some margin
+function viewFitting(polygon: [number, number][]): View {
+  const corners = polygon.map(([lat, lng]) => toWorldPixels({ lat, lng }, 0));
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  const spanX = Math.max(Math.max(...xs) - Math.min(...xs), 1e-9);
+  const spanY = Math.max(Math.max(...ys) - Math.min(...ys), 1e-9);
+
+  const zoom = Math.log2(Math.min(WIDTH * 0.9 / spanX, HEIGHT * 0.9 / spanY));
+  const x = (Math.max(...xs) + Math.min(...xs)) / 2 * 2 ** zoom;
+  const y = (Math.max(...ys) + Math.min(...ys)) / 2 * 2 ** zoom;
+  return { zoom, left: x - WIDTH / 2, top: y - HEIGHT / 2 };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function polygonPoints(view: View, polygon: [number, number][]): string {
+  return polygon
+    .map(([lat, lng]) => toView(view, { lat, lng }).map(value => value.toFixed(1)).join(","))
+    .join(" ");
+}
+
+// Tiles covering the view, embedded as data URIs; empty if any is missing
+async function tileImages(view: View): Promise<string[]> {
+  if (!TILE_DIR) return [];
+
+  const count = 2 ** view.zoom;
+  const images: string[] = [];
+  for (let tileX = Math.floor(view.left / TILE_SIZE); tileX * TILE_SIZE < view.left + WIDTH; tileX++) {
+    for (let tileY = Math.floor(view.top / TILE_SIZE); tileY * TILE_SIZE < view.top + HEIGHT; tileY++) {
+      if (tileY < 0 || tileY >= count) continue;
+      const wrappedX = ((tileX % count) + count) % count;
+
+      try {
+        const tile = await fs.readFile(path.join(TILE_DIR, String(view.zoom), String(wrappedX), `${tileY}.png`));
+        const x = (tileX * TILE_SIZE - view.left).toFixed(1);
+        const y = (tileY * TILE_SIZE - view.top).toFixed(1);
+        images.push(`<image x="${x}" y="${y}" width="${TILE_SIZE}" height="${TILE_SIZE}" href="data:image/png;base64,${tile.toString("base64")}"/>`);
+      } catch {
+        return [];
+      }
+    }
+  }
+  return images;
+}
+
+// SVG map of an issue's location with a pin, using local tiles when they
+// cover the area and the jurisdiction outline otherwise
+async function renderStaticMapSvg(point: GeoPoint, departments: Department[]): Promise<string> {
+  const tileView = viewAround(point, TILE_ZOOM);
+  const tiles = await tileImages(tileView);
+  const view = tiles.length > 0 ? tileView : viewFitting(jurisdiction.boundary);
+
+  const layers: string[] = [];
+  if (tiles.length > 0) {
+    layers.push(...tiles);
+  } else {
+    layers.push(`<rect width="${WIDTH}" height="${HEIGHT}" fill="#e5e7eb"/>`);
+    layers.push(`<polygon points="${polygonPoints(view, jurisdiction.boundary)}" fill="#ffffff" stroke="#6b7280" stroke-width="2"/>`);
+    for (const department of departments) {
+      if (!department.area) continue;
+      layers.push(`<polygon points="${polygonPoints(view, department.area)}" fill="#dbeafe" fill-opacity="0.5" stroke="#3b82f6" stroke-dasharray="4 3"/>`);
+    }
+    layers.push(`<text x="12" y="22" font-family="Arial, sans-serif" font-size="13" fill="#374151">${escapeXml(jurisdiction.name)}</text>`);
+  }
+
+  // Teardrop pin with its tip on the location
+  const [x, y] = toView(view, point).map(value => value.toFixed(1));
+  layers.push(
+    `<g transform="translate(${x},${y})">` +
+    `<path d="M0,0 C-4,-10 -11,-14 -11,-22 A11,11 0 1,1 11,-22 C11,-14 4,-10 0,0 Z" fill="#dc2626" stroke="#7f1d1d" stroke-width="1.5"/>` +
+    `<circle cx="0" cy="-22" r="4" fill="#ffffff"/>` +
+    `</g>`
+  );
+
+  if (tiles.length > 0 && jurisdiction.tileAttribution) {
+    const attribution = jurisdiction.tileAttribution.replace(/<[^>]*>/g, "").replace(/&copy;/g, "©");
+    layers.push(`<rect x="0" y="${HEIGHT - 16}" width="${WIDTH}" height="16" fill="#ffffff" fill-opacity="0.7"/>`);
+    layers.push(`<text x="${WIDTH - 6}" y="${HEIGHT - 4}" text-anchor="end" font-family="Arial, sans-serif" font-size="10" fill="#374151">${escapeXml(attribution)}</text>`);
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">${layers.join("")}</svg>`;
+}
+
+/**
+ * PNG map of an issue's location with a pin
+ */
+export async function renderStaticMap(point: GeoPoint, departments: Department[] = []): Promise<Buffer> {
+  const svg = await renderStaticMapSvg(point, departments);
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
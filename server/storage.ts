@@ -1,14 +1,39 @@
 import { 
   User, InsertUser, 
-  Project, InsertProject, 
+  Project, NewProject, 
   Upvote, InsertUpvote, 
-  Email, InsertEmail, 
+  Email, NewEmail, EmailStatus,
+  Signature, InsertSignature,
+  Digest, InsertDigest,
   Activity, InsertActivity,
-  Comment, InsertComment
+  Comment, InsertComment,
+  OfficialResponse, InsertOfficialResponse,
+  Department, InsertDepartment,
+  SecurityEvent, InsertSecurityEvent,
+  RateLimit,
+  AiUsage, InsertAiUsage,
+  PromptRollout, InsertPromptRollout,
+  Escalation, InsertEscalation,
+  ProjectTranslation, InsertProjectTranslation, EmailLanguage,
+  ProjectQuery, ProjectQueryResult,
+  GeoBounds, GeoPoint, ProjectWithDistance
 } from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { determineProgressStatus } from "./progress";
+import { checkMerge, duplicateUpvotes, mergeActivityDescription, mergedProgressStatus } from "./project-merge";
+import { findInBoundsInMemory, findNearbyInMemory, queryProjectsInMemory } from "./project-query";
+import { createDatabase } from "./db";
+import { DatabaseStorage } from "./database-storage";
+import { SqliteStorage } from "./sqlite-storage";
+
+const MemoryStore = createMemoryStore(session);
 
 // Interface for storage operations
 export interface IStorage {
+  // Session store used by express-session
+  sessionStore: session.Store;
+  
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -21,17 +46,41 @@ export interface IStorage {
   getProjectById(id: number): Promise<Project | undefined>;
   getProjectsByType(issueType: string): Promise<Project[]>;
   getProjectsByStatus(progressStatus: string): Promise<Project[]>;
-  createProject(project: InsertProject): Promise<Project>;
+  createProject(project: NewProject): Promise<Project>;
   updateProject(id: number, updates: Partial<Project>): Promise<Project | undefined>;
   
+  mergeProjects(targetId: number, sourceId: number, actorName: string): Promise<Project | undefined>;
+  
   // Upvote operations
   createUpvote(upvote: InsertUpvote): Promise<Upvote>;
   getUpvotesByProject(projectId: number): Promise<Upvote[]>;
   hasUserUpvoted(projectId: number, ipAddress: string): Promise<boolean>;
   
-  // Email operations
-  createEmail(email: InsertEmail): Promise<Email>;
+  // Email operations. New emails are queued; the email queue delivers them.
+  createEmail(email: NewEmail): Promise<Email>;
+  getEmailById(id: number): Promise<Email | undefined>;
+  // Emails waiting on a confirmation link, oldest first. Emails sent while a
+  // confirmation is outstanding share its token.
+  getEmailsByVerificationToken(token: string): Promise<Email[]>;
+  // The latest email created since `since` still waiting for the address to
+  // be confirmed
+  getPendingSenderVerification(senderEmail: string, since: Date): Promise<Email | undefined>;
   getEmailsByProject(projectId: number): Promise<Email[]>;
+  getEmailsByStatus(status: EmailStatus, limit: number): Promise<Email[]>;
+  updateEmail(id: number, updates: Partial<Email>): Promise<Email | undefined>;
+  // Mark up to `limit` queued emails that are due as sending, and return them
+  claimDueEmails(now: Date, limit: number): Promise<Email[]>;
+  // Record a confirmed delivery and count it towards the project
+  markEmailSent(id: number): Promise<Email | undefined>;
+  
+  // Signature and digest operations
+  // Record a signature on a digest-mode project and count it towards the project
+  createSignature(signature: InsertSignature): Promise<Signature>;
+  // Signatures not yet sent in a digest, oldest first
+  getPendingSignatures(): Promise<Signature[]>;
+  getLatestDigest(projectId: number): Promise<Digest | undefined>;
+  // Record a sent digest and mark its signatures as sent in it
+  createDigest(digest: InsertDigest, signatureIds: number[]): Promise<Digest>;
   
   // Activity operations
   createActivity(activity: InsertActivity): Promise<Activity>;
@@ -48,10 +97,64 @@ export interface IStorage {
   
   // Search and filter operations
   searchProjects(query: string): Promise<Project[]>;
+  queryProjects(query: ProjectQuery): Promise<ProjectQueryResult>;
+  
+  // Geospatial operations
+  // Only projects of `issueType`, when given
+  findProjectsNearby(center: GeoPoint, radiusMeters: number, limit: number, issueType?: Project["issueType"]): Promise<ProjectWithDistance[]>;
+  findProjectsInBounds(bounds: GeoBounds, limit: number): Promise<Project[]>;
   
   // Comment operations
   createComment(comment: InsertComment): Promise<Comment>;
   getCommentsByProject(projectId: number): Promise<Comment[]>;
+  
+  // Official response operations
+  createOfficialResponse(response: InsertOfficialResponse): Promise<OfficialResponse>;
+  getOfficialResponsesByProject(projectId: number): Promise<OfficialResponse[]>;
+  getOfficialResponseByMessageId(messageId: string): Promise<OfficialResponse | undefined>;
+  
+  // Department directory operations
+  getDepartments(): Promise<Department[]>;
+  getDepartment(id: number): Promise<Department | undefined>;
+  createDepartment(department: InsertDepartment): Promise<Department>;
+  updateDepartment(id: number, updates: Partial<InsertDepartment>): Promise<Department | undefined>;
+  deleteDepartment(id: number): Promise<boolean>;
+  
+  // Security event operations
+  createSecurityEvent(event: InsertSecurityEvent): Promise<SecurityEvent>;
+  getSecurityEvents(limit: number): Promise<SecurityEvent[]>;
+  
+  // Rate limit operations
+  // Count one send against every key in the window starting at windowStart,
+  // unless a key has already reached its limit. Returns the first such key,
+  // in which case nothing is counted. Counts from earlier windows are dropped.
+  consumeRateLimits(limits: { key: string; limit: number }[], windowStart: Date): Promise<string | undefined>;
+  
+  // AI usage operations
+  // Add to a day's totals for an AI function
+  recordAiUsage(usage: InsertAiUsage): Promise<void>;
+  // Totals from the given day on, newest first
+  getAiUsage(sinceDay: string): Promise<AiUsage[]>;
+  
+  // Prompt rollout operations
+  getPromptRollouts(): Promise<PromptRollout[]>;
+  getPromptRollout(name: string): Promise<PromptRollout | undefined>;
+  // Start or change the rollout for a prompt
+  setPromptRollout(rollout: InsertPromptRollout): Promise<PromptRollout>;
+  deletePromptRollout(name: string): Promise<boolean>;
+  
+  // Escalation operations
+  // When the first email or digest about a project reached its recipient
+  getFirstDeliveryAt(projectId: number): Promise<Date | undefined>;
+  createEscalation(escalation: InsertEscalation): Promise<Escalation>;
+  // Escalations sent about a project, oldest first
+  getEscalationsByProject(projectId: number): Promise<Escalation[]>;
+  
+  // Translation operations
+  getProjectTranslation(projectId: number, language: EmailLanguage): Promise<ProjectTranslation | undefined>;
+  // Store a translation, keeping the existing one if another request saved
+  // it first
+  saveProjectTranslation(translation: InsertProjectTranslation): Promise<ProjectTranslation>;
 }
 
 // Memory storage implementation
@@ -60,30 +163,70 @@ export class MemStorage implements IStorage {
   private projects: Map<number, Project>;
   private upvotes: Map<number, Upvote>;
   private emails: Map<number, Email>;
+  private signatures: Map<number, Signature>;
+  private digests: Map<number, Digest>;
   private activities: Map<number, Activity>;
   private comments: Map<number, Comment>;
+  private officialResponses: Map<number, OfficialResponse>;
+  private departments: Map<number, Department>;
+  private securityEvents: Map<number, SecurityEvent>;
+  private rateLimits: Map<string, RateLimit>;
+  private aiUsage: Map<string, AiUsage>;
+  private promptRollouts: Map<string, PromptRollout>;
+  private escalations: Map<number, Escalation>;
+  private projectTranslations: Map<number, ProjectTranslation>;
   
   private userId: number;
   private projectId: number;
   private upvoteId: number;
   private emailId: number;
+  private signatureId: number;
+  private digestId: number;
   private activityId: number;
   private commentId: number;
+  private officialResponseId: number;
+  private departmentId: number;
+  private securityEventId: number;
+  private escalationId: number;
+  private projectTranslationId: number;
+  
+  sessionStore: session.Store;
   
   constructor() {
     this.users = new Map();
     this.projects = new Map();
     this.upvotes = new Map();
     this.emails = new Map();
+    this.signatures = new Map();
+    this.digests = new Map();
     this.activities = new Map();
     this.comments = new Map();
+    this.officialResponses = new Map();
+    this.departments = new Map();
+    this.securityEvents = new Map();
+    this.rateLimits = new Map();
+    this.aiUsage = new Map();
+    this.promptRollouts = new Map();
+    this.escalations = new Map();
+    this.projectTranslations = new Map();
     
     this.userId = 1;
     this.projectId = 1;
     this.upvoteId = 1;
     this.emailId = 1;
+    this.signatureId = 1;
+    this.digestId = 1;
     this.activityId = 1;
     this.commentId = 1;
+    this.officialResponseId = 1;
+    this.departmentId = 1;
+    this.securityEventId = 1;
+    this.escalationId = 1;
+    this.projectTranslationId = 1;
+    
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // Prune expired entries every 24h
+    });
     
     // Add some sample data
     this.addSampleData();
@@ -163,7 +306,7 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.upvotes - a.upvotes);
   }
   
-  async createProject(insertProject: InsertProject): Promise<Project> {
+  async createProject(insertProject: NewProject): Promise<Project> {
     const id = this.projectId++;
     const project: Project = {
       ...insertProject,
@@ -176,7 +319,13 @@ export class MemStorage implements IStorage {
       urgencyLevel: insertProject.urgencyLevel || "medium",
       contactEmail: insertProject.contactEmail || null,
       photoUrl: insertProject.photoUrl || null,
-      photoData: insertProject.photoData || null
+      photoData: insertProject.photoData || null,
+      mergedIntoId: null,
+      recipientStatus: insertProject.recipientStatus || 'pending_approval',
+      deliveryMode: 'individual',
+      escalationPaused: false,
+      language: insertProject.language || 'en',
+      promptVersion: insertProject.promptVersion || null
     };
     
     this.projects.set(id, project);
@@ -217,6 +366,62 @@ export class MemStorage implements IStorage {
     return updatedProject;
   }
   
+  async mergeProjects(targetId: number, sourceId: number, actorName: string): Promise<Project | undefined> {
+    const target = this.projects.get(targetId);
+    const source = this.projects.get(sourceId);
+    if (!target || !source) return undefined;
+    checkMerge(target, source);
+    
+    // Drop upvotes from people who already upvoted the target, then move the rest
+    const duplicates = duplicateUpvotes(
+      await this.getUpvotesByProject(targetId),
+      await this.getUpvotesByProject(sourceId)
+    );
+    duplicates.forEach(upvote => this.upvotes.delete(upvote.id));
+    
+    const moveRecords = <T extends { projectId: number }>(records: Map<number, T>) => {
+      records.forEach((record, id) => {
+        if (record.projectId === sourceId) {
+          records.set(id, { ...record, projectId: targetId });
+        }
+      });
+    };
+    moveRecords(this.upvotes);
+    moveRecords(this.emails);
+    moveRecords(this.comments);
+    moveRecords(this.signatures);
+    moveRecords(this.officialResponses);
+    moveRecords(this.activities);
+    
+    // Projects previously merged into the source now redirect to the target
+    this.projects.forEach((project, id) => {
+      if (project.mergedIntoId === sourceId) {
+        this.projects.set(id, { ...project, mergedIntoId: targetId });
+      }
+    });
+    
+    const upvoteCount = Math.max(target.upvotes + source.upvotes - duplicates.length, 0);
+    const emailsSent = target.emailsSent + source.emailsSent;
+    
+    // Leave the source as a redirect stub
+    this.projects.set(sourceId, { ...source, mergedIntoId: targetId, upvotes: 0, emailsSent: 0 });
+    
+    const merged = await this.updateProject(targetId, {
+      upvotes: upvoteCount,
+      emailsSent,
+      progressStatus: mergedProgressStatus(target, source, upvoteCount, emailsSent)
+    });
+    
+    await this.createActivity({
+      projectId: targetId,
+      activityType: 'project_merged',
+      actorName,
+      description: mergeActivityDescription(source)
+    });
+    
+    return merged;
+  }
+  
   // Upvote operations
   async createUpvote(insertUpvote: InsertUpvote): Promise<Upvote> {
     const id = this.upvoteId++;
@@ -234,7 +439,7 @@ export class MemStorage implements IStorage {
     if (project) {
       await this.updateProject(project.id, { 
         upvotes: project.upvotes + 1,
-        progressStatus: this.determineProgressStatus(project.upvotes + 1, project.emailsSent, project.progressStatus)
+        progressStatus: determineProgressStatus(project.upvotes + 1, project.emailsSent, project.progressStatus)
       });
       
       // Create an activity
@@ -260,17 +465,91 @@ export class MemStorage implements IStorage {
   }
   
   // Email operations
-  async createEmail(insertEmail: InsertEmail): Promise<Email> {
+  async createEmail(insertEmail: NewEmail): Promise<Email> {
     const id = this.emailId++;
+    const now = new Date();
     const email: Email = {
       ...insertEmail,
       id,
-      sentAt: new Date(),
       senderEmail: insertEmail.senderEmail || null,
       senderName: insertEmail.senderName || null,
-      customContent: insertEmail.customContent || null
+      customContent: insertEmail.customContent || null,
+      senderVerification: insertEmail.senderVerification || 'unverified',
+      verificationToken: insertEmail.verificationToken || null,
+      senderVerifiedAt: null,
+      status: 'queued',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: insertEmail.nextAttemptAt || now,
+      createdAt: now,
+      sentAt: null
     };
     
+    this.emails.set(id, email);
+    return email;
+  }
+  
+  async getEmailById(id: number): Promise<Email | undefined> {
+    return this.emails.get(id);
+  }
+  
+  async getEmailsByVerificationToken(token: string): Promise<Email[]> {
+    return Array.from(this.emails.values())
+      .filter(email => email.verificationToken === token)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getPendingSenderVerification(senderEmail: string, since: Date): Promise<Email | undefined> {
+    return Array.from(this.emails.values())
+      .filter(email =>
+        email.senderEmail === senderEmail &&
+        email.senderVerification === 'pending' &&
+        email.verificationToken !== null &&
+        email.createdAt >= since
+      )
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  async getEmailsByStatus(status: EmailStatus, limit: number): Promise<Email[]> {
+    return Array.from(this.emails.values())
+      .filter(email => email.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+  
+  async updateEmail(id: number, updates: Partial<Email>): Promise<Email | undefined> {
+    const email = this.emails.get(id);
+    if (!email) return undefined;
+    
+    const updatedEmail = { ...email, ...updates, id };
+    this.emails.set(id, updatedEmail);
+    return updatedEmail;
+  }
+  
+  async claimDueEmails(now: Date, limit: number): Promise<Email[]> {
+    const due = Array.from(this.emails.values())
+      .filter(email => email.status === 'queued' && email.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+    
+    return due.map(email => {
+      const claimed: Email = { ...email, status: 'sending' };
+      this.emails.set(email.id, claimed);
+      return claimed;
+    });
+  }
+  
+  async markEmailSent(id: number): Promise<Email | undefined> {
+    const existing = this.emails.get(id);
+    if (!existing) return undefined;
+    
+    const email: Email = {
+      ...existing,
+      status: 'sent',
+      attempts: existing.attempts + 1,
+      lastError: null,
+      sentAt: new Date()
+    };
     this.emails.set(id, email);
     
     // Increment email count for the project
@@ -278,7 +557,7 @@ export class MemStorage implements IStorage {
     if (project) {
       await this.updateProject(project.id, { 
         emailsSent: project.emailsSent + 1,
-        progressStatus: this.determineProgressStatus(project.upvotes, project.emailsSent + 1, project.progressStatus)
+        progressStatus: determineProgressStatus(project.upvotes, project.emailsSent + 1, project.progressStatus)
       });
       
       // Create an activity
@@ -296,7 +575,67 @@ export class MemStorage implements IStorage {
   async getEmailsByProject(projectId: number): Promise<Email[]> {
     return Array.from(this.emails.values())
       .filter(email => email.projectId === projectId)
-      .sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime());
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  // Signature and digest operations
+  async createSignature(insertSignature: InsertSignature): Promise<Signature> {
+    const id = this.signatureId++;
+    const signature: Signature = {
+      ...insertSignature,
+      id,
+      signerName: insertSignature.signerName ?? null,
+      signerEmail: insertSignature.signerEmail ?? null,
+      message: insertSignature.message ?? null,
+      digestId: null,
+      createdAt: new Date()
+    };
+    this.signatures.set(id, signature);
+    
+    // Each signature counts like an email sent
+    const project = this.projects.get(signature.projectId);
+    if (project) {
+      await this.updateProject(project.id, {
+        emailsSent: project.emailsSent + 1,
+        progressStatus: determineProgressStatus(project.upvotes, project.emailsSent + 1, project.progressStatus)
+      });
+      
+      await this.createActivity({
+        projectId: project.id,
+        activityType: 'signature',
+        actorName: signature.signerName || 'Anonymous User',
+        description: `Signed the digest regarding: ${project.title}`
+      });
+    }
+    
+    return signature;
+  }
+  
+  async getPendingSignatures(): Promise<Signature[]> {
+    return Array.from(this.signatures.values())
+      .filter(signature => signature.digestId === null)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+  
+  async getLatestDigest(projectId: number): Promise<Digest | undefined> {
+    return Array.from(this.digests.values())
+      .filter(digest => digest.projectId === projectId)
+      .sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime())[0];
+  }
+  
+  async createDigest(insertDigest: InsertDigest, signatureIds: number[]): Promise<Digest> {
+    const id = this.digestId++;
+    const digest: Digest = { ...insertDigest, id, sentAt: new Date() };
+    this.digests.set(id, digest);
+    
+    for (const signatureId of signatureIds) {
+      const signature = this.signatures.get(signatureId);
+      if (signature) {
+        this.signatures.set(signatureId, { ...signature, digestId: id });
+      }
+    }
+    
+    return digest;
   }
   
   // Activity operations
@@ -332,11 +671,13 @@ export class MemStorage implements IStorage {
     issuesResolved: number;
     successRate: number;
   }> {
-    const projects = Array.from(this.projects.values());
+    const projects = Array.from(this.projects.values()).filter(p => p.mergedIntoId === null);
     const activeIssues = projects.filter(p => p.progressStatus !== 'completed').length;
     const issuesResolved = projects.filter(p => p.progressStatus === 'completed').length;
     const totalIssues = projects.length;
-    const totalEmails = Array.from(this.emails.values()).length;
+    // Signatures in digests count like emails
+    const totalEmails = Array.from(this.emails.values()).filter(email => email.status === 'sent').length
+      + this.signatures.size;
     
     const successRate = totalIssues > 0 ? Math.round((issuesResolved / totalIssues) * 100) : 0;
     
@@ -360,6 +701,19 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.upvotes - a.upvotes);
   }
   
+  async queryProjects(query: ProjectQuery): Promise<ProjectQueryResult> {
+    return queryProjectsInMemory(Array.from(this.projects.values()), query);
+  }
+  
+  // Geospatial operations
+  async findProjectsNearby(center: GeoPoint, radiusMeters: number, limit: number, issueType?: Project["issueType"]): Promise<ProjectWithDistance[]> {
+    return findNearbyInMemory(Array.from(this.projects.values()), center, radiusMeters, limit, issueType);
+  }
+  
+  async findProjectsInBounds(bounds: GeoBounds, limit: number): Promise<Project[]> {
+    return findInBoundsInMemory(Array.from(this.projects.values()), bounds, limit);
+  }
+  
   // Comment operations
   async createComment(insertComment: InsertComment): Promise<Comment> {
     const id = this.commentId++;
@@ -388,24 +742,198 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
   
-  // Helper method to determine progress status based on upvotes and emails
-  private determineProgressStatus(
-    upvotes: number, 
-    emailsSent: number, 
-    currentStatus: string
-  ): "idea_submitted" | "community_support" | "email_campaign_active" | "official_acknowledgment" | "planning_stage" | "implementation" | "completed" {
-    // Don't downgrade from these statuses
-    if (['official_acknowledgment', 'planning_stage', 'implementation', 'completed'].includes(currentStatus)) {
-      return currentStatus as "official_acknowledgment" | "planning_stage" | "implementation" | "completed";
-    }
+  // Official response operations
+  async createOfficialResponse(insertResponse: InsertOfficialResponse): Promise<OfficialResponse> {
+    const id = this.officialResponseId++;
+    const response: OfficialResponse = {
+      ...insertResponse,
+      id,
+      fromName: insertResponse.fromName ?? null,
+      messageId: insertResponse.messageId ?? null,
+      receivedAt: new Date()
+    };
+    
+    this.officialResponses.set(id, response);
+    return response;
+  }
+  
+  async getOfficialResponsesByProject(projectId: number): Promise<OfficialResponse[]> {
+    return Array.from(this.officialResponses.values())
+      .filter(response => response.projectId === projectId)
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime());
+  }
+  
+  async getOfficialResponseByMessageId(messageId: string): Promise<OfficialResponse | undefined> {
+    return Array.from(this.officialResponses.values()).find(response => response.messageId === messageId);
+  }
+  
+  // Department directory operations
+  async getDepartments(): Promise<Department[]> {
+    return Array.from(this.departments.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  async getDepartment(id: number): Promise<Department | undefined> {
+    return this.departments.get(id);
+  }
+  
+  async createDepartment(insertDepartment: InsertDepartment): Promise<Department> {
+    const id = this.departmentId++;
+    const department: Department = {
+      ...insertDepartment,
+      id,
+      issueTypes: insertDepartment.issueTypes ?? [],
+      area: insertDepartment.area ?? null,
+      escalationRules: insertDepartment.escalationRules ?? [],
+      createdAt: new Date()
+    };
+    
+    this.departments.set(id, department);
+    return department;
+  }
+  
+  async updateDepartment(id: number, updates: Partial<InsertDepartment>): Promise<Department | undefined> {
+    const department = this.departments.get(id);
+    if (!department) return undefined;
+    
+    const updatedDepartment = { ...department, ...updates };
+    this.departments.set(id, updatedDepartment);
+    return updatedDepartment;
+  }
+  
+  async deleteDepartment(id: number): Promise<boolean> {
+    return this.departments.delete(id);
+  }
+  
+  // Security event operations
+  async createSecurityEvent(insertEvent: InsertSecurityEvent): Promise<SecurityEvent> {
+    const id = this.securityEventId++;
+    const event: SecurityEvent = {
+      ...insertEvent,
+      id,
+      projectId: insertEvent.projectId ?? null,
+      userId: insertEvent.userId ?? null,
+      ipAddress: insertEvent.ipAddress ?? null,
+      createdAt: new Date()
+    };
+    
+    this.securityEvents.set(id, event);
+    return event;
+  }
+  
+  async getSecurityEvents(limit: number): Promise<SecurityEvent[]> {
+    return Array.from(this.securityEvents.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+  
+  // Rate limit operations
+  async consumeRateLimits(limits: { key: string; limit: number }[], windowStart: Date): Promise<string | undefined> {
+    const current = (key: string) => {
+      const counter = this.rateLimits.get(key);
+      return counter && counter.windowStart.getTime() === windowStart.getTime() ? counter.count : 0;
+    };
+    
+    const exceeded = limits.find(({ key, limit }) => current(key) >= limit);
+    if (exceeded) return exceeded.key;
     
-    if (emailsSent >= 50) {
-      return 'email_campaign_active';
-    } else if (upvotes >= 25) {
-      return 'community_support';
-    } else {
-      return 'idea_submitted';
+    for (const { key } of limits) {
+      this.rateLimits.set(key, { key, windowStart, count: current(key) + 1 });
     }
+    return undefined;
+  }
+  
+  // AI usage operations
+  async recordAiUsage(usage: InsertAiUsage): Promise<void> {
+    const key = `${usage.day}|${usage.task}`;
+    const totals = this.aiUsage.get(key);
+    this.aiUsage.set(key, {
+      day: usage.day,
+      task: usage.task,
+      requests: (totals?.requests ?? 0) + (usage.requests ?? 0),
+      cachedRequests: (totals?.cachedRequests ?? 0) + (usage.cachedRequests ?? 0),
+      budgetFallbacks: (totals?.budgetFallbacks ?? 0) + (usage.budgetFallbacks ?? 0),
+      promptTokens: (totals?.promptTokens ?? 0) + (usage.promptTokens ?? 0),
+      completionTokens: (totals?.completionTokens ?? 0) + (usage.completionTokens ?? 0),
+      costUsd: (totals?.costUsd ?? 0) + (usage.costUsd ?? 0)
+    });
+  }
+  
+  async getAiUsage(sinceDay: string): Promise<AiUsage[]> {
+    return Array.from(this.aiUsage.values())
+      .filter(usage => usage.day >= sinceDay)
+      .sort((a, b) => b.day.localeCompare(a.day) || a.task.localeCompare(b.task));
+  }
+  
+  // Prompt rollout operations
+  async getPromptRollouts(): Promise<PromptRollout[]> {
+    return Array.from(this.promptRollouts.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getPromptRollout(name: string): Promise<PromptRollout | undefined> {
+    return this.promptRollouts.get(name);
+  }
+  
+  async setPromptRollout(rollout: InsertPromptRollout): Promise<PromptRollout> {
+    const saved: PromptRollout = { ...rollout, updatedAt: new Date() };
+    this.promptRollouts.set(rollout.name, saved);
+    return saved;
+  }
+  
+  async deletePromptRollout(name: string): Promise<boolean> {
+    return this.promptRollouts.delete(name);
+  }
+  
+  // Escalation operations
+  async getFirstDeliveryAt(projectId: number): Promise<Date | undefined> {
+    const deliveries = [
+      ...Array.from(this.emails.values())
+        .filter(email => email.projectId === projectId && email.sentAt)
+        .map(email => email.sentAt!),
+      ...Array.from(this.digests.values())
+        .filter(digest => digest.projectId === projectId)
+        .map(digest => digest.sentAt)
+    ];
+    return deliveries.sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+  
+  async createEscalation(insertEscalation: InsertEscalation): Promise<Escalation> {
+    const id = this.escalationId++;
+    const escalation: Escalation = {
+      ...insertEscalation,
+      id,
+      departmentId: insertEscalation.departmentId ?? null,
+      sentAt: new Date()
+    };
+    
+    this.escalations.set(id, escalation);
+    return escalation;
+  }
+  
+  async getEscalationsByProject(projectId: number): Promise<Escalation[]> {
+    return Array.from(this.escalations.values())
+      .filter(escalation => escalation.projectId === projectId)
+      .sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+  }
+  
+  // Translation operations
+  async getProjectTranslation(projectId: number, language: EmailLanguage): Promise<ProjectTranslation | undefined> {
+    return Array.from(this.projectTranslations.values())
+      .find(translation => translation.projectId === projectId && translation.language === language);
+  }
+  
+  async saveProjectTranslation(insertTranslation: InsertProjectTranslation): Promise<ProjectTranslation> {
+    const existing = await this.getProjectTranslation(insertTranslation.projectId, insertTranslation.language);
+    if (existing) return existing;
+    
+    const id = this.projectTranslationId++;
+    const translation: ProjectTranslation = {
+      ...insertTranslation,
+      id,
+      createdAt: new Date()
+    };
+    
+    this.projectTranslations.set(id, translation);
+    return translation;
   }
   
   // Add some sample data for development
@@ -416,8 +944,8 @@ export class MemStorage implements IStorage {
       description: "Dangerous intersection with high pedestrian traffic and no safe crossing.",
       issueType: "crosswalk",
       location: "Lincoln & 5th Ave",
-      latitude: "37.7749",
-      longitude: "-122.4194",
+      latitude: 32.7920,
+      longitude: -115.5630,
       urgencyLevel: "medium",
       contactEmail: "example@example.com",
       emailTemplate: "Dear Transportation Department,\n\nI am writing to request the installation of a crosswalk at the intersection of Lincoln Avenue and 5th Street. This intersection experiences high pedestrian traffic, particularly during rush hours, yet lacks a safe crossing option for pedestrians.\n\nAs a regular commuter through this area, I have witnessed several near-miss incidents between vehicles and pedestrians attempting to cross this busy intersection. The lack of a designated crosswalk creates a medium-urgency safety concern for our community members, especially children and elderly individuals who frequently use this route.\n\nThe installation of a crosswalk at this location would significantly improve pedestrian safety and traffic flow. Many residents in the surrounding neighborhoods would benefit from this infrastructure improvement, as it connects residential areas to local businesses and public transportation stops.\n\nI would appreciate your department's consideration of this request. Please feel free to contact me at the information provided below if you require any additional details or community input regarding this matter.\n\nThank you for your attention to this important safety concern.\n\nSincerely,\n[Your Name]\n[Optional Contact Information]",
@@ -429,7 +957,13 @@ export class MemStorage implements IStorage {
       photoUrl: null,
       photoData: null,
       createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 7 days ago
-      createdBy: null
+      createdBy: null,
+      mergedIntoId: null,
+      recipientStatus: 'allowed',
+      deliveryMode: 'individual',
+      escalationPaused: false,
+      language: 'en',
+      promptVersion: null
     };
     
     const project2: Project = {
@@ -438,8 +972,8 @@ export class MemStorage implements IStorage {
       description: "Multiple large cracks making it difficult for wheelchair access.",
       issueType: "sidewalk",
       location: "Oak Street",
-      latitude: "37.7746",
-      longitude: "-122.4184",
+      latitude: 32.7953,
+      longitude: -115.5580,
       urgencyLevel: "low",
       contactEmail: null,
       emailTemplate: "Dear Public Works Department,\n\nI am writing to bring to your attention a sidewalk in serious disrepair on Oak Street between 10th and 11th Avenue. The sidewalk has multiple large cracks and uneven surfaces that create significant accessibility challenges.\n\nThis damaged sidewalk poses a particular hardship for individuals using wheelchairs, walkers, or strollers. I have personally observed wheelchair users having to navigate into the street to bypass the damaged section, creating unnecessary safety risks.\n\nRepairing this sidewalk would greatly improve accessibility in our neighborhood and demonstrate our city's commitment to providing safe infrastructure for all residents regardless of mobility needs.\n\nI would appreciate your attention to this matter and would be happy to provide additional information if needed.\n\nThank you for your consideration.\n\nSincerely,\n[Your Name]",
@@ -451,7 +985,13 @@ export class MemStorage implements IStorage {
       photoUrl: null,
       photoData: null,
       createdAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000), // 14 days ago
-      createdBy: null
+      createdBy: null,
+      mergedIntoId: null,
+      recipientStatus: 'allowed',
+      deliveryMode: 'individual',
+      escalationPaused: false,
+      language: 'en',
+      promptVersion: null
     };
     
     const project3: Project = {
@@ -460,8 +1000,8 @@ export class MemStorage implements IStorage {
       description: "Deep pothole causing vehicle damage and traffic backup during rush hours.",
       issueType: "pothole",
       location: "Main Street & Broadway",
-      latitude: "37.7739",
-      longitude: "-122.4174",
+      latitude: 32.7876,
+      longitude: -115.5551,
       urgencyLevel: "high",
       contactEmail: "reporter@example.com",
       emailTemplate: "Dear Street Maintenance Department,\n\nI am writing to report a large, hazardous pothole on Main Street near the intersection with Broadway. This pothole is approximately 2 feet wide and 8 inches deep, posing a significant risk to vehicles and causing traffic disruptions, especially during peak hours.\n\nOver the past two weeks, I have observed multiple vehicles sustaining damage after hitting this pothole, and the situation worsens during rainy weather when the pothole fills with water and becomes less visible to drivers.\n\nThis section of Main Street experiences heavy traffic throughout the day, and the pothole has already caused several near-accidents as drivers swerve unexpectedly to avoid it. I believe this represents a high-urgency safety issue that requires prompt attention.\n\nI respectfully request that the maintenance team repair this pothole as soon as possible to prevent further vehicle damage and potential accidents. I would be happy to provide more specific location details or photos if needed.\n\nThank you for your attention to this matter.\n\nSincerely,\n[Your Name]",
@@ -473,7 +1013,13 @@ export class MemStorage implements IStorage {
       photoUrl: null,
       photoData: null,
       createdAt: new Date(Date.now() - 21 * 24 * 60 * 60 * 1000), // 21 days ago
-      createdBy: null
+      createdBy: null,
+      mergedIntoId: null,
+      recipientStatus: 'allowed',
+      deliveryMode: 'individual',
+      escalationPaused: false,
+      language: 'en',
+      promptVersion: null
     };
     
     this.projects.set(project1.id, project1);
@@ -533,4 +1079,27 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+// Select the storage backend from configuration. STORAGE_BACKEND may be
+// "memory", "postgres" or "sqlite"; when unset, Postgres is used if
+// DATABASE_URL is set. The SQLite file location comes from SQLITE_PATH.
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? "postgres" : "memory");
+  
+  switch (backend) {
+    case "postgres": {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set to use the postgres storage backend");
+      }
+      const { db, pool } = createDatabase(process.env.DATABASE_URL);
+      return new DatabaseStorage(db, pool);
+    }
+    case "sqlite":
+      return new SqliteStorage(process.env.SQLITE_PATH || "./data/civicvoice.db");
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected "memory", "postgres" or "sqlite"`);
+  }
+}
+
+export const storage = createStorage();
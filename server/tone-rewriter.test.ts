@@ -0,0 +1,198 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EMAIL_TONES, EmailTone, rewriteTone } from "./tone-rewriter";
+
+// Sample emails with the facts that must survive every tone: the location,
+// the description and, for urgent issues, the urgency
+
+interface CorpusEmail {
+  name: string;
+  email: string;
+  facts: string[];
+}
+
+// Emails as the offline template writes them, in the professional tone
+function templateEmail(department: string, issue: string, location: string, description: string, urgent: boolean): string {
+  return `Dear ${department},
+
+I'm writing about a ${issue} at ${location} that needs your attention. ${urgent ? "This is an urgent safety issue." : ""}
+
+${description}
+
+Could someone from your office look into this matter? I'm available to provide any additional information if needed.
+
+Thanks for your consideration,
+[Your Name]`;
+}
+
+const TEMPLATE_CORPUS: CorpusEmail[] = [
+  {
+    name: "urgent pothole",
+    email: templateEmail("Transportation Department", "pothole", "Main St & 4th Ave", "Deep hole near the bus stop, about 2 feet wide. Cars swerve into the bike lane to avoid it.", true),
+    facts: ["Main St & 4th Ave", "Deep hole near the bus stop, about 2 feet wide.", "Cars swerve into the bike lane to avoid it.", "This is an urgent safety issue."]
+  },
+  {
+    name: "routine streetlight",
+    email: templateEmail("Public Works", "streetlight", "Imperial Ave. near Central High School", "The light has been out for 3 weeks. The corner is very dark after 7pm.", false),
+    facts: ["Imperial Ave. near Central High School", "The light has been out for 3 weeks.", "The corner is very dark after 7pm."]
+  },
+  {
+    name: "sidewalk with impact details",
+    email: templateEmail("Street Maintenance Department", "sidewalk", "500 Elm St", "Sidewalk cracked and lifted by tree roots; wheelchair users can't pass.\n\nImpact: Residents walk in the street instead.\n\nAffected Groups: People With Disabilities", true),
+    facts: ["500 Elm St", "Sidewalk cracked and lifted by tree roots; wheelchair users can't pass.", "Impact: Residents walk in the street instead.", "Affected Groups: People With Disabilities", "This is an urgent safety issue."]
+  },
+  {
+    name: "crosswalk whose description reads like a request",
+    email: templateEmail("Traffic Engineering", "crosswalk", "Lincoln & 5th", "Could you paint a crosswalk here? Drivers don't stop and this could cause a crash.", false),
+    facts: ["Lincoln & 5th", "Drivers don't stop and this could cause a crash."]
+  }
+];
+
+// Emails as models write them, in other wording
+const MODEL_CORPUS: CorpusEmail[] = [
+  {
+    name: "model email with a request to the city",
+    email: `Hello City Council,
+
+I am writing to report a broken streetlight on Imperial Ave. near the school. It has been out for 3 weeks and this could cause a crash. Could you repair it before school starts? The city should install LED lights here.
+
+Sincerely,
+Maria Lopez`,
+    facts: ["Imperial Ave. near the school", "It has been out for 3 weeks and this could cause a crash.", "repair it before school starts?", "install LED lights here.", "Maria Lopez"]
+  },
+  {
+    name: "short model email without paragraphs",
+    email: `To whom it may concern:
+Sidewalk cracked at 500 Elm St; wheelchair users can't pass. This is urgent.
+Thank you`,
+    facts: ["Sidewalk cracked at 500 Elm St; wheelchair users can't pass.", "This is urgent."]
+  }
+];
+
+const CORPUS = [...TEMPLATE_CORPUS, ...MODEL_CORPUS];
+
+// What each tone writes for the parts of an email that carry tone, and for
+// the requests to the city in the model email with a request
+interface TonePhrases {
+  greeting: string;
+  anonymousGreeting: string;
+  opening: string;
+  request: string;
+  offer: string;
+  closing: string;
+  question: string;
+  obligation: string;
+}
+
+const TONE_PHRASES: Record<EmailTone, TonePhrases> = {
+  professional: {
+    greeting: "Dear Transportation Department,",
+    anonymousGreeting: "Hello,",
+    opening: "I'm writing about a pothole at Main St & 4th Ave that needs your attention.",
+    request: "Could someone from your office look into this matter?",
+    offer: "I'm available to provide any additional information if needed.",
+    closing: "Thanks for your consideration,",
+    question: "Could you repair it before school starts?",
+    obligation: "The city should install LED lights here."
+  },
+  formal: {
+    greeting: "Dear Transportation Department:",
+    anonymousGreeting: "To whom it may concern:",
+    opening: "I am writing to request your department's attention to a pothole at Main St & 4th Ave.",
+    request: "I respectfully request that your office review this matter at its earliest convenience.",
+    offer: "I would be glad to provide any further information your office may require.",
+    closing: "Respectfully,",
+    question: "Would you repair it before school starts?",
+    obligation: "The city should install LED lights here."
+  },
+  assertive: {
+    greeting: "Dear Transportation Department,",
+    anonymousGreeting: "Hello,",
+    opening: "I'm writing about a pothole at Main St & 4th Ave, which needs to be addressed promptly.",
+    request: "Please have someone from your office address this without further delay.",
+    offer: "Please let me know what steps will be taken, and I can provide more information if needed.",
+    closing: "Regards,",
+    question: "Will you repair it before school starts?",
+    obligation: "The city must install LED lights here."
+  },
+  concerned: {
+    greeting: "Dear Transportation Department,",
+    anonymousGreeting: "Hello,",
+    opening: "I'm writing because I'm concerned about a pothole at Main St & 4th Ave.",
+    request: "I hope someone from your office can look into this soon.",
+    offer: "Please let me know if any more information would help.",
+    closing: "Thank you for your attention to this,",
+    question: "Could you repair it before school starts?",
+    obligation: "The city should install LED lights here."
+  },
+  personal: {
+    greeting: "Hello Transportation Department,",
+    anonymousGreeting: "Hi there,",
+    opening: "I wanted to reach out about a pothole at Main St & 4th Ave.",
+    request: "It would mean a lot to me if someone from your office could take a look.",
+    offer: "I'm happy to share anything else that would help.",
+    closing: "Thanks so much,",
+    question: "Could you repair it before school starts?",
+    obligation: "The city could install LED lights here."
+  }
+};
+
+for (const tone of EMAIL_TONES) {
+  const phrases = TONE_PHRASES[tone];
+
+  test(`${tone} writes its greeting, opening, request, offer and closing`, () => {
+    // From every tone, so each tone's phrases are recognized by the others
+    for (const from of EMAIL_TONES) {
+      const lines = rewriteTone(rewriteTone(TEMPLATE_CORPUS[0].email, from), tone).split("\n");
+      assert.equal(lines[0], phrases.greeting, `from ${from}`);
+      assert.ok(lines[2].startsWith(`${phrases.opening} `), `from ${from}: ${lines[2]}`);
+      assert.equal(lines[6], `${phrases.request} ${phrases.offer}`, `from ${from}`);
+      assert.equal(lines[8], phrases.closing, `from ${from}`);
+      assert.equal(lines[9], "[Your Name]", `from ${from}`);
+    }
+  });
+
+  test(`${tone} greets an email addressed to no one by name`, () => {
+    const lines = rewriteTone(MODEL_CORPUS[1].email, tone).split("\n");
+    assert.equal(lines[0], phrases.anonymousGreeting);
+  });
+
+  test(`${tone} changes only the modals of requests to the city`, () => {
+    const rewritten = rewriteTone(MODEL_CORPUS[0].email, tone);
+    assert.ok(rewritten.includes(phrases.question), rewritten);
+    assert.ok(rewritten.includes(phrases.obligation), rewritten);
+    assert.ok(rewritten.includes("It has been out for 3 weeks and this could cause a crash."), rewritten);
+
+    // Also when it follows a question to the city whose modal changes
+    const crosswalk = rewriteTone(TEMPLATE_CORPUS[3].email, tone);
+    assert.ok(crosswalk.includes("Drivers don't stop and this could cause a crash."), crosswalk);
+  });
+
+  test(`${tone} keeps every fact`, () => {
+    for (const { name, email, facts } of CORPUS) {
+      const rewritten = rewriteTone(email, tone);
+      for (const fact of facts) {
+        assert.ok(rewritten.includes(fact), `${name}: "${fact}" lost in ${tone} tone:\n${rewritten}`);
+      }
+    }
+  });
+
+  test(`${tone} rewritten back to professional restores the original`, () => {
+    for (const { name, email } of TEMPLATE_CORPUS) {
+      assert.equal(rewriteTone(rewriteTone(email, tone), "professional"), email, name);
+    }
+  });
+
+  test(`${tone} comes back the same after any other tone`, () => {
+    for (const { name, email } of CORPUS) {
+      const once = rewriteTone(email, tone);
+      for (const other of EMAIL_TONES) {
+        assert.equal(rewriteTone(rewriteTone(once, other), tone), once, `${name} via ${other}`);
+      }
+    }
+  });
+}
+
+test("an unknown tone leaves the email unchanged", () => {
+  assert.equal(rewriteTone(TEMPLATE_CORPUS[0].email, "angry"), TEMPLATE_CORPUS[0].email);
+});
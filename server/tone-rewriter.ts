@@ -0,0 +1,239 @@
+// Offline tone rewriting, used when the model can't rewrite an email. Only
+// the parts of an email that carry tone change: the greeting, framing
+// sentences such as "Could someone from your office look into this matter?",
+// modal verbs in requests to the recipient, and the sign-off. Every other
+// sentence is kept word for word, so the location, description and urgency
+// survive any number of tone changes. Phrases written by one tone are
+// recognized by the others, so switching back restores the original wording.
+
+export const EMAIL_TONES = ["professional", "formal", "assertive", "concerned", "personal"] as const;
+export type EmailTone = typeof EMAIL_TONES[number];
+
+export function isEmailTone(tone: string): tone is EmailTone {
+  return (EMAIL_TONES as readonly string[]).includes(tone);
+}
+
+interface ToneStyle {
+  greeting: (name: string) => string;
+  // Greeting when the email isn't addressed to anyone by name
+  anonymousGreeting: string;
+  // How the email introduces its subject, around the subject itself
+  opening: [prefix: string, suffix: string];
+  request: string;
+  offer: string;
+  closing: string;
+  // Modal for questions to the recipient ("Could you ...?")
+  questionModal: string;
+  // Modal for what the recipient is asked to do ("your office should ...")
+  obligationModal: string;
+}
+
+const TONE_STYLES: Record<EmailTone, ToneStyle> = {
+  professional: {
+    greeting: (name) => `Dear ${name},`,
+    anonymousGreeting: "Hello,",
+    opening: ["I'm writing about ", " that needs your attention."],
+    request: "Could someone from your office look into this matter?",
+    offer: "I'm available to provide any additional information if needed.",
+    closing: "Thanks for your consideration,",
+    questionModal: "Could",
+    obligationModal: "should"
+  },
+  formal: {
+    greeting: (name) => `Dear ${name}:`,
+    anonymousGreeting: "To whom it may concern:",
+    opening: ["I am writing to request your department's attention to ", "."],
+    request: "I respectfully request that your office review this matter at its earliest convenience.",
+    offer: "I would be glad to provide any further information your office may require.",
+    closing: "Respectfully,",
+    questionModal: "Would",
+    obligationModal: "should"
+  },
+  assertive: {
+    greeting: (name) => `Dear ${name},`,
+    anonymousGreeting: "Hello,",
+    opening: ["I'm writing about ", ", which needs to be addressed promptly."],
+    request: "Please have someone from your office address this without further delay.",
+    offer: "Please let me know what steps will be taken, and I can provide more information if needed.",
+    closing: "Regards,",
+    questionModal: "Will",
+    obligationModal: "must"
+  },
+  concerned: {
+    greeting: (name) => `Dear ${name},`,
+    anonymousGreeting: "Hello,",
+    opening: ["I'm writing because I'm concerned about ", "."],
+    request: "I hope someone from your office can look into this soon.",
+    offer: "Please let me know if any more information would help.",
+    closing: "Thank you for your attention to this,",
+    questionModal: "Could",
+    obligationModal: "should"
+  },
+  personal: {
+    greeting: (name) => `Hello ${name},`,
+    anonymousGreeting: "Hi there,",
+    opening: ["I wanted to reach out about ", "."],
+    request: "It would mean a lot to me if someone from your office could take a look.",
+    offer: "I'm happy to share anything else that would help.",
+    closing: "Thanks so much,",
+    questionModal: "Could",
+    obligationModal: "could"
+  }
+};
+
+const STYLES = Object.values(TONE_STYLES);
+
+// Openings models commonly write, recognized but never produced. Longer
+// suffixes come first so the subject doesn't swallow a tone's suffix.
+const OPENINGS: [prefix: string, suffix: string][] = [
+  ...STYLES.map(style => style.opening),
+  ["I'm writing to bring to your attention ", "."],
+  ["I am writing to bring to your attention ", "."],
+  ["I'm writing to report ", "."],
+  ["I am writing to report ", "."],
+  ["I'm writing regarding ", "."],
+  ["I am writing regarding ", "."],
+  ["I'm writing about ", "."],
+  ["I am writing about ", "."]
+];
+OPENINGS.sort((a, b) => b[1].length - a[1].length);
+
+const REQUESTS = [
+  ...STYLES.map(style => style.request),
+  "Could someone from your office look into this?",
+  "Could someone please look into this matter?",
+  "Would your department be able to address this matter?",
+  "Please look into this matter at your earliest convenience."
+];
+
+const OFFERS = [
+  ...STYLES.map(style => style.offer),
+  "I'm available to provide any additional information that might be helpful.",
+  "Please let me know if you need any additional information.",
+  "Please don't hesitate to contact me if you need more information."
+];
+
+const CLOSINGS = [
+  ...STYLES.map(style => style.closing),
+  "Thanks for your consideration",
+  "Thank you for your consideration",
+  "Thank you for your time",
+  "Thank you",
+  "Thanks",
+  "Sincerely",
+  "Regards",
+  "Best regards",
+  "Kind regards",
+  "Warm regards",
+  "Best",
+  "Respectfully",
+  "Yours truly",
+  "Cordially"
+];
+
+const GREETING_PATTERN = /^(?:dear|hello|hi|hey|greetings|good (?:morning|afternoon|evening)|to)\b\s*(.*?)\s*[,:]?$/i;
+
+// A request is addressed to the recipient, their office or someone there,
+// and asks for an action. Modals elsewhere, as in "this could cause a
+// crash", are content and never change.
+const ADDRESSEE = "you|someone|your (?:office|department|team)|the (?:city|county|department)";
+const ACTION = "(?:please )?(?:look|fix|repair|address|review|install|replace|repave|repaint|paint|add|consider|inspect|investigate|resolve|prioritize|schedule|send|take|make)\\b";
+const QUESTION_PATTERN = new RegExp(`^(?:could|would|can|will) (${ADDRESSEE}) (?=${ACTION})`, "i");
+const OBLIGATION_PATTERN = new RegExp(`\\b(${ADDRESSEE}) (?:should|must|could|need to|ought to) (?=${ACTION})`, "gi");
+
+// Compare phrases ignoring case, curly apostrophes and trailing punctuation
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[‘’]/g, "'").replace(/[\s,.:;!]+$/, "").trim();
+}
+
+function matches(sentence: string, phrases: string[]): boolean {
+  const normalized = normalize(sentence);
+  return phrases.some(phrase => normalize(phrase) === normalized);
+}
+
+function isClosing(line: string): boolean {
+  return line.trim().length > 0 && matches(line, CLOSINGS);
+}
+
+// The subject of an opening sentence, like "a pothole at Main St"
+function openingSubject(sentence: string): string | undefined {
+  const text = sentence.replace(/[‘’]/g, "'");
+  for (const [prefix, suffix] of OPENINGS) {
+    if (
+      text.toLowerCase().startsWith(prefix.toLowerCase()) &&
+      text.toLowerCase().endsWith(suffix.toLowerCase()) &&
+      text.length > prefix.length + suffix.length
+    ) {
+      return text.slice(prefix.length, text.length - suffix.length).trim();
+    }
+  }
+  return undefined;
+}
+
+function rewriteSentence(sentence: string, style: ToneStyle): string {
+  const subject = openingSubject(sentence);
+  if (subject) return `${style.opening[0]}${subject}${style.opening[1]}`;
+  if (matches(sentence, REQUESTS)) return style.request;
+  if (matches(sentence, OFFERS)) return style.offer;
+
+  // Everything else is content; only the modal of a request may change
+  let rewritten = sentence;
+  if (sentence.trim().endsWith("?")) {
+    rewritten = rewritten.replace(QUESTION_PATTERN, (_, addressee: string) => `${style.questionModal} ${addressee} `);
+  }
+  return rewritten.replace(OBLIGATION_PATTERN, (_, addressee: string) => `${addressee} ${style.obligationModal} `);
+}
+
+function rewriteLine(line: string, style: ToneStyle): string {
+  if (!line.trim()) return line;
+  const indent = line.match(/^\s*/)![0];
+  const trailing = line.match(/\s*$/)![0];
+  return indent + line.trim()
+    .split(/(?<=[.!?])\s+(?=[A-Z"“(])/)
+    .map(sentence => rewriteSentence(sentence, style))
+    .join(" ") + trailing;
+}
+
+/**
+ * Rewrite an English email in another tone without a model, keeping every
+ * factual sentence. Returns the email unchanged for an unknown tone.
+ */
+export function rewriteTone(email: string, tone: string): string {
+  if (!isEmailTone(tone)) return email;
+  const style = TONE_STYLES[tone];
+
+  const lines = email.replace(/\r\n/g, "\n").split("\n");
+
+  // The greeting is the first line, if it reads like one
+  const first = lines.findIndex(line => line.trim());
+  let greetingIndex = -1;
+  let greetingName = "";
+  if (first >= 0) {
+    const greeting = lines[first].trim().match(GREETING_PATTERN);
+    if (greeting && lines[first].trim().length <= 80 && /[,:]$|^(?:dear|hello|hi)\b/i.test(lines[first].trim())) {
+      greetingIndex = first;
+      greetingName = matches(lines[first], STYLES.map(style => style.anonymousGreeting)) ? "" : greeting[1];
+    }
+  }
+
+  // The sign-off is the last closing phrase near the end; the lines after
+  // it are the sender's name and are kept
+  let closingIndex = -1;
+  for (let index = lines.length - 1; index > greetingIndex && index >= lines.length - 5; index--) {
+    if (isClosing(lines[index])) {
+      closingIndex = index;
+      break;
+    }
+  }
+
+  return lines
+    .map((line, index) => {
+      if (index === greetingIndex) {
+        return greetingName ? style.greeting(greetingName) : style.anonymousGreeting;
+      }
+      if (index === closingIndex) return style.closing;
+      if (closingIndex >= 0 && index > closingIndex) return line;
+      return rewriteLine(line, style);
+    })
+    .join("\n");
+}
@@ -0,0 +1,131 @@
+import { EmailLanguage, Project } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { isMockProvider, translateEmail } from "./openai";
+
+// Translations of project emails. Supporters can send a project's email in
+// another language than it was written in, optionally with an English
+// translation appended for the recipient. Translations of the project's own
+// template are stored, so each language is only translated once; the mock
+// provider's placeholders aren't, so they're never sent once a model is
+// configured. When translation isn't available, supporters' emails are sent
+// without it rather than not at all.
+
+const TRANSLATION_HEADING = "--- English translation ---";
+
+export class TranslationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranslationError";
+  }
+}
+
+/**
+ * A project's email subject and template in the given language: the
+ * original, a stored translation, or a new translation that is then stored.
+ * Throws TranslationError if the model can't translate it.
+ */
+export async function getProjectTranslation(
+  storage: IStorage,
+  project: Project,
+  language: EmailLanguage
+): Promise<{ language: EmailLanguage; emailSubject: string; emailTemplate: string }> {
+  if (language === project.language) {
+    return { language, emailSubject: project.emailSubject, emailTemplate: project.emailTemplate };
+  }
+
+  const stored = await storage.getProjectTranslation(project.id, language);
+  if (stored) {
+    return { language, emailSubject: stored.emailSubject, emailTemplate: stored.emailTemplate };
+  }
+
+  let translated: { emailSubject: string; emailBody: string };
+  try {
+    translated = await translateEmail(
+      { subject: project.emailSubject, body: project.emailTemplate },
+      project.language,
+      language
+    );
+  } catch (error) {
+    console.error(`Error translating project ${project.id} to ${language}:`, error);
+    throw new TranslationError("Translation is not available right now");
+  }
+
+  if (isMockProvider()) {
+    return { language, emailSubject: translated.emailSubject || project.emailSubject, emailTemplate: translated.emailBody };
+  }
+
+  const translation = await storage.saveProjectTranslation({
+    projectId: project.id,
+    language,
+    emailSubject: translated.emailSubject || project.emailSubject,
+    emailTemplate: translated.emailBody
+  });
+  return { language, emailSubject: translation.emailSubject, emailTemplate: translation.emailTemplate };
+}
+
+/**
+ * Append an English translation to a supporter's email written in another
+ * language. An unedited translation of the template gets the English
+ * template; anything else is translated as written.
+ */
+export async function appendEnglishTranslation(
+  storage: IStorage,
+  project: Project,
+  content: string,
+  language: EmailLanguage
+): Promise<string> {
+  if (language === 'en') return content;
+
+  let english: string;
+  if (content.trim() === (await getProjectTranslation(storage, project, language)).emailTemplate.trim()) {
+    english = (await getProjectTranslation(storage, project, 'en')).emailTemplate;
+  } else {
+    try {
+      english = (await translateEmail({ body: content }, language, 'en')).emailBody;
+    } catch (error) {
+      console.error(`Error translating an email for project ${project.id} to English:`, error);
+      throw new TranslationError("Translation is not available right now");
+    }
+  }
+
+  return `${content.trim()}\n\n${TRANSLATION_HEADING}\n\n${english.trim()}`;
+}
+
+/**
+ * The content of a supporter's email in their chosen language. Without
+ * their own text they send the project's template in that language.
+ * Returns the content unchanged when no language is chosen. If translation
+ * isn't available, the template goes in the project's language, or the
+ * email without its English translation, with a warning for the supporter.
+ */
+export async function supporterEmailContent(
+  storage: IStorage,
+  project: Project,
+  customContent: string | null | undefined,
+  options: { language?: EmailLanguage; appendTranslation?: boolean }
+): Promise<{ content: string | null | undefined; warning?: string }> {
+  const { language, appendTranslation } = options;
+  if (!language || (language === project.language && !appendTranslation)) return { content: customContent };
+
+  let content: string;
+  try {
+    content = customContent || (await getProjectTranslation(storage, project, language)).emailTemplate;
+  } catch (error) {
+    if (!(error instanceof TranslationError)) throw error;
+    return {
+      content: customContent,
+      warning: "The email couldn't be translated right now, so it will be sent in its original language."
+    };
+  }
+
+  if (!appendTranslation) return { content };
+  try {
+    return { content: await appendEnglishTranslation(storage, project, content, language) };
+  } catch (error) {
+    if (!(error instanceof TranslationError)) throw error;
+    return {
+      content,
+      warning: "An English translation couldn't be added right now, so the email will be sent without one."
+    };
+  }
+}
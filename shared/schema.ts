@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, pgEnum, doublePrecision, index, uniqueIndex, jsonb, primaryKey } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -29,6 +30,43 @@ export const progressStatusEnum = pgEnum('progress_status', [
   'completed'
 ]);
 
+// Enum for outbound email delivery states
+export const emailStatusEnum = pgEnum('email_status', [
+  'queued',
+  'sending',
+  'sent',
+  'failed'
+]);
+
+// Enum for whether a supporter has confirmed the address they sent an email with
+export const senderVerificationEnum = pgEnum('sender_verification', [
+  'unverified',
+  'pending',
+  'verified'
+]);
+
+// Enum for whether a project's email recipient may be sent to. Recipients
+// outside the allowlist need a moderator's approval.
+export const recipientStatusEnum = pgEnum('recipient_status', [
+  'allowed',
+  'pending_approval',
+  'approved',
+  'rejected'
+]);
+
+// Enum for how supporters' emails reach the recipient: one email each, or
+// recorded as signatures and sent as a daily digest
+export const deliveryModeEnum = pgEnum('delivery_mode', [
+  'individual',
+  'digest'
+]);
+
+// Enum for the languages emails can be written in, as ISO 639-1 codes
+export const emailLanguageEnum = pgEnum('email_language', [
+  'en',
+  'es'
+]);
+
 // Enum for user roles
 export const userRoleEnum = pgEnum('user_role', [
   'user',
@@ -60,8 +98,8 @@ export const projects = pgTable("projects", {
   description: text("description").notNull(),
   issueType: issueTypeEnum("issue_type").notNull(),
   location: text("location").notNull(),
-  latitude: text("latitude").notNull(),
-  longitude: text("longitude").notNull(),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
   urgencyLevel: urgencyLevelEnum("urgency_level").notNull().default('medium'),
   contactEmail: text("contact_email"),
   emailTemplate: text("email_template").notNull(),
@@ -74,7 +112,15 @@ export const projects = pgTable("projects", {
   photoData: text("photo_data"), // Base64 encoded photo data (can be null)
   createdAt: timestamp("created_at").notNull().defaultNow(),
   createdBy: integer("created_by"), // Optional - can be linked to users table for authenticated users
-});
+  mergedIntoId: integer("merged_into_id"), // Set when a moderator merged this project into another one
+  recipientStatus: recipientStatusEnum("recipient_status").notNull().default('pending_approval'),
+  deliveryMode: deliveryModeEnum("delivery_mode").notNull().default('individual'),
+  escalationPaused: boolean("escalation_paused").notNull().default(false), // Set by the creator or a moderator to stop escalations
+  language: emailLanguageEnum("language").notNull().default('en'), // Language the email template is written in
+  promptVersion: text("prompt_version"), // Prompt that wrote the email template, such as "email_template@2"; null if no model did
+}, (table) => [
+  index("projects_coordinates_idx").on(table.latitude, table.longitude),
+]);
 
 // Upvotes table to track who upvoted what
 export const upvotes = pgTable("upvotes", {
@@ -85,15 +131,65 @@ export const upvotes = pgTable("upvotes", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-// Emails table to track sent emails
+// Emails table, doubling as the outbound delivery queue
 export const emails = pgTable("emails", {
   id: serial("id").primaryKey(),
   projectId: integer("project_id").notNull(),
   senderEmail: text("sender_email"),
   senderName: text("sender_name"),
   customContent: text("custom_content"),
+  // The sender's address is only used as Reply-To once they confirm it
+  senderVerification: senderVerificationEnum("sender_verification").notNull().default('unverified'),
+  verificationToken: text("verification_token"),
+  senderVerifiedAt: timestamp("sender_verified_at"),
+  status: emailStatusEnum("status").notNull().default('queued'),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"), // Set once delivery is confirmed
+}, (table) => [
+  index("emails_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  index("emails_verification_token_idx").on(table.verificationToken),
+]);
+
+// Supporters of digest-mode projects, sent to the recipient in the next digest
+export const signatures = pgTable("signatures", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  signerName: text("signer_name"),
+  signerEmail: text("signer_email"),
+  message: text("message"), // The supporter's own version of the email, if they edited it
+  digestId: integer("digest_id"), // Set once the signature went out in a digest
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("signatures_project_digest_idx").on(table.projectId, table.digestId),
+]);
+
+// Digests sent for digest-mode projects
+export const digests = pgTable("digests", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  recipient: text("recipient").notNull(),
+  signatureCount: integer("signature_count").notNull(), // New signatures in this digest
+  totalSupporters: integer("total_supporters").notNull(), // Running total when it was sent
   sentAt: timestamp("sent_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("digests_project_idx").on(table.projectId),
+]);
+
+// Project email templates translated for supporters writing in another
+// language, stored so each is only generated once
+export const projectTranslations = pgTable("project_translations", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  language: emailLanguageEnum("language").notNull(),
+  emailSubject: text("email_subject").notNull(),
+  emailTemplate: text("email_template").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("project_translations_project_language_idx").on(table.projectId, table.language),
+]);
 
 // Activity table to track recent actions
 export const activities = pgTable("activities", {
@@ -114,6 +210,100 @@ export const comments = pgTable("comments", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Replies from officials, received by the inbound email webhook
+export const officialResponses = pgTable("official_responses", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  fromAddress: text("from_address").notNull(),
+  fromName: text("from_name"),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(), // Plain text with the quoted original removed
+  messageId: text("message_id").unique(), // Message-ID header, so redelivered replies are stored once
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+}, (table) => [
+  index("official_responses_project_idx").on(table.projectId),
+]);
+
+// Security-relevant events for admins to review, such as attempts to email
+// recipients outside the allowlist
+export const securityEvents = pgTable("security_events", {
+  id: serial("id").primaryKey(),
+  eventType: text("event_type").notNull(), // unlisted_recipient, blocked_send, etc.
+  description: text("description").notNull(),
+  projectId: integer("project_id"),
+  userId: integer("user_id"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Send counters for rate limiting, one row per limited key (such as
+// "ip:203.0.113.7" or "project:12") and window
+export const rateLimits = pgTable("rate_limits", {
+  key: text("key").notNull(),
+  windowStart: timestamp("window_start").notNull(),
+  count: integer("count").notNull().default(0),
+}, (table) => [
+  primaryKey({ columns: [table.key, table.windowStart] }),
+]);
+
+// AI provider calls per day and function, for the usage report and budget
+export const aiUsage = pgTable("ai_usage", {
+  day: text("day").notNull(), // UTC date, YYYY-MM-DD
+  task: text("task").notNull(), // The AI function, such as "email_template"
+  requests: integer("requests").notNull().default(0), // Calls that reached the provider
+  cachedRequests: integer("cached_requests").notNull().default(0),
+  budgetFallbacks: integer("budget_fallbacks").notNull().default(0), // Calls refused once the budget was used up
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  costUsd: doublePrecision("cost_usd").notNull().default(0),
+}, (table) => [
+  primaryKey({ columns: [table.day, table.task] }),
+]);
+
+// Prompt versions admins are rolling out, one per prompt (see server/prompts.ts)
+export const promptRollouts = pgTable("prompt_rollouts", {
+  name: text("name").primaryKey(), // The prompt, such as "email_template"
+  version: integer("version").notNull(),
+  percent: integer("percent").notNull(), // Share of requests rendered with this version
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Escalation emails sent about projects left without an official response
+export const escalations = pgTable("escalations", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  departmentId: integer("department_id"),
+  afterDays: integer("after_days").notNull(), // The rule that was applied
+  recipientName: text("recipient_name").notNull(),
+  recipientEmail: text("recipient_email").notNull(),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+}, (table) => [
+  index("escalations_project_idx").on(table.projectId),
+]);
+
+// Who to copy in when a department's project goes unanswered, and after how
+// many days. A rule with an area only applies to projects inside it, such as
+// a council member's district.
+export const escalationRuleSchema = z.object({
+  afterDays: z.number().int().min(1).max(365),
+  name: z.string().min(1),
+  email: z.string().email(),
+  area: z.array(z.tuple([z.number(), z.number()])).min(3).nullable().optional(),
+});
+
+export type EscalationRule = z.infer<typeof escalationRuleSchema>;
+
+// Departments directory used to route issue emails
+export const departments = pgTable("departments", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  issueTypes: issueTypeEnum("issue_types").array().notNull().default(sql`'{}'`),
+  area: jsonb("area").$type<[number, number][]>(), // Optional polygon of [lat, lng] the department covers
+  escalationRules: jsonb("escalation_rules").$type<EscalationRule[]>().notNull().default(sql`'[]'::jsonb`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users)
   .omit({
@@ -134,13 +324,28 @@ export const insertUserSchema = createInsertSchema(users)
     profilePicture: z.string().optional(),
   });
 
-export const insertProjectSchema = createInsertSchema(projects).omit({
-  id: true,
-  upvotes: true,
-  emailsSent: true,
-  createdAt: true,
-  progressStatus: true,
-});
+export const insertProjectSchema = createInsertSchema(projects)
+  .omit({
+    id: true,
+    upvotes: true,
+    emailsSent: true,
+    createdAt: true,
+    progressStatus: true,
+    mergedIntoId: true,
+    recipientStatus: true,
+    deliveryMode: true,
+    escalationPaused: true,
+    createdBy: true,
+    promptVersion: true,
+  })
+  .extend({
+    // Coordinates may arrive as strings from form inputs
+    latitude: z.coerce.number().min(-90).max(90),
+    longitude: z.coerce.number().min(-180).max(180),
+    // The signed prompt version generate-email returned with the email; the
+    // server records the version only if the signature checks out
+    signedPromptVersion: z.string().nullish(),
+  });
 
 export const insertUpvoteSchema = createInsertSchema(upvotes).omit({
   id: true,
@@ -149,6 +354,14 @@ export const insertUpvoteSchema = createInsertSchema(upvotes).omit({
 
 export const insertEmailSchema = createInsertSchema(emails).omit({
   id: true,
+  senderVerification: true,
+  verificationToken: true,
+  senderVerifiedAt: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  nextAttemptAt: true,
+  createdAt: true,
   sentAt: true,
 });
 
@@ -162,21 +375,325 @@ export const insertCommentSchema = createInsertSchema(comments).omit({
   createdAt: true,
 });
 
+export const insertOfficialResponseSchema = createInsertSchema(officialResponses).omit({
+  id: true,
+  receivedAt: true,
+});
+
+export const insertDepartmentSchema = createInsertSchema(departments)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    name: z.string().min(1),
+    email: z.string().email(),
+    issueTypes: z.array(z.enum(issueTypeEnum.enumValues)),
+    area: z.array(z.tuple([z.number(), z.number()])).min(3).nullable().optional(),
+    escalationRules: z.array(escalationRuleSchema).optional(),
+  });
+
+// Project listing query (GET /api/projects)
+export const projectSortKeys = ['upvotes', 'emailsSent', 'createdAt', 'urgency'] as const;
+
+export const projectQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  issueType: z.enum(issueTypeEnum.enumValues).optional(),
+  status: z.enum(progressStatusEnum.enumValues).optional(),
+  urgency: z.enum(urgencyLevelEnum.enumValues).optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  createdBy: z.coerce.number().int().optional(),
+  sort: z.enum(projectSortKeys).default('upvotes'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  // Either an offset or an opaque cursor from a previous page
+  offset: z.coerce.number().int().min(0).optional(),
+  cursor: z.string().optional(),
+  // Restrict to a radius around a point
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radiusMeters: z.coerce.number().positive().max(50000).optional(),
+}).refine(
+  (query) => (query.lat === undefined) === (query.lng === undefined),
+  { message: "lat and lng must be provided together" }
+);
+
+// Draft of a new issue, checked for likely duplicates before submission
+export const duplicateCheckSchema = insertProjectSchema
+  .pick({
+    title: true,
+    issueType: true,
+    latitude: true,
+    longitude: true,
+  })
+  .extend({
+    description: z.string().optional(),
+    radiusMeters: z.coerce.number().positive().max(5000).optional(),
+  });
+
+// Moderator request to merge a duplicate project into another one
+export const mergeProjectsSchema = z.object({
+  sourceId: z.coerce.number().int().positive(),
+});
+
+// Bounding box given as "west,south,east,north" in degrees
+const bboxSchema = z.string().transform((value, ctx) => {
+  const parts = value.split(',').map(Number);
+  const [west, south, east, north] = parts;
+  if (parts.length !== 4 || parts.some(isNaN) || south > north || west > east) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "bbox must be west,south,east,north" });
+    return z.NEVER;
+  }
+  return { west, south, east, north };
+});
+
+// Geospatial project search (GET /api/projects/nearby)
+export const nearbyQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radiusMeters: z.coerce.number().positive().max(50000).default(1000),
+  bbox: bboxSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(200),
+}).refine(
+  (query) => query.bbox || (query.lat !== undefined && query.lng !== undefined),
+  { message: "Provide lat and lng, or a bbox" }
+);
+
+export const insertSecurityEventSchema = createInsertSchema(securityEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Moderator decision on a recipient outside the allowlist
+export const recipientReviewSchema = z.object({
+  approved: z.boolean(),
+});
+
+export const insertSignatureSchema = createInsertSchema(signatures).omit({
+  id: true,
+  digestId: true,
+  createdAt: true,
+});
+
+export const insertDigestSchema = createInsertSchema(digests).omit({
+  id: true,
+  sentAt: true,
+});
+
+export const insertProjectTranslationSchema = createInsertSchema(projectTranslations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const emailLanguageSchema = z.enum(emailLanguageEnum.enumValues);
+
+// A supporter's email, optionally written in another language than the
+// project's, with an English translation appended for the recipient
+export const sendEmailSchema = insertEmailSchema.extend({
+  language: emailLanguageSchema.optional(),
+  appendTranslation: z.boolean().optional(),
+});
+
+// Usage to add to a day's totals for a function
+export const insertAiUsageSchema = createInsertSchema(aiUsage);
+
+export const aiUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+export const insertPromptRolloutSchema = createInsertSchema(promptRollouts)
+  .omit({
+    updatedAt: true,
+  })
+  .extend({
+    version: z.number().int().positive(),
+    percent: z.number().int().min(0).max(100),
+  });
+
+// Admin request to render a prompt version for a share of requests
+export const promptRolloutSchema = insertPromptRolloutSchema.omit({ name: true });
+
+export const insertEscalationSchema = createInsertSchema(escalations).omit({
+  id: true,
+  sentAt: true,
+});
+
+// Render an issue email as it would be sent, for the preview
+export const emailPreviewSchema = z.object({
+  projectId: z.coerce.number().int(),
+  customContent: z.string().optional(),
+  language: emailLanguageSchema.optional(),
+  appendTranslation: z.boolean().optional(),
+});
+
+// The details an issue email was written from, to check a rewrite against
+export const emailDetailsSchema = z.object({
+  issueType: z.string(),
+  location: z.string(),
+  description: z.string(),
+  urgencyLevel: z.string(),
+  affectedGroups: z.string().optional(),
+  desiredOutcome: z.string().optional(),
+});
+
+// Moderator choice of a project's delivery mode
+export const deliveryModeSchema = z.object({
+  deliveryMode: z.enum(deliveryModeEnum.enumValues),
+});
+
+// Creator or moderator pausing or resuming a project's escalations
+export const escalationPauseSchema = z.object({
+  paused: z.boolean(),
+});
+
+// Admin listing of queued and delivered emails (GET /api/emails)
+export const emailStatusQuerySchema = z.object({
+  status: z.enum(emailStatusEnum.enumValues).default('failed'),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Jurisdiction served by this deployment, loaded from config/jurisdiction.json
+export const jurisdictionSchema = z.object({
+  name: z.string().min(1),
+  center: z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+  }),
+  // Polygon vertices as [lat, lng] pairs
+  boundary: z.array(z.tuple([z.number(), z.number()])).min(3),
+  defaultZoom: z.number().int().min(1).max(20),
+  minZoom: z.number().int().min(1).max(20).optional(),
+  tileUrl: z.string().min(1),
+  tileAttribution: z.string().default(""),
+  timezone: z.string().min(1),
+  // Suggested street and landmark names for the submission form
+  locations: z.array(z.object({ value: z.string(), label: z.string() })).default([]),
+  // Initial department directory, stored when the departments table is empty
+  departments: z.array(insertDepartmentSchema).min(1),
+  // Domains (and their subdomains) any project may email, besides the
+  // directory's own addresses
+  recipientDomains: z.array(z.string().min(1)).default([]),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Project = typeof projects.$inferSelect;
+export type RecipientStatus = Project["recipientStatus"];
+export type DeliveryMode = Project["deliveryMode"];
+export type EmailLanguage = Project["language"];
 export type InsertProject = z.infer<typeof insertProjectSchema>;
+// Project as created by the server, which also applies the recipient policy
+export type NewProject = Omit<InsertProject, "signedPromptVersion"> & Partial<Pick<Project, "recipientStatus" | "createdBy" | "promptVersion">>;
 
 export type Upvote = typeof upvotes.$inferSelect;
 export type InsertUpvote = z.infer<typeof insertUpvoteSchema>;
 
 export type Email = typeof emails.$inferSelect;
 export type InsertEmail = z.infer<typeof insertEmailSchema>;
+export type EmailStatus = Email["status"];
+export type SenderVerification = Email["senderVerification"];
+// Email as queued by the server, which also sets up sender verification
+export type NewEmail = InsertEmail & Partial<Pick<Email, "senderVerification" | "verificationToken" | "nextAttemptAt">>;
+
+export type Signature = typeof signatures.$inferSelect;
+export type InsertSignature = z.infer<typeof insertSignatureSchema>;
+
+export type Digest = typeof digests.$inferSelect;
+export type InsertDigest = z.infer<typeof insertDigestSchema>;
 
 export type Activity = typeof activities.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 
 export type Comment = typeof comments.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
+
+export type OfficialResponse = typeof officialResponses.$inferSelect;
+export type InsertOfficialResponse = z.infer<typeof insertOfficialResponseSchema>;
+
+export type Department = typeof departments.$inferSelect;
+export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
+
+export type SecurityEvent = typeof securityEvents.$inferSelect;
+export type InsertSecurityEvent = z.infer<typeof insertSecurityEventSchema>;
+
+export type RateLimit = typeof rateLimits.$inferSelect;
+
+export type AiUsage = typeof aiUsage.$inferSelect;
+export type InsertAiUsage = z.infer<typeof insertAiUsageSchema>;
+
+export type PromptRollout = typeof promptRollouts.$inferSelect;
+export type InsertPromptRollout = z.infer<typeof insertPromptRolloutSchema>;
+
+export type ProjectTranslation = typeof projectTranslations.$inferSelect;
+export type InsertProjectTranslation = z.infer<typeof insertProjectTranslationSchema>;
+
+export type Escalation = typeof escalations.$inferSelect;
+export type InsertEscalation = z.infer<typeof insertEscalationSchema>;
+
+// A project's escalation steps and where it stands (GET /api/projects/:id/escalation).
+// The clock starts when the first email or digest reaches the recipient.
+export interface EscalationSchedule {
+  state: 'none' | 'waiting' | 'active' | 'paused' | 'responded';
+  startedAt: Date | null;
+  steps: {
+    afterDays: number;
+    name: string;
+    email: string;
+    dueAt: Date | null;
+    sentAt: Date | null;
+  }[];
+}
+
+// A detail in an AI-written email that isn't in what the user submitted
+export interface GroundingWarning {
+  kind: 'number' | 'date' | 'name' | 'place' | 'claim' | 'urgency';
+  text: string;
+  // The sentence it appears in
+  sentence: string;
+}
+
+// Result of checking an AI-written email against the submitted details
+export interface GroundingCheck {
+  warnings: GroundingWarning[];
+  // The email without the sentences that have warnings
+  groundedBody: string;
+}
+
+export type ProjectSortKey = typeof projectSortKeys[number];
+export type ProjectQuery = z.infer<typeof projectQuerySchema>;
+
+export interface ProjectQueryResult {
+  items: Project[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export type Jurisdiction = z.infer<typeof jurisdictionSchema>;
+
+export type NearbyQuery = z.infer<typeof nearbyQuerySchema>;
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface GeoBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export type ProjectWithDistance = Project & { distanceMeters: number };
+
+export type DuplicateCheck = z.infer<typeof duplicateCheckSchema>;
+
+// An existing project that may describe the same issue as a draft
+export type DuplicateCandidate = ProjectWithDistance & {
+  similarity: number; // 0-1 text similarity of title and description
+  score: number;      // 0-1 combined rank from similarity and distance
+  likely: boolean;    // Score high enough to warn the user
+};
@@ -0,0 +1,244 @@
+import { sqliteTable, text, integer, real, index, uniqueIndex, check, primaryKey, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import {
+  type Project,
+  type EscalationRule,
+  issueTypeEnum,
+  urgencyLevelEnum,
+  progressStatusEnum,
+  emailStatusEnum,
+  senderVerificationEnum,
+  recipientStatusEnum,
+  deliveryModeEnum,
+  emailLanguageEnum,
+  userRoleEnum
+} from "./schema";
+
+// SQLite mirror of the tables in schema.ts. SQLite has no enum types, so the
+// Postgres enums become text columns guarded by CHECK constraints.
+
+// Timestamps are stored as milliseconds since the epoch
+const timestamp = (name: string) => integer(name, { mode: "timestamp_ms" });
+
+// CHECK expression restricting a text column to a fixed set of values
+function oneOf(column: AnySQLiteColumn, values: readonly string[]) {
+  // Unqualified column name, so the constraint survives table rebuilds in migrations
+  return sql`${sql.identifier(column.name)} in (${sql.raw(values.map((value) => `'${value}'`).join(", "))})`;
+}
+
+// Users table
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  email: text("email").notNull().unique(),
+  fullName: text("full_name"),
+  role: text("role", { enum: userRoleEnum.enumValues }).notNull().default('user'),
+  verified: integer("verified", { mode: "boolean" }).notNull().default(false),
+  verificationToken: text("verification_token"),
+  resetPasswordToken: text("reset_password_token"),
+  resetPasswordExpires: timestamp("reset_password_expires"),
+  profilePicture: text("profile_picture"),
+  createdAt: timestamp("created_at").notNull().$defaultFn(() => new Date()),
+  updatedAt: timestamp("updated_at").notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  check("users_role_check", oneOf(table.role, userRoleEnum.enumValues)),
+]);
+
+// Projects table
+export const projects = sqliteTable("projects", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  issueType: text("issue_type", { enum: issueTypeEnum.enumValues }).notNull(),
+  location: text("location").notNull(),
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+  urgencyLevel: text("urgency_level", { enum: urgencyLevelEnum.enumValues }).notNull().default('medium'),
+  contactEmail: text("contact_email"),
+  emailTemplate: text("email_template").notNull(),
+  emailSubject: text("email_subject").notNull(),
+  emailRecipient: text("email_recipient").notNull(),
+  upvotes: integer("upvotes").notNull().default(0),
+  emailsSent: integer("emails_sent").notNull().default(0),
+  progressStatus: text("progress_status", { enum: progressStatusEnum.enumValues }).notNull().default('idea_submitted'),
+  photoUrl: text("photo_url"),
+  photoData: text("photo_data"),
+  createdAt: timestamp("created_at").notNull().$defaultFn(() => new Date()),
+  createdBy: integer("created_by"),
+  mergedIntoId: integer("merged_into_id"),
+  recipientStatus: text("recipient_status", { enum: recipientStatusEnum.enumValues }).notNull().default('pending_approval'),
+  deliveryMode: text("delivery_mode", { enum: deliveryModeEnum.enumValues }).notNull().default('individual'),
+  escalationPaused: integer("escalation_paused", { mode: "boolean" }).notNull().default(false),
+  language: text("language", { enum: emailLanguageEnum.enumValues }).notNull().default('en'),
+  promptVersion: text("prompt_version"),
+}, (table) => [
+  index("projects_coordinates_idx").on(table.latitude, table.longitude),
+  check("projects_issue_type_check", oneOf(table.issueType, issueTypeEnum.enumValues)),
+  check("projects_urgency_level_check", oneOf(table.urgencyLevel, urgencyLevelEnum.enumValues)),
+  check("projects_progress_status_check", oneOf(table.progressStatus, progressStatusEnum.enumValues)),
+  check("projects_recipient_status_check", oneOf(table.recipientStatus, recipientStatusEnum.enumValues)),
+  check("projects_delivery_mode_check", oneOf(table.deliveryMode, deliveryModeEnum.enumValues)),
+  check("projects_language_check", oneOf(table.language, emailLanguageEnum.enumValues)),
+]);
+
+// Upvotes table to track who upvoted what
+export const upvotes = sqliteTable("upvotes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  projectId: integer("project_id").notNull(),
+  userId: integer("user_id"),
+  ipAddress: text("ip_address").notNull(),
+  createdAt: timestamp("created_at").notNull().$defaultFn(() => new Date()),
+});
+
+// Emails table, doubling as the outbound delivery queue
+export const emails = sqliteTable("emails", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  projectId: integer("project_id").notNull(),
+  senderEmail: text("sender_email"),
+  senderName: text("sender_name"),
+  customContent: text("custom_content"),
+  senderVerification: text("sender_verification", { enum: senderVerificationEnum.enumValues }).notNull().default('unverified'),
+  verificationToken: text("verification_token"),
+  senderVerifiedAt: timestamp("sender_verified_at"),
+  status: text("status", { enum: emailStatusEnum.enumValues }).notNull().default('queued'),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().$defaultFn(() => new Date()),
+  createdAt: timestamp("created_at").notNull().$defaultFn(() => new Date()),
+  sentAt: timestamp("sent_at"),
+}, (table) => [
+  index("emails_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  index("emails_verification_token_idx").on(table.verificationToken),
+  check("emails_status_check", oneOf(table.status, emailStatusEnum.enumValues)),
+  check("emails_sender_verification_check", oneOf(table.senderVerification, senderVerificationEnum.enumValues)),
+]);
+
+export const signatures = sqliteTable("signatures", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  projectId: integer("project_id").notNull(),
+  signerName: text("signer_name"),
+  signerEmail: text("signer_email"),
+  message: text("message"),
+  digestId: integer("digest_id"),
+  createdAt: timestamp("created_at").notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  index("signatures_project_digest_idx").on(table.projectId, table.digestId),
+]);
+
+export const digests = sqliteTable("digests", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  projectId: integer("project_id").notNull(),
+  recipient: text("recipient").notNull(),
+  signatureCount: integer("signature_count").notNull(),
+  totalSupporters: integer("total_supporters").notNull(),
+  sentAt: timestamp("sent_at").notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  index("digests_project_idx").on(table.projectId),
+]);
+
+export const projectTranslations = sqliteTable("project_translations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  projectId: integer("project_id").notNull(),
+  language: text("language", { enum: emailLanguageEnum.enumValues }).notNull(),
+  emailSubject: text("email_subject").notNull(),
+  emailTemplate: text("email_template").notNull(),
+  createdAt: timestamp("created_at").notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex("project_translations_project_language_idx").on(table.projectId, table.language),
+  check("project_translations_language_check", oneOf(table.language, emailLanguageEnum.enumValues)),
+]);
+
+// Activity table to track recent actions
+export const activities = sqliteTable("activities", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  projectId: integer("project_id").notNull(),
+  activityType: text("activity_type").notNull(),
+  actorName: text("actor_name"),
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").notNull().$defaultFn(() => new Date()),
+});
+
+// Comments table for project discussions
+export const comments = sqliteTable("comments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  projectId: integer("project_id").notNull(),
+  text: text("text").notNull(),
+  commenterName: text("commenter_name").notNull(),
+  createdAt: timestamp("created_at").notNull().$defaultFn(() => new Date()),
+});
+
+export const officialResponses = sqliteTable("official_responses", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  projectId: integer("project_id").notNull(),
+  fromAddress: text("from_address").notNull(),
+  fromName: text("from_name"),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  messageId: text("message_id").unique(),
+  receivedAt: timestamp("received_at").notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  index("official_responses_project_idx").on(table.projectId),
+]);
+
+// Security-relevant events for admins to review
+export const securityEvents = sqliteTable("security_events", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  eventType: text("event_type").notNull(),
+  description: text("description").notNull(),
+  projectId: integer("project_id"),
+  userId: integer("user_id"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().$defaultFn(() => new Date()),
+});
+
+export const rateLimits = sqliteTable("rate_limits", {
+  key: text("key").notNull(),
+  windowStart: timestamp("window_start").notNull(),
+  count: integer("count").notNull().default(0),
+}, (table) => [
+  primaryKey({ columns: [table.key, table.windowStart] }),
+]);
+
+export const aiUsage = sqliteTable("ai_usage", {
+  day: text("day").notNull(),
+  task: text("task").notNull(),
+  requests: integer("requests").notNull().default(0),
+  cachedRequests: integer("cached_requests").notNull().default(0),
+  budgetFallbacks: integer("budget_fallbacks").notNull().default(0),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  costUsd: real("cost_usd").notNull().default(0),
+}, (table) => [
+  primaryKey({ columns: [table.day, table.task] }),
+]);
+
+export const promptRollouts = sqliteTable("prompt_rollouts", {
+  name: text("name").primaryKey(),
+  version: integer("version").notNull(),
+  percent: integer("percent").notNull(),
+  updatedAt: timestamp("updated_at").notNull().$defaultFn(() => new Date()),
+});
+
+export const escalations = sqliteTable("escalations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  projectId: integer("project_id").notNull(),
+  departmentId: integer("department_id"),
+  afterDays: integer("after_days").notNull(),
+  recipientName: text("recipient_name").notNull(),
+  recipientEmail: text("recipient_email").notNull(),
+  sentAt: timestamp("sent_at").notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  index("escalations_project_idx").on(table.projectId),
+]);
+
+// Departments directory used to route issue emails. Arrays are stored as JSON text.
+export const departments = sqliteTable("departments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  issueTypes: text("issue_types", { mode: "json" }).$type<Project["issueType"][]>().notNull().$defaultFn(() => []),
+  area: text("area", { mode: "json" }).$type<[number, number][]>(),
+  escalationRules: text("escalation_rules", { mode: "json" }).$type<EscalationRule[]>().notNull().default(sql`'[]'`),
+  createdAt: timestamp("created_at").notNull().$defaultFn(() => new Date()),
+});